@@ -0,0 +1,196 @@
+"use client";
+import { useEffect, useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import PlayerPanel from '@/components/game/PlayerPanel';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ArrowLeft, Award, CalendarDays, Copy, Film, Timer } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import useLocalStorage from '@/hooks/useLocalStorage';
+import { checkWin } from '@/lib/gameLogic';
+import { getNotepadStorageKey } from '@/lib/notepad';
+import { PROFILE_KEY_HEADER } from '@/lib/profile';
+import { saveLocalReplay } from '@/lib/replay';
+import {
+  DAILY_CODE_RULES,
+  buildDailyShareText,
+  createDailyResult,
+  formatDuration,
+  getDailyKey,
+  type DailyResult,
+} from '@/lib/daily';
+import type { DailyGuessResponse, GameEvent, Guess } from '@/types/game';
+
+interface DailyProgress {
+  dateKey: string;
+  guesses: Guess[];
+  startedAt: number; // Epoch ms; kept across reloads so leaving the page does not stop the clock
+  events?: GameEvent[]; // Every guess with its time, for the replay
+}
+
+const getDailyReplayId = (dateKey: string) => `daily-${dateKey}`;
+
+export default function DailyChallengePage() {
+  const router = useRouter();
+  const { toast } = useToast();
+  const { username, profile, profileKey, recordGameResult } = useAuth();
+
+  const [dateKey] = useState(() => getDailyKey());
+  const [dailyResults, setDailyResults] = useLocalStorage<{ [dateKey: string]: DailyResult }>('numberlock-dailyResults', {});
+  const [progress, setProgress] = useLocalStorage<DailyProgress | null>('numberlock-dailyProgress', null);
+  const [now, setNow] = useState(() => Date.now());
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const result = dailyResults[dateKey];
+  const activeProgress = progress && progress.dateKey === dateKey ? progress : null;
+
+  useEffect(() => {
+    if (!result && !activeProgress) {
+      const startedAt = Date.now();
+      setProgress({ dateKey, guesses: [], startedAt, events: [{ type: 'game-start', at: startedAt, playerId: 'player' }] });
+    }
+  }, [result, activeProgress, dateKey, setProgress]);
+
+  const profileId = profile?.profileId;
+  const requestHeaders = useMemo(() => {
+    const headers: { [name: string]: string } = { 'Content-Type': 'application/json' };
+    if (profileKey) headers[PROFILE_KEY_HEADER] = profileKey;
+    return headers;
+  }, [profileKey]);
+  const hasStarted = !!activeProgress;
+  useEffect(() => {
+    // Starts the attempt on the server, which times the challenge for the leaderboard.
+    // The server only accepts it with the profile key, which arrives after the profile is first saved.
+    if (!hasStarted || !profileId || !username || !profileKey) return;
+    fetch('/api/daily', {
+      method: 'POST',
+      headers: requestHeaders,
+      body: JSON.stringify({ dateKey, profileId, playerName: username }),
+    })
+      .then(res => (res.ok ? undefined : Promise.reject(new Error(`Daily start request failed with ${res.status}`))))
+      .catch(err => console.warn("[Daily] Could not start the attempt:", err));
+  }, [hasStarted, profileId, username, profileKey, dateKey, requestHeaders]);
+
+  useEffect(() => {
+    if (result || !activeProgress) return;
+    const intervalId = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(intervalId);
+  }, [result, activeProgress]);
+
+  const handleMakeGuess = async (guessString: string) => {
+    if (result || !activeProgress || isSubmitting) return;
+    // The day's code only lives on the server, which scores every guess
+    setIsSubmitting(true);
+    let response: DailyGuessResponse;
+    try {
+      const res = await fetch('/api/daily', {
+        method: 'POST',
+        headers: requestHeaders,
+        body: JSON.stringify({ dateKey, guess: guessString, profileId, playerName: username }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.message || `Daily guess request failed with ${res.status}`);
+      response = data;
+    } catch (err) {
+      console.warn("[Daily] Could not score the guess:", err);
+      toast({ title: "Guess not scored", description: err instanceof Error ? err.message : "Please try again.", variant: "destructive" });
+      return;
+    } finally {
+      setIsSubmitting(false);
+    }
+    const newGuess = response.guess;
+    const guesses = [...activeProgress.guesses, newGuess];
+    const now = Date.now();
+    const events: GameEvent[] = [...(activeProgress.events || []), { type: 'guess', at: now, playerId: 'player', targetPlayerId: 'daily', guess: newGuess }];
+
+    if (checkWin(newGuess.feedback)) {
+      const dailyResult = createDailyResult(dateKey, guesses, now - activeProgress.startedAt);
+      saveLocalReplay({
+        replayId: getDailyReplayId(dateKey),
+        mode: 'daily',
+        players: [{ id: 'player', name: username || 'Player' }, { id: 'daily', name: `Daily code ${dateKey}` }],
+        secrets: { daily: response.secret || guessString.split('') },
+        codeRules: DAILY_CODE_RULES,
+        events: [...events, { type: 'game-over', at: now, winner: 'player' }],
+        startedAt: activeProgress.startedAt,
+        finishedAt: now,
+        winner: 'player',
+      });
+      setDailyResults(prev => ({ ...prev, [dateKey]: dailyResult }));
+      setProgress(null);
+      recordGameResult({ mode: 'daily', won: true, guessCount: dailyResult.guessCount, durationMs: dailyResult.timeMs });
+      toast({ title: "Solved!", description: `You cracked today's code in ${guesses.length} ${guesses.length === 1 ? 'guess' : 'guesses'}.` });
+    } else {
+      setProgress({ ...activeProgress, guesses, events });
+    }
+  };
+
+  const handleCopyShareText = () => {
+    if (!result) return;
+    navigator.clipboard.writeText(buildDailyShareText(result));
+    toast({ title: "Copied!", description: "Your result was copied to the clipboard." });
+  };
+
+  if (result) {
+    return (
+      <Card className="w-full max-w-md mx-auto text-center shadow-xl">
+        <CardHeader>
+          <Award className="mx-auto h-16 w-16 text-primary" />
+          <CardTitle className="text-3xl mt-4">Daily Challenge Solved</CardTitle>
+          <CardDescription className="pt-2">
+            {dateKey} · Come back tomorrow for a new code.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p>Guesses: <span className="font-semibold text-primary">{result.guessCount}</span></p>
+          <p>Time: <span className="font-mono text-primary">{formatDuration(result.timeMs)}</span></p>
+          <pre className="rounded-md bg-muted/50 p-3 text-sm leading-snug whitespace-pre-wrap">{buildDailyShareText(result)}</pre>
+          <Button onClick={handleCopyShareText} className="w-full" size="lg">
+            <Copy className="mr-2 h-5 w-5" /> Copy Result
+          </Button>
+          <Button variant="outline" onClick={() => router.push(`/replay/${getDailyReplayId(dateKey)}`)} className="w-full">
+            <Film className="mr-2 h-5 w-5" /> Watch Replay
+          </Button>
+          <Button variant="link" onClick={() => router.push('/mode-select')} className="text-sm">
+            Back to Mode Select
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!activeProgress) {
+    return <div className="flex-grow flex items-center justify-center"><p>Loading today&apos;s challenge...</p></div>;
+  }
+
+  return (
+    <div className="space-y-6 max-w-xl mx-auto">
+      <div className="text-center py-3 rounded-lg bg-card shadow-md border border-border flex flex-col items-center">
+        <div className="flex items-center w-full px-2">
+          <Button variant="ghost" size="icon" onClick={() => router.push('/mode-select')}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <h2 className="flex-grow text-xl font-semibold text-primary flex items-center justify-center">
+            <CalendarDays className="mr-2 h-5 w-5" /> Daily Challenge · {dateKey}
+          </h2>
+          <div className="w-10" />
+        </div>
+        <div className="mt-1 p-1 rounded-md border border-border/60 flex items-center">
+          <Timer className="mr-2 h-5 w-5 text-muted-foreground" />
+          <span className="text-xl sm:text-2xl font-mono font-semibold">{formatDuration(now - activeProgress.startedAt)}</span>
+        </div>
+      </div>
+      <PlayerPanel
+        playerName={username || "Player"}
+        isCurrentPlayer={true}
+        isPlayerTurn={true}
+        guesses={activeProgress.guesses}
+        onMakeGuess={handleMakeGuess}
+        isSubmitting={isSubmitting}
+        codeRules={DAILY_CODE_RULES}
+        notepadKey={getNotepadStorageKey(`daily-${dateKey}`)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+"use client";
+import { useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Card, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Loader2 } from 'lucide-react';
+import { isValidRoomCode, normalizeRoomCode } from '@/lib/gameLogic';
+
+export default function JoinRoomPage() {
+  const router = useRouter();
+  const params = useParams<{ code: string }>();
+  const roomCode = normalizeRoomCode(params?.code ? decodeURIComponent(params.code) : '');
+  const isValid = isValidRoomCode(roomCode);
+  const [error, setError] = useState<string | null>(null);
+
+  // Invite links skip the multiplayer setup page, so start the socket server here before handing over
+  useEffect(() => {
+    if (!isValid) return;
+    fetch('/api/socketio', { method: 'POST' })
+      .then(res => {
+        if (res.ok) {
+          router.replace(`/multiplayer-secret-setup?gameId=${roomCode}`);
+        } else {
+          console.error("[JoinRoom] Failed to signal server-side components.");
+          setError("Could not prepare the multiplayer service. Please try again.");
+        }
+      })
+      .catch(err => {
+        console.error("[JoinRoom] Error signaling server-side components:", err);
+        setError("Failed to connect to the multiplayer service.");
+      });
+  }, [isValid, roomCode, router]);
+
+  if (!isValid || error) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[calc(100vh-200px)] py-8">
+        <Card className="w-full max-w-md text-center">
+          <CardHeader>
+            <CardTitle className="text-destructive">{isValid ? "Connection Problem" : "Invalid Invite Link"}</CardTitle>
+            <CardDescription className="pt-2">
+              {error || "This link does not contain a valid room code. Ask the host to share it again."}
+            </CardDescription>
+          </CardHeader>
+          <CardFooter>
+            <Button onClick={() => router.push('/multiplayer-setup')} className="w-full">Go to Multiplayer</Button>
+          </CardFooter>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col items-center justify-center min-h-[calc(100vh-200px)] py-8">
+      <Card className="w-full max-w-md text-center">
+        <CardHeader>
+          <CardTitle className="text-primary flex items-center justify-center">
+            <Loader2 className="mr-3 h-6 w-6 animate-spin" /> Joining Room...
+          </CardTitle>
+          <CardDescription className="pt-2">Room code: <span className="font-mono">{roomCode}</span></CardDescription>
+        </CardHeader>
+      </Card>
+    </div>
+  );
+}
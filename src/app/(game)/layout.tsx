@@ -15,7 +15,7 @@ export default function GameLayout({
 
   useEffect(() => {
     if (!isAuthLoading && !isLoggedIn) {
-      if (pathname.startsWith('/setup') || pathname.startsWith('/play') || pathname.startsWith('/multiplayer-setup') || pathname.startsWith('/multiplayer-secret-setup') || pathname.startsWith('/multiplayer-play')) {
+      if (pathname.startsWith('/setup') || pathname.startsWith('/play') || pathname.startsWith('/multiplayer-setup') || pathname.startsWith('/multiplayer-secret-setup') || pathname.startsWith('/multiplayer-play') || pathname.startsWith('/lobby') || pathname.startsWith('/join') || pathname.startsWith('/daily')) {
         router.replace("/");
       }
     }
@@ -29,7 +29,7 @@ export default function GameLayout({
     ); 
   }
 
-  if (!isLoggedIn && (pathname.startsWith('/setup') || pathname.startsWith('/play') || pathname.startsWith('/multiplayer-setup') || pathname.startsWith('/multiplayer-secret-setup') || pathname.startsWith('/multiplayer-play'))) {
+  if (!isLoggedIn && (pathname.startsWith('/setup') || pathname.startsWith('/play') || pathname.startsWith('/multiplayer-setup') || pathname.startsWith('/multiplayer-secret-setup') || pathname.startsWith('/multiplayer-play') || pathname.startsWith('/lobby') || pathname.startsWith('/join') || pathname.startsWith('/daily'))) {
     return (
       <div className="flex-grow flex flex-col items-center justify-center p-4">
         <p>Redirecting to login...</p>
@@ -0,0 +1,179 @@
+"use client";
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowLeft, List, RefreshCw, Zap } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { PLAYER_COUNT_PARAMS, describeRoomRules, formatRoomAge, pickQuickMatchRoom } from '@/lib/lobby';
+import type { RoomListing } from '@/types/game';
+
+const ANY = 'any';
+const REFRESH_INTERVAL_MS = 5000;
+
+export default function LobbyPage() {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [playerCountFilter, setPlayerCountFilter] = useState<string>(ANY);
+  const [quickMatchPlayerCount, setQuickMatchPlayerCount] = useState<string>('2');
+  const [rooms, setRooms] = useState<RoomListing[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isServerReady, setIsServerReady] = useState(false);
+  const [isMatching, setIsMatching] = useState(false);
+
+  // The socket server is started on demand, as on the multiplayer setup page
+  useEffect(() => {
+    fetch('/api/socketio', { method: 'POST' })
+      .then(res => {
+        if (res.ok) setIsServerReady(true);
+        else console.error("[Lobby] Failed to signal server-side components.");
+      })
+      .catch(err => console.error("[Lobby] Error signaling server-side components:", err));
+  }, []);
+
+  const fetchRooms = useCallback(async (playerCount?: string): Promise<RoomListing[]> => {
+    const params = new URLSearchParams();
+    if (playerCount && playerCount !== ANY) params.set('playerCount', playerCount);
+    const res = await fetch(`/api/rooms?${params.toString()}`);
+    if (!res.ok) throw new Error(`Room listing failed with ${res.status}`);
+    return res.json();
+  }, []);
+
+  const refreshRooms = useCallback(() => {
+    fetchRooms(playerCountFilter)
+      .then(listings => {
+        setRooms(listings);
+        setError(null);
+      })
+      .catch(err => {
+        console.warn("[Lobby] Could not load the rooms:", err);
+        setError("The lobby is not available right now.");
+      });
+  }, [fetchRooms, playerCountFilter]);
+
+  useEffect(() => {
+    refreshRooms();
+    const intervalId = setInterval(refreshRooms, REFRESH_INTERVAL_MS);
+    return () => clearInterval(intervalId);
+  }, [refreshRooms]);
+
+  const joinRoom = (listing: RoomListing) => {
+    router.push(`/multiplayer-secret-setup?gameId=${listing.gameId}&playerCount=${PLAYER_COUNT_PARAMS[listing.playerCount]}`);
+  };
+
+  const handleQuickMatch = async () => {
+    const playerCount = Number(quickMatchPlayerCount);
+    setIsMatching(true);
+    try {
+      const match = pickQuickMatchRoom(await fetchRooms(quickMatchPlayerCount), playerCount);
+      if (match) {
+        toast({ title: "Match found!", description: `Joining ${match.hostName}'s room.` });
+        joinRoom(match);
+        return;
+      }
+      // Nobody is waiting: open a public room with the default rules for the next player to find
+      toast({ title: "No open room", description: "Creating a new public room. Waiting for players to join." });
+      router.push(`/multiplayer-secret-setup?playerCount=${PLAYER_COUNT_PARAMS[playerCount]}&isHost=true&isPublic=true`);
+    } catch (err) {
+      console.warn("[Lobby] Quick match failed:", err);
+      toast({ title: "Quick Match Failed", description: "Could not reach the lobby. Please try again.", variant: "destructive" });
+      setIsMatching(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-center justify-center min-h-[calc(100vh-200px)] py-8">
+      <Card className="w-full max-w-3xl shadow-xl">
+        <CardHeader>
+          <div className="flex items-center">
+            <Button variant="ghost" size="icon" onClick={() => router.push('/multiplayer-setup')}>
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <CardTitle className="flex-grow text-3xl text-center flex items-center justify-center">
+              <List className="mr-2 h-7 w-7 text-primary" /> Public Lobby
+            </CardTitle>
+            <div className="w-10" />
+          </div>
+          <CardDescription className="pt-2 text-center">
+            Join an open room, or let Quick Match find one for you.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="flex flex-col sm:flex-row items-stretch sm:items-end gap-2 rounded-md border p-3">
+            <div className="space-y-2 flex-grow">
+              <Label htmlFor="quick-match-player-count">Quick Match</Label>
+              <Select value={quickMatchPlayerCount} onValueChange={setQuickMatchPlayerCount}>
+                <SelectTrigger id="quick-match-player-count"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {Object.keys(PLAYER_COUNT_PARAMS).map(count => (
+                    <SelectItem key={count} value={count}>{count} Players</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button onClick={handleQuickMatch} disabled={!isServerReady || isMatching}>
+              <Zap className="mr-2 h-4 w-4" /> {isMatching ? 'Matching...' : 'Quick Match'}
+            </Button>
+          </div>
+
+          <div className="flex items-end justify-between gap-2">
+            <div className="space-y-2 w-40">
+              <Label htmlFor="lobby-player-count">Players</Label>
+              <Select value={playerCountFilter} onValueChange={setPlayerCountFilter}>
+                <SelectTrigger id="lobby-player-count"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Any</SelectItem>
+                  {Object.keys(PLAYER_COUNT_PARAMS).map(count => (
+                    <SelectItem key={count} value={count}>{count} Players</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button variant="outline" size="sm" onClick={refreshRooms}>
+              <RefreshCw className="mr-2 h-4 w-4" /> Refresh
+            </Button>
+          </div>
+
+          {error ? (
+            <p className="text-center text-destructive py-6">{error}</p>
+          ) : !rooms ? (
+            <p className="text-center text-muted-foreground py-6">Loading rooms...</p>
+          ) : rooms.length === 0 ? (
+            <p className="text-center text-muted-foreground py-6">No open rooms right now. Try Quick Match to start one.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Host</TableHead>
+                  <TableHead>Players</TableHead>
+                  <TableHead>Rules</TableHead>
+                  <TableHead className="text-right">Age</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rooms.map(room => (
+                  <TableRow key={room.gameId}>
+                    <TableCell className="font-medium">
+                      {room.hostName}
+                      <span className="block text-xs font-mono text-muted-foreground">{room.gameId}</span>
+                    </TableCell>
+                    <TableCell>{room.joinedCount}/{room.playerCount}</TableCell>
+                    <TableCell className="text-xs text-muted-foreground">{describeRoomRules(room)}</TableCell>
+                    <TableCell className="text-right">{formatRoomAge(room.ageMs)}</TableCell>
+                    <TableCell className="text-right">
+                      <Button size="sm" onClick={() => joinRoom(room)} disabled={!isServerReady}>Join</Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
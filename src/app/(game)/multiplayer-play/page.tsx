@@ -9,17 +9,28 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/com
 import PlayerPanel from '@/components/game/PlayerPanel';
 import TurnIndicator from '@/components/game/TurnIndicator';
 import TimerDisplay from '@/components/game/TimerDisplay';
+import ChessClockDisplay, { type ChessClock } from '@/components/game/ChessClockDisplay';
+import SeriesScoreboard, { type SeriesPlayer } from '@/components/game/SeriesScoreboard';
+import HintPanel from '@/components/game/HintPanel';
+import HowToPlayDialog from '@/components/layout/HowToPlayDialog';
 import { Button } from '@/components/ui/button';
-import type { Guess, PlayerData as ServerPlayerData, GameRoom as ServerGameRoom, TurnUpdateData } from '@/types/game'; 
-import { CODE_LENGTH } from '@/lib/gameLogic';
-import { Award, Hourglass, Loader2, LogOut } from 'lucide-react';
+import type { Guess, PlayerView, GameRoomView, JoinGameAck, UseHintAck, TurnUpdateData, PlayerPlacedData, TargetMode, FeedbackMode, CodeRules, TurnTimerSettings, SeriesGameResult } from '@/types/game'; 
+import { DEFAULT_CODE_RULES, normalizeCodeRules } from '@/lib/gameLogic';
+import { clearGameSession, loadGameSession, saveGameSession } from '@/lib/gameSession';
+import { DEFAULT_TURN_TIMER, RECONNECT_GRACE_MS, TIMEOUT_POLICY_LABELS, describeTurnTimer, getClockOffset, getInitialTimeBankMs, getSecondsLeft, normalizeTurnTimerSettings } from '@/lib/turnClock';
+import { DEFAULT_BEST_OF, describeSeries, normalizeBestOf } from '@/lib/series';
+import { clearNotepads, getNotepadStorageKey } from '@/lib/notepad';
+import { getRoomReplayId } from '@/lib/replay';
+import { Award, Eye, Film, Hourglass, Loader2, LogOut, RotateCcw, WifiOff } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 
-const INITIAL_TIME_LIMIT_MULTIPLAYER = 30; // seconds
+// How long to wait for the server to count a hint before giving up on showing it
+const HINT_ACK_TIMEOUT_MS = 5000;
 
-interface ClientPlayerData extends Partial<ServerPlayerData> {
+interface ClientPlayerData extends Partial<PlayerView> {
   guessesMade?: Guess[];
   guessesAgainst?: Guess[];
+  secret?: string[]; // Only sent for other players once the game is over
 }
 
 interface MultiplayerGameState {
@@ -30,18 +41,39 @@ interface MultiplayerGameState {
   gameStatus: 'LOADING' | 'WAITING_FOR_GAME_START' | 'IN_PROGRESS' | 'GAME_OVER';
   winner: string | null; // winner playerId
   targetMap: { [playerId: string]: string } | null; 
+  targetMode: TargetMode;
+  feedbackMode: FeedbackMode;
+  codeRules: CodeRules;
+  turnTimer: TurnTimerSettings;
+  turnOrder: string[];
+  remainingPlayerIds: string[];
+  placements: { [playerId: string]: number };
+  ranking: string[] | null;
+  inProgressSince: string | null; // ISO time the game started, used for the profile's fastest solve
+  turnDeadline: number | null; // Server epoch ms at which the current turn times out
+  clockOffsetMs: number; // Server clock minus local clock, from the last server timestamp
   timeLeft: number;
   isTimerActive: boolean;
+  spectatorCount: number;
+  rematchVotes: string[];
+  seriesScore: { [playerId: string]: number };
+  bestOf: number;
+  seriesGames: SeriesGameResult[];
+  seriesWinner: string | null;
+  hintsAllowed: boolean;
+  hardcore: boolean;
 }
 
 export default function MultiplayerPlayPage() {
   const router = useRouter();
   const searchParams = useSearchParams();
   const { toast } = useToast();
-  const { username } = useAuth(); 
+  const { username, profile, profileKey, recordGameResult } = useAuth(); 
+  const profileId = profile?.profileId;
 
   const gameId = searchParams ? searchParams.get('gameId') : null;
   const playerCountParam = searchParams ? searchParams.get('playerCount') : "duo"; 
+  const isSpectator = searchParams ? searchParams.get('spectate') === 'true' : false;
 
   const [socket, setSocket] = useState<ClientSocket | null>(null);
   const [gameState, setGameState] = useState<MultiplayerGameState>({
@@ -52,10 +84,30 @@ export default function MultiplayerPlayPage() {
     gameStatus: 'LOADING', 
     winner: null,
     targetMap: null,
-    timeLeft: INITIAL_TIME_LIMIT_MULTIPLAYER,
+    targetMode: 'ring',
+    feedbackMode: 'exact',
+    codeRules: DEFAULT_CODE_RULES,
+    turnTimer: DEFAULT_TURN_TIMER,
+    turnOrder: [],
+    remainingPlayerIds: [],
+    placements: {},
+    ranking: null,
+    inProgressSince: null,
+    turnDeadline: null,
+    clockOffsetMs: 0,
+    timeLeft: DEFAULT_TURN_TIMER.turnSeconds,
     isTimerActive: false,
+    spectatorCount: 0,
+    rematchVotes: [],
+    seriesScore: {},
+    bestOf: DEFAULT_BEST_OF,
+    seriesGames: [],
+    seriesWinner: null,
+    hintsAllowed: false,
+    hardcore: false,
   });
   const [isSubmittingGuess, setIsSubmittingGuess] = useState(false);
+  const [selectedTargetId, setSelectedTargetId] = useState<string | null>(null);
 
   useEffect(() => {
     if (!gameId) {
@@ -63,64 +115,90 @@ export default function MultiplayerPlayPage() {
       router.push('/mode-select');
       return;
     }
-    console.log(`[MultiplayerPlay] Game ${gameId}: Page loaded. Attempting to retrieve player ID and secret.`);
+    let storedPlayerId: string | null = null;
+    let reconnectToken: string | null = null;
+    if (isSpectator) {
+        console.log(`[MultiplayerPlay] Game ${gameId}: Page loaded as a spectator.`);
+    } else {
+        console.log(`[MultiplayerPlay] Game ${gameId}: Page loaded. Attempting to retrieve player ID and secret.`);
 
-    const storedPlayerId = localStorage.getItem('myPlayerId_activeGame');
-    const gameIdForStoredPlayer = storedPlayerId ? localStorage.getItem(`activeGameId_${storedPlayerId}`) : null;
+        const session = loadGameSession(gameId);
+        if (!session) {
+            toast({ title: "Error", description: "Player identity mismatch or session expired for play page.", variant: "destructive" });
+            router.push(`/multiplayer-setup`); 
+            return;
+        }
+        storedPlayerId = session.playerId;
+        reconnectToken = session.reconnectToken;
+        const myDisplayName = username || storedPlayerId;
+        console.log(`[MultiplayerPlay] Game ${gameId}: Found storedPlayerId: ${storedPlayerId}, My Display Name: ${myDisplayName}`);
+        
+        const mySecretFromStorage = localStorage.getItem(`mySecret_${gameId}_${storedPlayerId}`);
+        if (!mySecretFromStorage) {
+            toast({ title: "Error", description: "Your secret code for this game was not found. Please setup again.", variant: "destructive" });
+            router.push(`/multiplayer-secret-setup?gameId=${gameId}&playerCount=${playerCountParam}`);
+            return;
+        }
+        console.log(`[MultiplayerPlay] Game ${gameId}: Found secret for ${myDisplayName}`);
 
-    if (!storedPlayerId || gameIdForStoredPlayer !== gameId) {
-        toast({ title: "Error", description: "Player identity mismatch or session expired for play page.", variant: "destructive" });
-        if (storedPlayerId) localStorage.removeItem(`activeGameId_${storedPlayerId}`);
-        localStorage.removeItem('myPlayerId_activeGame'); 
-        router.push(`/multiplayer-setup`); 
-        return;
+        const confirmedPlayerId = storedPlayerId;
+        setGameState(prev => ({
+            ...prev,
+            myPlayerId: confirmedPlayerId,
+            mySecret: JSON.parse(mySecretFromStorage), 
+        }));
     }
-    const myDisplayName = username || storedPlayerId;
-    console.log(`[MultiplayerPlay] Game ${gameId}: Found storedPlayerId: ${storedPlayerId}, My Display Name: ${myDisplayName}`);
-    
-    const mySecretFromStorage = localStorage.getItem(`mySecret_${gameId}_${storedPlayerId}`);
-    if (!mySecretFromStorage) {
-        toast({ title: "Error", description: "Your secret code for this game was not found. Please setup again.", variant: "destructive" });
-        router.push(`/multiplayer-secret-setup?gameId=${gameId}&playerCount=${playerCountParam}`);
-        return;
-    }
-    console.log(`[MultiplayerPlay] Game ${gameId}: Found secret for ${myDisplayName}`);
-
-    setGameState(prev => ({
-        ...prev,
-        myPlayerId: storedPlayerId,
-        mySecret: JSON.parse(mySecretFromStorage), 
-    }));
     
     const newSocket = io({ path: '/api/socketio_c', addTrailingSlash: false, transports: ['websocket'] }); 
     setSocket(newSocket);
     console.log(`[MultiplayerPlay] Game ${gameId}: Socket instance created ${newSocket.id}. Joining with storedPlayerId: ${storedPlayerId}, Username: ${username}`);
 
+    let hasConnected = false;
     newSocket.on('connect', () => {
+        // Every connect rejoins the room, and the server answers with the full room state, so a dropped
+        // connection resyncs everything that happened in the meantime
+        if (hasConnected) toast({ title: "Reconnected", description: "Back in the game." });
+        hasConnected = true;
+        if (isSpectator) {
+            console.log(`[MultiplayerPlay] Game ${gameId}: Connected with socket ID ${newSocket.id}. Emitting 'join-game' as a spectator`);
+            newSocket.emit('join-game', { gameId, playerCount: playerCountParam || "duo", username: username || undefined, spectate: true });
+            return;
+        }
         console.log(`[MultiplayerPlay] Game ${gameId}: Connected with socket ID ${newSocket.id}. Emitting 'join-game' for storedPlayerId: ${storedPlayerId}`);
         newSocket.emit('join-game', { 
             gameId, 
             playerCount: playerCountParam || "duo", 
-            rejoiningPlayerId: storedPlayerId,
-            username: username || undefined 
+            reconnectToken,
+            username: username || undefined,
+            profileId,
+            profileKey: profileKey || undefined,
         });
     });
+
+    newSocket.on('player-assigned', (data: JoinGameAck) => {
+        if (data.gameId !== gameId || data.playerId !== storedPlayerId) return;
+        reconnectToken = data.reconnectToken;
+        saveGameSession(gameId, { playerId: data.playerId, reconnectToken: data.reconnectToken });
+    });
     
-    newSocket.on('game-state-update', (serverRoomState: ServerGameRoom) => {
+    newSocket.on('game-state-update', (serverRoomState: GameRoomView) => {
          console.log(`[MultiplayerPlay] Game ${gameId}: Received 'game-state-update':`, JSON.stringify(serverRoomState, null, 2));
          if (serverRoomState.gameId === gameId) {
             const newPlayersData: MultiplayerGameState['playersData'] = {};
             if (serverRoomState.players) {
                 Object.keys(serverRoomState.players).forEach(pid => {
                     const serverPlayer = serverRoomState.players[pid];
-                    if (serverPlayer.socketId || pid === storedPlayerId) { 
+                    if (serverPlayer.isConnected || pid === storedPlayerId || serverRoomState.turnOrder?.includes(pid)) { 
                         newPlayersData[pid] = {
-                            socketId: serverPlayer.socketId,
+                            isConnected: serverPlayer.isConnected,
                             displayName: serverPlayer.displayName || pid,
                             guessesMade: serverPlayer.guessesMade || [], 
                             guessesAgainst: serverPlayer.guessesAgainst || [],
                             isReady: serverPlayer.isReady,
                             hasSetSecret: serverPlayer.hasSetSecret,
+                            timeBankMs: serverPlayer.timeBankMs,
+                            hintsUsed: serverPlayer.hintsUsed,
+                            secret: pid === storedPlayerId ? undefined : serverPlayer.secret,
                         };
                     }
                 });
@@ -140,7 +218,26 @@ export default function MultiplayerPlayPage() {
                 gameStatus: currentStatus,
                 winner: serverRoomState.winner || null,
                 targetMap: serverRoomState.targetMap || null,
-                isTimerActive: currentStatus === 'IN_PROGRESS' && !!serverRoomState.turn && !serverRoomState.winner,
+                targetMode: serverRoomState.targetMode || 'ring',
+                feedbackMode: serverRoomState.feedbackMode || 'exact',
+                codeRules: normalizeCodeRules(serverRoomState.codeRules),
+                turnTimer: normalizeTurnTimerSettings(serverRoomState.turnTimer),
+                turnOrder: serverRoomState.turnOrder || [],
+                remainingPlayerIds: serverRoomState.remainingPlayerIds || [],
+                placements: serverRoomState.placements || {},
+                ranking: serverRoomState.ranking || null,
+                inProgressSince: serverRoomState.inProgressSince ? new Date(serverRoomState.inProgressSince).toISOString() : prev.inProgressSince,
+                turnDeadline: serverRoomState.turnDeadline ?? null,
+                clockOffsetMs: getClockOffset(serverRoomState.serverTime),
+                isTimerActive: currentStatus === 'IN_PROGRESS' && !!serverRoomState.turn && !!serverRoomState.turnDeadline && !serverRoomState.winner,
+                spectatorCount: serverRoomState.spectatorCount ?? prev.spectatorCount,
+                rematchVotes: serverRoomState.rematchVotes || [],
+                seriesScore: serverRoomState.seriesScore || {},
+                bestOf: normalizeBestOf(serverRoomState.bestOf),
+                seriesGames: serverRoomState.seriesGames || [],
+                seriesWinner: serverRoomState.seriesWinner || null,
+                hintsAllowed: serverRoomState.hintsAllowed === true,
+                hardcore: serverRoomState.hardcore === true,
             }));
          }
     });
@@ -168,8 +265,6 @@ export default function MultiplayerPlayPage() {
                     targetMap: data.targetMap,
                     gameStatus: 'IN_PROGRESS',
                     playersData: initialPlayersData,
-                    timeLeft: INITIAL_TIME_LIMIT_MULTIPLAYER,
-                    isTimerActive: true,
                 };
             });
             const startingPlayerName = gameState.playersData[data.startingPlayer]?.displayName || data.startingPlayer;
@@ -200,21 +295,37 @@ export default function MultiplayerPlayPage() {
             setGameState(prev => ({ 
                 ...prev, 
                 currentTurnPlayerId: data.nextPlayerId,
-                timeLeft: INITIAL_TIME_LIMIT_MULTIPLAYER, 
-                isTimerActive: prev.gameStatus === 'IN_PROGRESS' && !prev.winner, 
+                turnDeadline: data.turnDeadline ?? null,
+                clockOffsetMs: getClockOffset(data.serverTime),
+                isTimerActive: prev.gameStatus === 'IN_PROGRESS' && !!data.turnDeadline && !prev.winner, 
             }));
-            if (storedPlayerId && data.nextPlayerId) { 
+            if (data.nextPlayerId) { 
                  const nextPlayerDisplayName = gameState.playersData[data.nextPlayerId]?.displayName || data.nextPlayerId;
                  toast({description: `It's ${data.nextPlayerId === storedPlayerId ? 'Your' : nextPlayerDisplayName + "'s"} turn.${data.reason === 'timeout' ? ' (Opponent timed out)' : ''}`})
             }
         }
     });
 
-    newSocket.on('game-over', (data: { gameId: string; winner: string }) => {
+    newSocket.on('player-placed', (data: PlayerPlacedData) => {
+        if (data.gameId === gameId) {
+            console.log(`[MultiplayerPlay] Game ${gameId}: Player Placed event received`, data);
+            setGameState(prev => ({
+                ...prev,
+                placements: { ...prev.placements, [data.playerId]: data.placement },
+                remainingPlayerIds: prev.remainingPlayerIds.filter(pid => pid !== data.playerId),
+            }));
+            const isMe = data.playerId === storedPlayerId;
+            const placedName = isMe ? 'You' : (gameState.playersData[data.playerId]?.displayName || data.playerId);
+            const reasonText = data.reason === 'finished' ? 'cracked their target and finished' : (data.reason === 'cracked' ? 'had their code cracked and are out' : (data.reason === 'timeout' ? 'ran out of time and forfeit' : 'left the game'));
+            toast({ description: `${placedName} ${reasonText} (place #${data.placement}).` });
+        }
+    });
+
+    newSocket.on('game-over', (data: { gameId: string; winner: string; ranking?: string[] }) => {
         if (data.gameId === gameId) {
             console.log(`[MultiplayerPlay] Game ${gameId}: Game Over event received`, data);
-            setGameState(prev => ({ ...prev, gameStatus: 'GAME_OVER', winner: data.winner, isTimerActive: false }));
-            if (storedPlayerId && data.winner && data.winner !== 'none') { 
+            setGameState(prev => ({ ...prev, gameStatus: 'GAME_OVER', winner: data.winner, ranking: data.ranking || prev.ranking, isTimerActive: false }));
+            if (data.winner && data.winner !== 'none') { 
                 const winnerDisplayName = gameState.playersData[data.winner]?.displayName || data.winner;
                 toast({title: "Game Over!", description: `${data.winner === storedPlayerId ? 'You are' : winnerDisplayName + ' is'} the winner!`, duration: 5000});
             } else if (data.winner === 'none') {
@@ -223,9 +334,28 @@ export default function MultiplayerPlayPage() {
         }
     });
     
+    newSocket.on('rematch-start', (data: { gameId: string }) => {
+        if (data.gameId !== gameId) return;
+        console.log(`[MultiplayerPlay] Game ${gameId}: 'rematch-start' event received`);
+        if (isSpectator) {
+            // Spectators stay on this page and watch the next game once it starts
+            toast({ title: "Rematch!", description: "The players are setting new secrets." });
+            return;
+        }
+        // Keep the player's seat, but drop what belonged to the finished game
+        if (storedPlayerId) {
+            localStorage.removeItem(`mySecret_${gameId}_${storedPlayerId}`);
+            localStorage.removeItem(`profileRecorded_${gameId}_${storedPlayerId}`);
+        }
+        clearNotepads(gameId);
+        toast({ title: "Rematch!", description: "Everyone accepted. Set a new secret." });
+        router.push(`/multiplayer-secret-setup?gameId=${gameId}`);
+    });
+
     newSocket.on('error-event', (data: { message: string }) => {
         console.error(`[MultiplayerPlay] Game ${gameId}: Received 'error-event': ${data.message}`);
         toast({ title: "Error", description: data.message, variant: "destructive" });
+        setIsSubmittingGuess(false); // A rejected guess (e.g. in a hardcore room) must not lock the input
         if (data.message.includes("full") || data.message.includes("No available player slot") || data.message.includes("slot already active")) {
              router.push('/mode-select');
         }
@@ -247,19 +377,25 @@ export default function MultiplayerPlayPage() {
         newSocket.disconnect();
         setSocket(null);
     };
-  }, [gameId, router, toast, playerCountParam, username, gameState.myPlayerId]); 
+  }, [gameId, router, toast, playerCountParam, isSpectator, username, profileId, profileKey, gameState.myPlayerId]); 
 
   useEffect(() => {
-    let timerInterval: NodeJS.Timeout | undefined;
-    if (gameState.isTimerActive && gameState.timeLeft > 0 && gameState.gameStatus === 'IN_PROGRESS' && !gameState.winner) {
-      timerInterval = setInterval(() => {
-        setGameState(prev => ({ ...prev, timeLeft: Math.max(0, prev.timeLeft - 1) }));
-      }, 1000);
-    } else if (gameState.timeLeft === 0 && gameState.isTimerActive) {
-        setGameState(prev => ({...prev, isTimerActive: false})); 
+    // The countdown is derived from the server's deadline on every tick, so it cannot drift after reconnects or tab throttling
+    const turnDeadline = gameState.turnDeadline;
+    const clockOffsetMs = gameState.clockOffsetMs;
+    const turnSeconds = gameState.turnTimer.turnSeconds;
+    if (!gameState.isTimerActive || turnDeadline === null) {
+      setGameState(prev => (prev.timeLeft === turnSeconds ? prev : { ...prev, timeLeft: turnSeconds }));
+      return;
     }
+    const updateTimeLeft = () => {
+      const timeLeft = getSecondsLeft(turnDeadline, clockOffsetMs);
+      setGameState(prev => (prev.timeLeft === timeLeft ? prev : { ...prev, timeLeft }));
+    };
+    updateTimeLeft();
+    const timerInterval = setInterval(updateTimeLeft, 250);
     return () => clearInterval(timerInterval);
-  }, [gameState.isTimerActive, gameState.timeLeft, gameState.gameStatus, gameState.winner]);
+  }, [gameState.isTimerActive, gameState.turnDeadline, gameState.clockOffsetMs, gameState.turnTimer.turnSeconds]);
 
 
   const handleMakeGuess = (guessString: string) => {
@@ -269,38 +405,90 @@ export default function MultiplayerPlayPage() {
     }
     setIsSubmittingGuess(true);
     const guessArray = guessString.split('');
-    socket.emit('make-guess', { gameId, playerId: gameState.myPlayerId, guess: guessArray });
+    const targetPlayerId = gameState.targetMode === 'all' && selectedTargetId && gameState.remainingPlayerIds.includes(selectedTargetId)
+      ? selectedTargetId
+      : undefined;
+    socket.emit('make-guess', { gameId, playerId: gameState.myPlayerId, guess: guessArray, targetPlayerId });
   };
 
+  useEffect(() => {
+    const { gameStatus, winner, myPlayerId, playersData, inProgressSince } = gameState;
+    if (gameStatus !== 'GAME_OVER' || !winner || !myPlayerId || !gameId) return;
+    // Count each game once, even if the game-over state arrives again after a reload
+    const recordedKey = `profileRecorded_${gameId}_${myPlayerId}`;
+    if (localStorage.getItem(recordedKey)) return;
+    localStorage.setItem(recordedKey, 'true');
+    recordGameResult({
+      mode: 'multiplayer',
+      won: winner === myPlayerId,
+      guessCount: (playersData[myPlayerId]?.guessesMade || []).length,
+      durationMs: inProgressSince ? Date.now() - Date.parse(inProgressSince) : undefined,
+      hintsUsed: playersData[myPlayerId]?.hintsUsed,
+    });
+  }, [gameState, gameId, recordGameResult]);
+
   const handleExitGame = () => {
+    if (isSpectator) {
+      if(socket) socket.disconnect();
+      router.push('/mode-select');
+      return;
+    }
     if(socket && gameId && gameState.myPlayerId) {
         socket.emit('player-exit', { gameId, playerId: gameState.myPlayerId });
     }
-    localStorage.removeItem('myPlayerId_activeGame');
+    if (gameId) {
+      clearGameSession(gameId);
+      clearNotepads(gameId);
+    }
     if (gameState.myPlayerId && gameId) {
       localStorage.removeItem(`mySecret_${gameId}_${gameState.myPlayerId}`);
-      localStorage.removeItem(`activeGameId_${gameState.myPlayerId}`);
+      localStorage.removeItem(`profileRecorded_${gameId}_${gameState.myPlayerId}`);
     }
     if(socket) socket.disconnect();
     router.push('/mode-select');
   };
   
+  // The hint is only shown once the server has counted it; a rejected hint arrives as an 'error-event'
+  const handleUseHint = () => new Promise<boolean>(resolve => {
+    if (!socket || !gameId || !gameState.myPlayerId) {
+      resolve(false);
+      return;
+    }
+    socket.timeout(HINT_ACK_TIMEOUT_MS).emit('use-hint', { gameId }, (err: Error | null, response?: UseHintAck) => {
+      if (err) console.warn(`[MultiplayerPlay] Game ${gameId}: The server did not confirm the hint in time.`);
+      resolve(!err && !!response);
+    });
+  });
+
+  const handleRematch = () => {
+    if (!socket || !gameId || !gameState.myPlayerId) return;
+    socket.emit('request-rematch', { gameId });
+  };
+
   const handlePlayAgain = () => {
-    localStorage.removeItem('myPlayerId_activeGame');
+    if (isSpectator) {
+      if(socket) socket.disconnect();
+      router.push('/multiplayer-setup');
+      return;
+    }
+    if (gameId) {
+      clearGameSession(gameId);
+      clearNotepads(gameId);
+    }
     if (gameState.myPlayerId && gameId) {
       localStorage.removeItem(`mySecret_${gameId}_${gameState.myPlayerId}`);
-      localStorage.removeItem(`activeGameId_${gameState.myPlayerId}`);
+      localStorage.removeItem(`profileRecorded_${gameId}_${gameState.myPlayerId}`);
     }
     if(socket) socket.disconnect();
     router.push('/multiplayer-setup'); 
   }
 
-  if (gameState.gameStatus === 'LOADING' || !gameState.myPlayerId || !socket?.connected) {
+  if (gameState.gameStatus === 'LOADING' || (!gameState.myPlayerId && !isSpectator) || !socket?.connected) {
     return (
       <div className="flex flex-col items-center justify-center min-h-[calc(100vh-200px)]">
         <Loader2 className="h-12 w-12 animate-spin text-primary" />
         <p className="mt-4 text-lg">
-          {gameState.myPlayerId ? "Connecting to game server..." : "Loading player data..."}
+          {gameState.myPlayerId || isSpectator ? "Connecting to game server..." : "Loading player data..."}
         </p>
         <p className="text-sm text-muted-foreground">Game ID: {gameId}</p>
       </div>
@@ -308,8 +496,15 @@ export default function MultiplayerPlayPage() {
   }
   
   const expectedPlayerCount = playerCountParam === "duo" ? 2 : (playerCountParam === "trio" ? 3 : (playerCountParam === "quads" ? 4 : 0));
-  const activePlayersInRoom = Object.values(gameState.playersData).filter(p => p.socketId).length;
+  const activePlayersInRoom = Object.values(gameState.playersData).filter(p => p.isConnected).length;
   const myCurrentPlayerName = (gameState.myPlayerId && gameState.playersData[gameState.myPlayerId]?.displayName) || username || gameState.myPlayerId;
+  const spectatorNote = gameState.spectatorCount > 0
+    ? `${gameState.spectatorCount} ${gameState.spectatorCount === 1 ? 'spectator' : 'spectators'} watching`
+    : null;
+  const seriesPlayers: SeriesPlayer[] = gameState.turnOrder.map(pid => ({
+    id: pid,
+    name: pid === gameState.myPlayerId ? 'You' : (gameState.playersData[pid]?.displayName || pid),
+  }));
   
   if (gameState.gameStatus === 'WAITING_FOR_GAME_START' && 
       (!gameState.targetMap || activePlayersInRoom < expectedPlayerCount )) {
@@ -319,7 +514,11 @@ export default function MultiplayerPlayPage() {
         <Hourglass className="h-12 w-12 animate-spin text-primary" />
         <p className="mt-4 text-lg">Waiting for all players and game to start...</p>
         <p className="text-sm text-muted-foreground">Game ID: {gameId}</p>
-         <p className="text-xs">My Name: {myCurrentPlayerName}, Players in room: {activePlayersInRoom}/{expectedPlayerCount}</p>
+        {isSpectator ? (
+          <p className="text-xs">Watching as a spectator, Players in room: {activePlayersInRoom}/{expectedPlayerCount}</p>
+        ) : (
+          <p className="text-xs">My Name: {myCurrentPlayerName}, Players in room: {activePlayersInRoom}/{expectedPlayerCount}</p>
+        )}
       </div>
     );
   }
@@ -327,6 +526,17 @@ export default function MultiplayerPlayPage() {
   if (gameState.gameStatus === 'GAME_OVER' && gameState.winner) {
     const winnerDisplayName = (gameState.winner !== 'none' && gameState.playersData[gameState.winner]?.displayName) || gameState.winner;
     const isMyWin = gameState.winner === gameState.myPlayerId;
+    // A rematch needs every player of the game that was actually played to still be in the room
+    const rematchPlayerIds = gameState.inProgressSince ? gameState.turnOrder : [];
+    const playersWhoLeft = rematchPlayerIds.filter(pid => !gameState.playersData[pid]?.isConnected);
+    const haveIAcceptedRematch = !!gameState.myPlayerId && gameState.rematchVotes.includes(gameState.myPlayerId);
+    const isSeries = gameState.bestOf > 1;
+    const seriesWinnerName = gameState.seriesWinner
+      ? (gameState.seriesWinner === gameState.myPlayerId ? 'You' : (gameState.playersData[gameState.seriesWinner]?.displayName || gameState.seriesWinner))
+      : null;
+    let rematchLabel = 'Rematch';
+    if (isSeries) rematchLabel = gameState.seriesWinner ? 'New Series' : `Next Game (#${gameState.seriesGames.length + 1})`;
+    const seriesEntries = isSeries || Object.keys(gameState.seriesScore).length === 0 ? [] : gameState.turnOrder.map(pid => `${pid === gameState.myPlayerId ? 'You' : (gameState.playersData[pid]?.displayName || pid)} ${gameState.seriesScore[pid] || 0}`);
     return (
       <Card className="w-full max-w-md mx-auto text-center shadow-xl mt-10">
         <CardHeader>
@@ -341,18 +551,81 @@ export default function MultiplayerPlayPage() {
           )}
         </CardHeader>
         <CardContent className="space-y-4">
-          <Button onClick={handlePlayAgain} className="w-full" size="lg">Play Again</Button>
-          <Button onClick={handleExitGame} className="w-full" size="lg" variant="outline">Exit Game</Button>
+          {gameState.ranking && gameState.ranking.length > 2 && (
+            <ol className="space-y-1 text-left">
+              {gameState.ranking.map((pid, index) => (
+                <li key={pid} className={`flex justify-between rounded-md px-3 py-2 ${pid === gameState.myPlayerId ? 'bg-primary/10 font-semibold' : 'bg-muted/30'}`}>
+                  <span>#{index + 1} {gameState.playersData[pid]?.displayName || pid}{pid === gameState.myPlayerId ? ' (You)' : ''}</span>
+                  <span className="text-muted-foreground">{(gameState.playersData[pid]?.guessesMade || []).length} guesses</span>
+                </li>
+              ))}
+            </ol>
+          )}
+          {isSpectator && (
+            <ul className="space-y-1 text-left text-sm">
+              {gameState.turnOrder.map(pid => (
+                <li key={pid} className="flex justify-between rounded-md bg-muted/30 px-3 py-2">
+                  <span>{gameState.playersData[pid]?.displayName || pid}&apos;s secret</span>
+                  <span className="font-mono text-primary">{gameState.playersData[pid]?.secret?.join('') || '-'}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+          {isSeries && (
+            <div className="space-y-2 rounded-md border p-3">
+              <p className="font-semibold">
+                {seriesWinnerName
+                  ? `${seriesWinnerName} ${seriesWinnerName === 'You' ? 'win' : 'wins'} the series!`
+                  : `${describeSeries(gameState.bestOf)} · after game ${gameState.seriesGames.length}`}
+              </p>
+              <SeriesScoreboard bestOf={gameState.bestOf} players={seriesPlayers} seriesScore={gameState.seriesScore} seriesGames={gameState.seriesGames} showGames />
+            </div>
+          )}
+          {seriesEntries.length > 0 && (
+            <p className="text-sm text-muted-foreground">Series: {seriesEntries.join(' · ')}</p>
+          )}
+          {!isSpectator && rematchPlayerIds.length > 0 && (
+            playersWhoLeft.length > 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No rematch: {playersWhoLeft.map(pid => gameState.playersData[pid]?.displayName || pid).join(', ')} left the room.
+              </p>
+            ) : (
+              <Button onClick={handleRematch} className="w-full" size="lg" disabled={haveIAcceptedRematch}>
+                <RotateCcw className="mr-2 h-5 w-5" />
+                {haveIAcceptedRematch
+                  ? `Waiting for ${rematchLabel} (${gameState.rematchVotes.length}/${rematchPlayerIds.length})`
+                  : (gameState.rematchVotes.length > 0 ? `Accept ${rematchLabel} (${gameState.rematchVotes.length}/${rematchPlayerIds.length})` : rematchLabel)}
+              </Button>
+            )
+          )}
+          {gameId && gameState.inProgressSince && (
+            <Button onClick={() => router.push(`/replay/${getRoomReplayId(gameId, gameState.inProgressSince!)}`)} className="w-full" variant="outline">
+              <Film className="mr-2 h-5 w-5" /> Watch Replay
+            </Button>
+          )}
+          <Button onClick={handlePlayAgain} className="w-full" size="lg" variant={!isSpectator && rematchPlayerIds.length > 0 && playersWhoLeft.length === 0 ? 'outline' : 'default'}>{isSpectator ? 'Play a Game' : 'Play Again'}</Button>
+          <Button onClick={handleExitGame} className="w-full" size="lg" variant="outline">{isSpectator ? 'Stop Watching' : 'Exit Game'}</Button>
         </CardContent>
       </Card>
     );
   }
   
-  const opponentId = gameState.myPlayerId && gameState.targetMap ? gameState.targetMap[gameState.myPlayerId] : null;
+  const amStillPlaying = !!gameState.myPlayerId && (gameState.remainingPlayerIds.length === 0 || gameState.remainingPlayerIds.includes(gameState.myPlayerId));
+  const defaultTargetId = gameState.myPlayerId && gameState.targetMap ? gameState.targetMap[gameState.myPlayerId] : null;
+  const opponentId = !amStillPlaying ? null : (
+    gameState.targetMode === 'all' && selectedTargetId && selectedTargetId !== gameState.myPlayerId && gameState.remainingPlayerIds.includes(selectedTargetId)
+      ? selectedTargetId
+      : defaultTargetId
+  );
   const myPlayerData = gameState.myPlayerId ? gameState.playersData[gameState.myPlayerId] : null;
-  const opponentPlayerData = opponentId ? gameState.playersData[opponentId] : null;
+  const otherPlayerIds = gameState.turnOrder.length > 0
+    ? gameState.turnOrder.filter(pid => pid !== gameState.myPlayerId)
+    : (opponentId ? [opponentId] : []);
+  const selectableTargetIds = gameState.targetMode === 'all' && amStillPlaying
+    ? gameState.remainingPlayerIds.filter(pid => pid !== gameState.myPlayerId)
+    : [];
 
-  if (gameState.gameStatus === 'IN_PROGRESS' && (!myPlayerData || !opponentId || !gameState.currentTurnPlayerId)) {
+  if (gameState.gameStatus === 'IN_PROGRESS' && ((!myPlayerData && !isSpectator) || (amStillPlaying && !opponentId) || !gameState.currentTurnPlayerId)) {
      console.log(`[MultiplayerPlay] IN_PROGRESS but missing some data. myPlayerData: ${!!myPlayerData}, opponentId: ${opponentId}, currentTurn: ${gameState.currentTurnPlayerId}`);
      return (
       <div className="flex flex-col items-center justify-center min-h-[calc(100vh-200px)]">
@@ -364,28 +637,90 @@ export default function MultiplayerPlayPage() {
   }
 
   const turnPlayerDisplayName = gameState.currentTurnPlayerId ? (gameState.playersData[gameState.currentTurnPlayerId]?.displayName || gameState.currentTurnPlayerId) : "Someone";
+  // The server pauses the turn of a player who lost their connection until they rejoin or the grace window ends
+  const isTurnPaused = gameState.gameStatus === 'IN_PROGRESS' && !!gameState.currentTurnPlayerId && gameState.playersData[gameState.currentTurnPlayerId]?.isConnected === false;
+  const isChessClock = gameState.turnTimer.clockMode === 'chess';
+  // The running clock counts down to the server deadline; the others show what their players have left
+  const chessClocks: ChessClock[] = gameState.turnOrder
+    .filter(pid => gameState.remainingPlayerIds.includes(pid))
+    .map(pid => {
+      const isRunning = gameState.isTimerActive && pid === gameState.currentTurnPlayerId;
+      return {
+        id: pid,
+        name: pid === gameState.myPlayerId ? 'You' : (gameState.playersData[pid]?.displayName || pid),
+        remainingMs: isRunning ? gameState.timeLeft * 1000 : (gameState.playersData[pid]?.timeBankMs ?? getInitialTimeBankMs(gameState.turnTimer)),
+        isRunning,
+      };
+    });
 
   return (
     <div className="relative"> {/* Outer relative container for button positioning */}
-       <Button onClick={handleExitGame} variant="outline" className="absolute top-0 right-0 z-20">
-         <LogOut className="mr-2 h-4 w-4" /> Exit Game
-       </Button>
+       <div className="absolute top-0 right-0 z-20 flex gap-2">
+         <HowToPlayDialog feedbackMode={gameState.feedbackMode} />
+         <Button onClick={handleExitGame} variant="outline">
+           <LogOut className="mr-2 h-4 w-4" /> {isSpectator ? 'Stop Watching' : 'Exit Game'}
+         </Button>
+       </div>
        {/* Main content flow with padding-top to avoid button on mobile */}
        <div className="space-y-6 pt-14 md:pt-0">
          <div className={`text-center py-3 mb-4 rounded-lg bg-card shadow-md flex flex-col items-center ${gameState.currentTurnPlayerId === gameState.myPlayerId ? 'border-2 border-primary ring-2 ring-primary/50' : 'border border-border'}`}>
+          {isSpectator && (
+              <p className="mb-1 flex items-center text-sm text-muted-foreground">
+                <Eye className="mr-1 h-4 w-4" /> Spectating · Secrets are revealed when the game is over
+              </p>
+          )}
           {gameState.currentTurnPlayerId && (
               <TurnIndicator 
                 currentPlayerName={turnPlayerDisplayName} 
                 isPlayerTurn={gameState.currentTurnPlayerId === gameState.myPlayerId} 
               />
           )}
-          {gameState.gameStatus === 'IN_PROGRESS' && !gameState.winner && (
-               <TimerDisplay timeLeft={gameState.timeLeft} isTimerActive={gameState.isTimerActive && gameState.currentTurnPlayerId === gameState.myPlayerId} />
+          {isTurnPaused && (
+              <p className="mt-1 flex items-center text-sm text-muted-foreground">
+                <WifiOff className="mr-1 h-4 w-4" /> Turn paused: waiting for {turnPlayerDisplayName} to reconnect (forfeits after {RECONNECT_GRACE_MS / 1000}s)
+              </p>
+          )}
+          {gameState.gameStatus === 'IN_PROGRESS' && !gameState.winner && (isChessClock || gameState.turnTimer.turnSeconds > 0) && (<>
+               {isChessClock ? (
+                 <ChessClockDisplay clocks={chessClocks} />
+               ) : (
+                 <TimerDisplay timeLeft={gameState.timeLeft} isTimerActive={gameState.isTimerActive && (isSpectator || gameState.currentTurnPlayerId === gameState.myPlayerId)} />
+               )}
+               <p className="mt-1 text-xs text-muted-foreground">
+                 {describeTurnTimer(gameState.turnTimer)}
+                 {isChessClock ? ' · Running out of time loses' : ` · On timeout: ${TIMEOUT_POLICY_LABELS[gameState.turnTimer.timeoutPolicy].toLowerCase()}`}
+               </p>
+          </>)}
+          {gameState.bestOf > 1 && (
+               <div className="mt-2 w-full max-w-md">
+                 <SeriesScoreboard bestOf={gameState.bestOf} players={seriesPlayers} seriesScore={gameState.seriesScore} seriesGames={gameState.seriesGames} />
+                 <p className="text-xs text-muted-foreground">Game {gameState.seriesGames.length + 1}</p>
+               </div>
           )}
+          {spectatorNote && <p className="mt-1 text-xs text-muted-foreground">{spectatorNote}</p>}
         </div>
 
         <div className="flex flex-col md:flex-row gap-4 sm:gap-6">
           {myPlayerData && gameState.myPlayerId && (
+            <div className="flex-1 w-full space-y-3">
+            {!amStillPlaying && gameState.placements[gameState.myPlayerId] && (
+              <p className="text-center text-sm text-muted-foreground">You are out of the running game in place #{gameState.placements[gameState.myPlayerId]}. Watching the rest play on.</p>
+            )}
+            {selectableTargetIds.length > 1 && (
+              <div className="flex flex-wrap items-center justify-center gap-2">
+                <span className="text-sm text-muted-foreground">Guessing:</span>
+                {selectableTargetIds.map(pid => (
+                  <Button
+                    key={pid}
+                    size="sm"
+                    variant={pid === opponentId ? 'default' : 'outline'}
+                    onClick={() => setSelectedTargetId(pid)}
+                  >
+                    {gameState.playersData[pid]?.displayName || pid}
+                  </Button>
+                ))}
+              </div>
+            )}
             <PlayerPanel
               playerName={`${myPlayerData.displayName || username || gameState.myPlayerId} (You)`}
               isCurrentPlayer={true}
@@ -394,25 +729,51 @@ export default function MultiplayerPlayPage() {
               onMakeGuess={handleMakeGuess}
               isSubmitting={isSubmittingGuess && gameState.currentTurnPlayerId === gameState.myPlayerId}
               secretForDisplay={gameState.mySecret} 
+              codeRules={gameState.codeRules}
+              notepadKey={gameId && opponentId ? getNotepadStorageKey(gameId, `${gameState.myPlayerId}-${opponentId}`) : undefined}
+              targetGuesses={opponentId ? gameState.playersData[opponentId]?.guessesAgainst : undefined}
+              rejectContradictions={gameState.hardcore}
             />
+            {gameState.hintsAllowed && amStillPlaying && opponentId && (
+              <HintPanel
+                guesses={gameState.playersData[opponentId]?.guessesAgainst || []}
+                codeRules={gameState.codeRules}
+                feedbackMode={gameState.feedbackMode}
+                hintsUsed={myPlayerData.hintsUsed || 0}
+                onUseHint={handleUseHint}
+                disabled={gameState.currentTurnPlayerId !== gameState.myPlayerId || isSubmittingGuess}
+              />
+            )}
+            </div>
           )}
-          {opponentPlayerData && opponentId && ( 
-            <PlayerPanel
-              playerName={opponentPlayerData.displayName || opponentId}
-              isCurrentPlayer={false}
-              isPlayerTurn={gameState.currentTurnPlayerId === opponentId}
-              guesses={opponentPlayerData.guessesMade || []} 
-              onMakeGuess={() => {}} 
-              isSubmitting={false} 
-              secretForDisplay={undefined} 
-            />
-          )}
-          {!opponentPlayerData && opponentId && gameState.gameStatus === 'IN_PROGRESS' && (
-               <Card className="flex-1 w-full shadow-lg border-border">
-                  <CardHeader><CardTitle>{(gameState.playersData[opponentId]?.displayName || opponentId) + (gameState.playersData[opponentId]?.socketId ? '' : ' (Disconnected)')}</CardTitle></CardHeader>
-                  <CardContent><p className="text-muted-foreground text-center py-8">Opponent {(gameState.playersData[opponentId]?.socketId ? 'data unavailable' : 'has disconnected')}.</p></CardContent>
-               </Card>
-          )}
+          {otherPlayerIds.map(pid => {
+            const otherPlayerData = gameState.playersData[pid];
+            if (!otherPlayerData) {
+              return gameState.gameStatus === 'IN_PROGRESS' ? (
+                <Card key={pid} className="flex-1 w-full shadow-lg border-border">
+                  <CardHeader><CardTitle>{pid} (Disconnected)</CardTitle></CardHeader>
+                  <CardContent><p className="text-muted-foreground text-center py-8">Opponent has disconnected.</p></CardContent>
+                </Card>
+              ) : null;
+            }
+            const placement = gameState.placements[pid];
+            const nameSuffix = placement
+              ? ` (Out, #${placement})`
+              : (pid === opponentId && otherPlayerIds.length > 1 ? ' (Your Target)' : '');
+            return (
+              <PlayerPanel
+                key={pid}
+                playerName={`${otherPlayerData.displayName || pid}${nameSuffix}${otherPlayerData.isConnected ? '' : ' (Disconnected)'}`}
+                isCurrentPlayer={false}
+                isPlayerTurn={gameState.currentTurnPlayerId === pid}
+                guesses={otherPlayerData.guessesMade || []} 
+                onMakeGuess={() => {}} 
+                isSubmitting={false} 
+                secretForDisplay={undefined} 
+                codeRules={gameState.codeRules}
+              />
+            );
+          })}
         </div>
       </div>
     </div>
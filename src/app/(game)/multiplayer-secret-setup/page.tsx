@@ -5,74 +5,132 @@ import { useSearchParams, useRouter } from 'next/navigation';
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import DigitInput from '@/components/game/DigitInput';
-import { CODE_LENGTH, isValidDigitSequence } from '@/lib/gameLogic';
+import { DEFAULT_FEEDBACK_MODE, FEEDBACK_MODE_LABELS, describeCodeRules, isValidCode, normalizeCodeRules, normalizeRoomCode } from '@/lib/gameLogic';
+import { PLAYER_COUNT_PARAMS } from '@/lib/lobby';
+import { clearGameSession, loadGameSession, saveGameSession } from '@/lib/gameSession';
+import { describeSeries, normalizeBestOf } from '@/lib/series';
+import { describeTurnTimer, normalizeTurnTimerSettings } from '@/lib/turnClock';
 import { useToast } from '@/hooks/use-toast';
-import { LockKeyhole, Users, Loader2, UserCheck, Hourglass, Play, ShieldCheck, ShieldAlert } from 'lucide-react';
+import { LockKeyhole, Users, Loader2, UserCheck, Hourglass, Play, ShieldCheck, ShieldAlert, Copy, Link as LinkIcon } from 'lucide-react';
 import type { Socket as ClientSocket } from 'socket.io-client';
 import { io } from 'socket.io-client';
-import type { GameRoom, PlayerData as ServerPlayerData, MultiplayerGameStatus } from '@/types/game';
+import type { GameRoomView, JoinGameAck, MultiplayerGameStatus } from '@/types/game';
 import { useAuth } from '@/contexts/AuthContext'; // Import useAuth
 
 export default function MultiplayerSecretSetupPage() {
   const router = useRouter();
   const searchParams = useSearchParams();
   const { toast } = useToast();
-  const { username } = useAuth(); // Get username
+  const { username, profile, profileKey } = useAuth(); // Get username
+  const profileId = profile?.profileId;
 
-  const gameId = searchParams ? searchParams.get('gameId') : null;
+  const gameIdParam = searchParams ? searchParams.get('gameId') : null;
   const playerCountParam = searchParams ? searchParams.get('playerCount') : null;
   const isHostParam = searchParams ? searchParams.get('isHost') === 'true' : false;
+  const targetModeParam = searchParams ? searchParams.get('targetMode') : null;
+  const crackRuleParam = searchParams ? searchParams.get('crackRule') : null;
+  const feedbackModeParam = searchParams ? searchParams.get('feedbackMode') : null;
+  const codeLengthParam = searchParams ? searchParams.get('codeLength') : null;
+  const alphabetParam = searchParams ? searchParams.get('alphabet') : null;
+  const turnSecondsParam = searchParams ? searchParams.get('turnSeconds') : null;
+  const timeoutPolicyParam = searchParams ? searchParams.get('timeoutPolicy') : null;
+  const maxTimeoutsParam = searchParams ? searchParams.get('maxTimeouts') : null;
+  const bankSecondsParam = searchParams ? searchParams.get('bankSeconds') : null;
+  const clockModeParam = searchParams ? searchParams.get('clockMode') : null;
+  const budgetSecondsParam = searchParams ? searchParams.get('budgetSeconds') : null;
+  const incrementSecondsParam = searchParams ? searchParams.get('incrementSeconds') : null;
+  const isPublicParam = searchParams ? searchParams.get('isPublic') === 'true' : false;
+  const bestOfParam = searchParams ? searchParams.get('bestOf') : null;
+  const hintsAllowedParam = searchParams ? searchParams.get('hints') === 'true' : false;
+  const hardcoreParam = searchParams ? searchParams.get('hardcore') === 'true' : false;
   
+  // A host creating a room has no code yet: the server allocates one and acknowledges the join with it
+  const [gameId, setGameId] = useState<string | null>(gameIdParam ? normalizeRoomCode(gameIdParam) : null);
+  const gameIdRef = useRef<string | null>(gameId);
+  const playerCountRef = useRef<string | null>(playerCountParam);
   const [myPlayerId, setMyPlayerId] = useState<string | null>(null);
-  const [currentDigits, setCurrentDigits] = useState<string[]>(Array(CODE_LENGTH).fill(''));
+  const [currentDigits, setCurrentDigits] = useState<string[]>([]);
   const [isSubmittingSecret, setIsSubmittingSecret] = useState(false);
   const socketRef = useRef<ClientSocket | null>(null); 
-  const [gameRoomState, setGameRoomState] = useState<GameRoom | null>(null);
+  const [gameRoomState, setGameRoomState] = useState<GameRoomView | null>(null);
   const [connectionStatus, setConnectionStatus] = useState<"connecting" | "connected" | "failed" | "room_full" | "error">("connecting");
 
-  const expectedPlayerCount = playerCountParam === "duo" ? 2 : playerCountParam === "trio" ? 3 : 4;
+  const expectedPlayerCount = gameRoomState?.playerCount || (playerCountParam === "duo" ? 2 : playerCountParam === "trio" ? 3 : 4);
+  const hasValidParams = isHostParam ? !!playerCountParam : !!gameIdParam;
+  const codeRules = normalizeCodeRules(gameRoomState?.codeRules);
 
+  // The room's code rules are only known once the server sends the room, so size the input then
   useEffect(() => {
-    if (!gameId || !playerCountParam) {
-        toast({title: "Error", description: "Missing game ID or player count.", variant: "destructive"});
+    setCurrentDigits(Array(codeRules.length).fill(''));
+  }, [codeRules.length, codeRules.alphabet]);
+
+  useEffect(() => {
+    if (!hasValidParams) {
+        toast({title: "Error", description: "Missing room code or player count.", variant: "destructive"});
         router.push('/mode-select');
         return;
     }
 
     if (socketRef.current) return; 
 
-    console.log(`[MultiplayerSecretSetup] Game ${gameId}: Initializing socket. IsHost: ${isHostParam}, Username: ${username}`);
+    console.log(`[MultiplayerSecretSetup] Game ${gameIdRef.current}: Initializing socket. IsHost: ${isHostParam}, Username: ${username}`);
 
     const newSocket = io({ path: '/api/socketio_c', addTrailingSlash: false, transports: ['websocket'] }); 
     socketRef.current = newSocket;
-    console.log(`[MultiplayerSecretSetup] Game ${gameId}: New socket instance created with provisional ID: ${newSocket.id}.`);
+    console.log(`[MultiplayerSecretSetup] Game ${gameIdRef.current}: New socket instance created with provisional ID: ${newSocket.id}.`);
 
     newSocket.on('connect', () => {
-      console.log(`[MultiplayerSecretSetup] Game ${gameId}: Socket connected: ${newSocket.id}. Emitting 'join-game'.`);
+      console.log(`[MultiplayerSecretSetup] Game ${gameIdRef.current}: Socket connected: ${newSocket.id}. Emitting 'join-game'.`);
       setConnectionStatus("connected");
       
-      const rejoiningPlayerIdFromStorage = localStorage.getItem('myPlayerId_activeGame');
-      const gameIdForRejoiningPlayer = rejoiningPlayerIdFromStorage ? localStorage.getItem(`activeGameId_${rejoiningPlayerIdFromStorage}`) : null;
-      const validRejoiningId = (rejoiningPlayerIdFromStorage && gameIdForRejoiningPlayer === gameId) ? rejoiningPlayerIdFromStorage : undefined;
+      // Reloads and reconnects get the same seat back with the token the server issued for it
+      const session = gameIdRef.current ? loadGameSession(gameIdRef.current) : null;
       
-      console.log(`[MultiplayerSecretSetup] Emitting join-game. GameID: ${gameId}, PlayerCount: ${playerCountParam}, IsHost: ${isHostParam}, RejoiningAs: ${validRejoiningId || 'N/A'}, Username: ${username}`);
+      console.log(`[MultiplayerSecretSetup] Emitting join-game. GameID: ${gameIdRef.current}, PlayerCount: ${playerCountParam || 'from room'}, IsHost: ${isHostParam}, RejoiningAs: ${session?.playerId || 'N/A'}, Username: ${username}`);
       newSocket.emit('join-game', { 
-        gameId, 
+        gameId: gameIdRef.current || undefined, 
         playerCount: playerCountParam, 
         isHost: isHostParam, 
-        rejoiningPlayerId: validRejoiningId,
-        username: username || undefined // Send username
+        reconnectToken: session?.reconnectToken,
+        username: username || undefined, // Send username
+        profileId,
+        profileKey: profileKey || undefined,
+        targetMode: targetModeParam || undefined,
+        crackRule: crackRuleParam || undefined,
+        feedbackMode: feedbackModeParam || undefined,
+        codeRules: codeLengthParam ? { length: Number(codeLengthParam), alphabet: alphabetParam || undefined } : undefined,
+        turnTimer: turnSecondsParam ? {
+          clockMode: clockModeParam || undefined,
+          turnSeconds: Number(turnSecondsParam),
+          timeoutPolicy: timeoutPolicyParam || undefined,
+          maxTimeouts: Number(maxTimeoutsParam),
+          bankSeconds: Number(bankSecondsParam),
+          budgetSeconds: Number(budgetSecondsParam),
+          incrementSeconds: Number(incrementSecondsParam),
+        } : undefined,
+        isPublic: isPublicParam,
+        bestOf: bestOfParam ? Number(bestOfParam) : undefined,
+        hintsAllowed: hintsAllowedParam,
+        hardcore: hardcoreParam,
+      }, (ack: JoinGameAck) => {
+        if (gameIdRef.current === ack.gameId) return;
+        console.log(`[MultiplayerSecretSetup] Server allocated room code ${ack.gameId}.`);
+        gameIdRef.current = ack.gameId;
+        setGameId(ack.gameId);
+        // Put the code in the URL so a reload rejoins this room instead of creating another one
+        const params = new URLSearchParams(window.location.search);
+        params.set('gameId', ack.gameId);
+        router.replace(`/multiplayer-secret-setup?${params.toString()}`);
       });
     });
 
-    newSocket.on('player-assigned', (data: { playerId: string; gameId: string }) => {
-      if (data.gameId === gameId) {
-        console.log(`[MultiplayerSecretSetup] Game ${gameId}: Received 'player-assigned'. Server assigned PlayerID: ${data.playerId}. Storing to localStorage.`);
+    newSocket.on('player-assigned', (data: JoinGameAck) => {
+      if (data.gameId === gameIdRef.current) {
+        console.log(`[MultiplayerSecretSetup] Game ${gameIdRef.current}: Received 'player-assigned'. Server assigned PlayerID: ${data.playerId}. Storing session.`);
         setMyPlayerId(data.playerId); 
-        localStorage.setItem('myPlayerId_activeGame', data.playerId); 
-        localStorage.setItem(`activeGameId_${data.playerId}`, gameId); 
+        saveGameSession(data.gameId, { playerId: data.playerId, reconnectToken: data.reconnectToken });
         
-        const storedSecret = localStorage.getItem(`mySecret_${gameId}_${data.playerId}`);
+        const storedSecret = localStorage.getItem(`mySecret_${gameIdRef.current}_${data.playerId}`);
         if(storedSecret) {
             console.log(`[MultiplayerSecretSetup] Found stored secret for ${data.playerId}, applying.`);
             setCurrentDigits(JSON.parse(storedSecret));
@@ -81,21 +139,22 @@ export default function MultiplayerSecretSetupPage() {
       }
     });
     
-    newSocket.on('game-state-update', (serverGameState: GameRoom) => { 
-        if (serverGameState.gameId === gameId) {
-            console.log(`[MultiplayerSecretSetup] Game ${gameId}: Received 'game-state-update':`, JSON.stringify(serverGameState, null, 2));
+    newSocket.on('game-state-update', (serverGameState: GameRoomView) => { 
+        if (serverGameState.gameId === gameIdRef.current) {
+            console.log(`[MultiplayerSecretSetup] Game ${gameIdRef.current}: Received 'game-state-update':`, JSON.stringify(serverGameState, null, 2));
             setGameRoomState(serverGameState);
+            playerCountRef.current = PLAYER_COUNT_PARAMS[serverGameState.playerCount] || playerCountRef.current;
             setIsSubmittingSecret(false); // Reset submitting state on any game state update
 
             if(myPlayerId && serverGameState.players && serverGameState.players[myPlayerId] && serverGameState.players[myPlayerId]?.displayName !== username) {
                 // This might be too noisy if server display name logic is robust
-                // toast({ title: `You are ${serverGameState.players[myPlayerId]?.displayName || myPlayerId}`, description: `Joined game: ${gameId}` });
+                // toast({ title: `You are ${serverGameState.players[myPlayerId]?.displayName || myPlayerId}`, description: `Joined game: ${gameIdRef.current}` });
             }
 
             if(serverGameState.status === 'IN_PROGRESS' || serverGameState.status === 'GAME_OVER') {
-                console.log(`[MultiplayerSecretSetup] Game ${gameId}: Status is ${serverGameState.status}, navigating to play page or mode select.`);
+                console.log(`[MultiplayerSecretSetup] Game ${gameIdRef.current}: Status is ${serverGameState.status}, navigating to play page or mode select.`);
                 if (serverGameState.status === 'IN_PROGRESS') {
-                    router.push(`/multiplayer-play?gameId=${gameId}&playerCount=${playerCountParam}`);
+                    router.push(`/multiplayer-play?gameId=${gameIdRef.current}&playerCount=${playerCountRef.current}`);
                 } else if (serverGameState.status === 'GAME_OVER') {
                     toast({title: "Game Over", description: "This game has concluded or was exited.", variant: "destructive"});
                     handleBackToModeSelect(false); // Don't emit player-exit if already game over
@@ -105,46 +164,45 @@ export default function MultiplayerSecretSetupPage() {
     });
 
     newSocket.on('game-start', (data: { gameId: string; startingPlayer: string; targetMap: any }) => {
-      if (data.gameId === gameId) {
-        console.log(`[MultiplayerSecretSetup] Game ${gameId}: Received 'game-start'. Starting player: ${data.startingPlayer}. Navigating to play page.`);
+      if (data.gameId === gameIdRef.current) {
+        console.log(`[MultiplayerSecretSetup] Game ${gameIdRef.current}: Received 'game-start'. Starting player: ${data.startingPlayer}. Navigating to play page.`);
         const startingPlayerName = gameRoomState?.players[data.startingPlayer]?.displayName || data.startingPlayer;
         toast({ title: "Game Starting!", description: `${startingPlayerName} will go first.` });
-        router.push(`/multiplayer-play?gameId=${gameId}&playerCount=${playerCountParam}`);
+        router.push(`/multiplayer-play?gameId=${gameIdRef.current}&playerCount=${playerCountRef.current}`);
       }
     });
     
     newSocket.on('error-event', (data: { message: string }) => {
-        console.error(`[MultiplayerSecretSetup] Game ${gameId}: Received 'error-event': ${data.message}`);
+        console.error(`[MultiplayerSecretSetup] Game ${gameIdRef.current}: Received 'error-event': ${data.message}`);
         toast({ title: "Error", description: data.message, variant: "destructive" });
         if (data.message.toLowerCase().includes("full") || data.message.toLowerCase().includes("slot already active") || data.message.toLowerCase().includes("failed to assign player") || data.message.toLowerCase().includes("room not found") ) {
             setConnectionStatus("room_full"); 
-            localStorage.removeItem('myPlayerId_activeGame');
-            if (myPlayerId) localStorage.removeItem(`activeGameId_${myPlayerId}`); 
+            if (gameIdRef.current) clearGameSession(gameIdRef.current);
         } else {
             setConnectionStatus("error");
         }
     });
 
     newSocket.on('disconnect', (reason) => {
-      console.log(`[MultiplayerSecretSetup] Game ${gameId}: Socket disconnected. Reason: ${reason}`);
+      console.log(`[MultiplayerSecretSetup] Game ${gameIdRef.current}: Socket disconnected. Reason: ${reason}`);
       setConnectionStatus("failed");
     });
 
     newSocket.on('connect_error', (err) => {
-      console.error(`[MultiplayerSecretSetup] Game ${gameId}: Socket connection error: ${err.message}`);
+      console.error(`[MultiplayerSecretSetup] Game ${gameIdRef.current}: Socket connection error: ${err.message}`);
       setConnectionStatus("failed");
       toast({ title: "Connection Error", description: "Could not connect to the game server.", variant: "destructive"});
     });
     
     return () => {
       if (socketRef.current) {
-        console.log(`[MultiplayerSecretSetup] Game ${gameId}: Cleanup - Disconnecting socket ${socketRef.current.id}.`);
+        console.log(`[MultiplayerSecretSetup] Game ${gameIdRef.current}: Cleanup - Disconnecting socket ${socketRef.current.id}.`);
         // Do not emit player-exit here automatically, only on explicit button click
         socketRef.current.disconnect();
         socketRef.current = null; 
       }
     };
-  }, [gameId, playerCountParam, router, toast, isHostParam, username]); // Added username
+  }, [hasValidParams, playerCountParam, router, toast, isHostParam, username, targetModeParam, crackRuleParam, feedbackModeParam, codeLengthParam, alphabetParam, turnSecondsParam, timeoutPolicyParam, maxTimeoutsParam, bankSecondsParam, clockModeParam, budgetSecondsParam, incrementSecondsParam, isPublicParam, bestOfParam, hintsAllowedParam, hardcoreParam, profileId, profileKey]); // Added username
 
   const handleBackToModeSelect = (emitExitEvent = true) => {
     if (emitExitEvent && socketRef.current && gameId && myPlayerId) {
@@ -155,10 +213,9 @@ export default function MultiplayerSecretSetupPage() {
         socketRef.current.disconnect(); 
         socketRef.current = null;
     }
-    localStorage.removeItem('myPlayerId_activeGame');
+    if (gameId) clearGameSession(gameId);
     if (myPlayerId && gameId) {
       localStorage.removeItem(`mySecret_${gameId}_${myPlayerId}`);
-      localStorage.removeItem(`activeGameId_${myPlayerId}`);
     }
     router.push('/mode-select');
   };
@@ -168,12 +225,12 @@ export default function MultiplayerSecretSetupPage() {
       toast({ title: "Error", description: "Not connected or player ID not assigned.", variant: "destructive" });
       return;
     }
-    if (currentDigits.some(digit => digit === '') || currentDigits.length !== CODE_LENGTH) {
-      toast({ title: "Invalid Secret", description: `Please enter all ${CODE_LENGTH} digits.`, variant: "destructive" });
+    if (currentDigits.some(digit => digit === '') || currentDigits.length !== codeRules.length) {
+      toast({ title: "Invalid Secret", description: `Please enter all ${codeRules.length} characters.`, variant: "destructive" });
       return;
     }
-    if (!isValidDigitSequence(currentDigits)) {
-      toast({ title: "Invalid Secret Pattern", description: `Code cannot have 3 or 4 identical consecutive digits.`, variant: "destructive" });
+    if (!isValidCode(currentDigits, codeRules)) {
+      toast({ title: "Invalid Secret Pattern", description: `Code must be ${describeCodeRules(codeRules)} and cannot have 3 or more identical consecutive characters.`, variant: "destructive" });
       return;
     }
 
@@ -193,7 +250,12 @@ export default function MultiplayerSecretSetupPage() {
   };
 
 
-  if (!gameId || !playerCountParam ) { 
+  const copyToClipboard = (text: string, description: string) => {
+    navigator.clipboard.writeText(text);
+    toast({ title: "Copied!", description });
+  };
+
+  if (!hasValidParams) { 
     return (
       <div className="flex flex-col items-center justify-center min-h-[calc(100vh-200px)] py-8">
         <Card className="w-full max-w-md text-center"><CardHeader><CardTitle>Error</CardTitle></CardHeader><CardContent><p>Invalid game setup parameters.</p><Button onClick={() => handleBackToModeSelect(false)} className="mt-4">Back</Button></CardContent></Card>
@@ -210,7 +272,7 @@ export default function MultiplayerSecretSetupPage() {
               {connectionStatus === "connected" && !myPlayerId && "Joining Room..."}
               {connectionStatus === "connected" && myPlayerId && !gameRoomState && "Loading Game..."}
             </CardTitle>
-            <CardDescription className="pt-2">Attempting to connect to Game ID: {gameId}</CardDescription>
+            <CardDescription className="pt-2">{gameId ? `Attempting to connect to room ${gameId}` : "Creating a new room..."}</CardDescription>
         </CardHeader></Card>
       </div>);
   }
@@ -245,7 +307,7 @@ export default function MultiplayerSecretSetupPage() {
   const localPlayerIsReady = !!(localPlayerServerData && localPlayerServerData.isReady); 
   const localPlayerHasSetSecret = !!(localPlayerServerData && localPlayerServerData.hasSetSecret); 
 
-  const numberOfActivePlayers = gameRoomState.players ? Object.values(gameRoomState.players).filter(p => p.socketId).length : 0;
+  const numberOfActivePlayers = gameRoomState.players ? Object.values(gameRoomState.players).filter(p => p.isConnected).length : 0;
   const myDisplayName = localPlayerServerData?.displayName || username || myPlayerId || "You";
 
   const getWaitingMessage = () => {
@@ -254,7 +316,7 @@ export default function MultiplayerSecretSetupPage() {
       case 'WAITING_FOR_PLAYERS':
         return `Waiting for players... (${numberOfActivePlayers}/${expectedPlayerCount})`;
       case 'WAITING_FOR_READY':
-        const readyCount = gameRoomState.players ? Object.values(gameRoomState.players).filter(p => p.isReady && p.socketId).length : 0;
+        const readyCount = gameRoomState.players ? Object.values(gameRoomState.players).filter(p => p.isReady && p.isConnected).length : 0;
         return `Waiting for secrets... (${readyCount}/${expectedPlayerCount} ready)`;
       case 'READY_TO_START':
         return myPlayerId === "player1" ? "All ready. Start the game!" : `Waiting for ${gameRoomState.players['player1']?.displayName || 'Host'} to start.`;
@@ -270,6 +332,16 @@ export default function MultiplayerSecretSetupPage() {
                        );
   
   const showSubmittingLoader = isSubmittingSecret && !localPlayerHasSetSecret;
+  const bestOf = normalizeBestOf(gameRoomState.bestOf);
+  const seriesScore = gameRoomState.seriesScore || {};
+  const scoreText = Object.keys(gameRoomState.players).map(pId => `${gameRoomState.players[pId]?.displayName || pId} ${seriesScore[pId] || 0}`).join(' · ');
+  let seriesText: string | null = null;
+  if (bestOf > 1) {
+    const gameNumber = (gameRoomState.seriesGames || []).length + 1;
+    seriesText = `${describeSeries(bestOf)} · Game ${gameNumber}${gameNumber > 1 ? ` · ${scoreText}` : ''}`;
+  } else if (Object.keys(seriesScore).length > 0) {
+    seriesText = `Rematch · Series: ${scoreText}`;
+  }
 
   return (
     <div className="flex flex-col items-center justify-center min-h-[calc(100vh-200px)] py-8">
@@ -280,8 +352,9 @@ export default function MultiplayerSecretSetupPage() {
             {myPlayerId ? `Welcome, ${myDisplayName}` : "Joining..."}
           </CardTitle>
           <CardDescription className="pt-2">
-            Game ID: <span className="font-mono text-sm text-accent">{gameId}</span> ({playerCountParam}) <br/>
-            {canSetSecret && `Enter your ${CODE_LENGTH}-digit secret.`}
+            Room Code: <span className="font-mono text-sm text-accent">{gameId}</span> ({PLAYER_COUNT_PARAMS[gameRoomState.playerCount]}) · {FEEDBACK_MODE_LABELS[gameRoomState.feedbackMode || DEFAULT_FEEDBACK_MODE]} · {describeTurnTimer(normalizeTurnTimerSettings(gameRoomState.turnTimer))}{gameRoomState.hardcore && ' · Hardcore'}{gameRoomState.hintsAllowed && ' · Hints allowed'} <br/>
+            {seriesText && <>{seriesText}<br/></>}
+            {canSetSecret && `Enter your ${describeCodeRules(codeRules)} secret.`}
             <span className="flex items-center justify-center mt-2">
                 {(gameRoomState.status === 'WAITING_FOR_PLAYERS' || gameRoomState.status === 'WAITING_FOR_READY') && <Hourglass className="mr-2 h-4 w-4 animate-spin" />}
                 {getWaitingMessage()}
@@ -289,9 +362,19 @@ export default function MultiplayerSecretSetupPage() {
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
+          {gameId && gameRoomState.status === 'WAITING_FOR_PLAYERS' && (
+            <div className="flex justify-center gap-2">
+              <Button variant="outline" size="sm" onClick={() => copyToClipboard(gameId, "Room code copied to clipboard.")}>
+                <Copy className="mr-2 h-4 w-4" /> Copy Code
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => copyToClipboard(`${window.location.origin}/join/${gameId}`, "Invite link copied to clipboard.")}>
+                <LinkIcon className="mr-2 h-4 w-4" /> Copy Invite Link
+              </Button>
+            </div>
+          )}
           {canSetSecret && (
             <div className="space-y-6">
-              <DigitInput count={CODE_LENGTH} values={currentDigits} onChange={setCurrentDigits} disabled={showSubmittingLoader} ariaLabel={`Secret digit for ${myDisplayName}`}/>
+              <DigitInput count={codeRules.length} alphabet={codeRules.alphabet} values={currentDigits} onChange={setCurrentDigits} disabled={showSubmittingLoader} ariaLabel={`Secret digit for ${myDisplayName}`}/>
               <Button onClick={handleSecretSubmit} className="w-full" disabled={showSubmittingLoader} size="lg">
                 {showSubmittingLoader ? <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Submitting...</> : `Confirm Secret & Ready Up`}
               </Button>
@@ -303,12 +386,12 @@ export default function MultiplayerSecretSetupPage() {
             <h4 className="text-lg font-semibold mb-2 text-center">Players ({numberOfActivePlayers}/{expectedPlayerCount})</h4>
             <ul className="space-y-2">
               {gameRoomState.players && Object.entries(gameRoomState.players).map(([pId, playerData]) => {
-                if (!playerData.socketId && pId !== myPlayerId && !playerData.isReady) return null; 
+                if (!playerData.isConnected && pId !== myPlayerId && !playerData.isReady) return null; 
                 const displayName = playerData.displayName || pId;
                 return (
-                  <li key={pId} className={`flex justify-between items-center p-3 rounded-md ${playerData.socketId ? 'bg-card' : 'bg-muted/50 opacity-60'}`}>
+                  <li key={pId} className={`flex justify-between items-center p-3 rounded-md ${playerData.isConnected ? 'bg-card' : 'bg-muted/50 opacity-60'}`}>
                     <span className="font-semibold">{pId === myPlayerId ? `${displayName} (You)` : displayName}</span>
-                    {playerData.socketId ? (
+                    {playerData.isConnected ? (
                         playerData.isReady ? 
                         <span className="text-green-400 flex items-center"><ShieldCheck className="mr-1 h-5 w-5"/>Ready</span> : 
                         <span className="text-yellow-400 flex items-center"><ShieldAlert className="mr-1 h-5 w-5"/>Setting Secret...</span>
@@ -6,9 +6,25 @@ import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle }
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
 import { Input } from '@/components/ui/input';
-import { Users, UserPlus, LogIn, ArrowLeft, Gamepad2, Server, CheckCircle, User, ArrowRight } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Users, UserPlus, LogIn, ArrowLeft, Gamepad2, Server, CheckCircle, User, ArrowRight, Eye, List } from 'lucide-react';
 import { useRouter } from 'next/navigation';
 import { useToast } from '@/hooks/use-toast';
+import type { ClockMode, CodeAlphabet, CrackRule, FeedbackMode, TargetMode, TimeoutPolicy } from '@/types/game';
+import { CODE_ALPHABET_LABELS, DEFAULT_CODE_RULES, MAX_CODE_LENGTH, MIN_CODE_LENGTH, isValidRoomCode, normalizeRoomCode } from '@/lib/gameLogic';
+import {
+  CHESS_BUDGET_OPTIONS,
+  CHESS_INCREMENT_OPTIONS,
+  CLOCK_MODE_LABELS,
+  DEFAULT_TURN_TIMER,
+  MAX_TIMEOUTS_OPTIONS,
+  TIME_BANK_OPTIONS,
+  TIMEOUT_POLICY_LABELS,
+  TURN_TIME_OPTIONS,
+  formatTurnTime,
+} from '@/lib/turnClock';
+import { DEFAULT_BEST_OF, SERIES_LENGTH_OPTIONS, describeSeries } from '@/lib/series';
 
 type MultiplayerStep = "playerCount" | "hostJoin";
 type PlayerCount = "duo" | "trio" | "quads" | null;
@@ -21,8 +37,23 @@ export default function MultiplayerSetupPage() {
   const [playerCount, setPlayerCount] = useState<PlayerCount>("duo");
   const [hostJoin, setHostJoin] = useState<HostJoin>(null);
   const [gameIdInput, setGameIdInput] = useState<string>("");
-  const [generatedGameId, setGeneratedGameId] = useState<string | null>(null);
   const [isServerReady, setIsServerReady] = useState(false); // New state
+  const [targetMode, setTargetMode] = useState<TargetMode>("ring");
+  const [crackRule, setCrackRule] = useState<CrackRule>("eliminate");
+  const [feedbackMode, setFeedbackMode] = useState<FeedbackMode>("exact");
+  const [codeLength, setCodeLength] = useState<number>(DEFAULT_CODE_RULES.length);
+  const [codeAlphabet, setCodeAlphabet] = useState<CodeAlphabet>(DEFAULT_CODE_RULES.alphabet);
+  const [clockMode, setClockMode] = useState<ClockMode>(DEFAULT_TURN_TIMER.clockMode);
+  const [turnSeconds, setTurnSeconds] = useState<number>(DEFAULT_TURN_TIMER.turnSeconds);
+  const [timeoutPolicy, setTimeoutPolicy] = useState<TimeoutPolicy>(DEFAULT_TURN_TIMER.timeoutPolicy);
+  const [maxTimeouts, setMaxTimeouts] = useState<number>(DEFAULT_TURN_TIMER.maxTimeouts);
+  const [bankSeconds, setBankSeconds] = useState<number>(DEFAULT_TURN_TIMER.bankSeconds);
+  const [budgetSeconds, setBudgetSeconds] = useState<number>(DEFAULT_TURN_TIMER.budgetSeconds);
+  const [incrementSeconds, setIncrementSeconds] = useState<number>(DEFAULT_TURN_TIMER.incrementSeconds);
+  const [isPublic, setIsPublic] = useState<boolean>(false);
+  const [bestOf, setBestOf] = useState<number>(DEFAULT_BEST_OF);
+  const [hintsAllowed, setHintsAllowed] = useState<boolean>(false);
+  const [hardcore, setHardcore] = useState<boolean>(false);
 
   // useEffect to trigger backend initialization
   useEffect(() => {
@@ -49,12 +80,6 @@ export default function MultiplayerSetupPage() {
 
   const handleHostJoinSelect = (value: string) => {
     setHostJoin(value as HostJoin);
-    if (value === "host") {
-      const newGameId = `GAME${Math.floor(1000 + Math.random() * 9000)}`;
-      setGeneratedGameId(newGameId);
-    } else {
-      setGeneratedGameId(null);
-    }
   };
 
   const proceedToNextStep = () => {
@@ -64,26 +89,33 @@ export default function MultiplayerSetupPage() {
     }
     if (step === "playerCount" && playerCount) {
       setStep("hostJoin");
-    } else if (step === "hostJoin" && hostJoin) {
-      const finalGameId = hostJoin === 'host' ? generatedGameId : gameIdInput;
-      if (finalGameId && playerCount) {
-        const isHostQueryParam = hostJoin === 'host' ? '&isHost=true' : '';
-        router.push(`/multiplayer-secret-setup?gameId=${finalGameId.toUpperCase()}&playerCount=${playerCount}${isHostQueryParam}`);
+    } else if (step === "hostJoin" && hostJoin === 'host' && playerCount) {
+      // The server allocates the room code once the host connects
+      router.push(`/multiplayer-secret-setup?playerCount=${playerCount}&isHost=true&targetMode=${targetMode}&crackRule=${crackRule}&feedbackMode=${feedbackMode}&codeLength=${codeLength}&alphabet=${codeAlphabet}&turnSeconds=${turnSeconds}&timeoutPolicy=${timeoutPolicy}&maxTimeouts=${maxTimeouts}&bankSeconds=${bankSeconds}&clockMode=${clockMode}&budgetSeconds=${budgetSeconds}&incrementSeconds=${incrementSeconds}&isPublic=${isPublic}&bestOf=${bestOf}&hints=${hintsAllowed}&hardcore=${hardcore}`);
+    } else if (step === "hostJoin" && hostJoin === 'join') {
+      const roomCode = normalizeRoomCode(gameIdInput);
+      if (isValidRoomCode(roomCode)) {
+        router.push(`/multiplayer-secret-setup?gameId=${roomCode}`);
       } else {
         toast({
-          title: "Setup Incomplete",
-          description: "Please ensure a game ID is entered or generated, and player count is selected.",
+          title: "Invalid Room Code",
+          description: "Room codes are 6 letters and digits, as shared by the host.",
           variant: "destructive",
         });
       }
     }
   };
 
+  const watchGame = () => {
+    const roomCode = normalizeRoomCode(gameIdInput);
+    if (!roomCode) return;
+    router.push(`/multiplayer-play?gameId=${roomCode}&playerCount=${playerCount || 'duo'}&spectate=true`);
+  };
+
   const goBack = () => {
     if (step === "hostJoin") {
       setStep("playerCount");
       setHostJoin(null);
-      setGeneratedGameId(null);
       setGameIdInput("");
     } else if (step === "playerCount") {
       router.push('/mode-select');
@@ -132,8 +164,8 @@ export default function MultiplayerSetupPage() {
             >
               {[
                 { value: "duo", label: "Duo (2 Players)", icon: <User className="mr-2 h-5 w-5"/> },
-                // { value: "trio", label: "Trio (3 Players)", icon: <Users className="mr-2 h-5 w-5"/> },
-                // { value: "quads", label: "Quads (4 Players)", icon: <Gamepad2 className="mr-2 h-5 w-5"/> },
+                { value: "trio", label: "Trio (3 Players)", icon: <Users className="mr-2 h-5 w-5"/> },
+                { value: "quads", label: "Quads (4 Players)", icon: <Gamepad2 className="mr-2 h-5 w-5"/> },
               ].map((option) => (
                 <Label
                   key={option.value}
@@ -147,7 +179,6 @@ export default function MultiplayerSetupPage() {
                   <span className="font-semibold text-base">{option.label}</span>
                 </Label>
               ))}
-                <p className="text-xs text-center text-muted-foreground">Trio & Quads modes coming soon!</p>
             </RadioGroup>
           )}
 
@@ -179,10 +210,10 @@ export default function MultiplayerSetupPage() {
           
           {step === "hostJoin" && hostJoin === 'join' && (
             <div className="space-y-2">
-              <Label htmlFor="game-id-input">Enter Game ID</Label>
+              <Label htmlFor="game-id-input">Enter Room Code</Label>
               <Input 
                 id="game-id-input" 
-                placeholder="e.g., GAME1234" 
+                placeholder="e.g., K7QX2M" 
                 value={gameIdInput} 
                 onChange={(e) => setGameIdInput(e.target.value.toUpperCase())}
                 className="text-center tracking-wider"
@@ -190,17 +221,195 @@ export default function MultiplayerSetupPage() {
             </div>
           )}
 
-          {step === "hostJoin" && hostJoin === 'host' && generatedGameId && (
-            <Card className="bg-muted/50 p-4 text-center">
-              <CardDescription>Share this Game ID with others:</CardDescription>
-              <CardTitle className="text-2xl text-primary font-mono tracking-widest py-2">{generatedGameId}</CardTitle>
-              <Button variant="outline" size="sm" onClick={() => {
-                  if(generatedGameId) {
-                    navigator.clipboard.writeText(generatedGameId);
-                    toast({title: "Copied!", description: "Game ID copied to clipboard."})
-                  }
-                }}>Copy ID</Button>
-            </Card>
+          {step === "hostJoin" && hostJoin === 'host' && (
+            <div className="space-y-4">
+              <div className="flex items-center justify-between rounded-md border p-3">
+                <Label htmlFor="public-room-switch" className="cursor-pointer">
+                  <span className="block">List in Public Lobby</span>
+                  <span className="block text-xs font-normal text-muted-foreground">Anyone can find and join the room without the room code</span>
+                </Label>
+                <Switch id="public-room-switch" checked={isPublic} onCheckedChange={setIsPublic} />
+              </div>
+              <div className="flex items-center justify-between rounded-md border p-3">
+                <Label htmlFor="hints-switch" className="cursor-pointer">
+                  <span className="block">Allow Hints</span>
+                  <span className="block text-xs font-normal text-muted-foreground">Players can see how many codes are left and ask for hints; their results count as assisted</span>
+                </Label>
+                <Switch id="hints-switch" checked={hintsAllowed} onCheckedChange={setHintsAllowed} />
+              </div>
+              <div className="flex items-center justify-between rounded-md border p-3">
+                <Label htmlFor="hardcore-switch" className="cursor-pointer">
+                  <span className="block">Hardcore</span>
+                  <span className="block text-xs font-normal text-muted-foreground">Guesses that go against earlier feedback are rejected instead of only warned about</span>
+                </Label>
+                <Switch id="hardcore-switch" checked={hardcore} onCheckedChange={setHardcore} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="series-select">Series</Label>
+                <Select value={String(bestOf)} onValueChange={(value) => setBestOf(Number(value))}>
+                  <SelectTrigger id="series-select"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {SERIES_LENGTH_OPTIONS.map(length => (
+                      <SelectItem key={length} value={String(length)}>{describeSeries(length)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-2">
+                  <Label htmlFor="code-length-select">Code Length</Label>
+                  <Select value={String(codeLength)} onValueChange={(value) => setCodeLength(Number(value))}>
+                    <SelectTrigger id="code-length-select"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {Array.from({ length: MAX_CODE_LENGTH - MIN_CODE_LENGTH + 1 }, (_, i) => MIN_CODE_LENGTH + i).map(length => (
+                        <SelectItem key={length} value={String(length)}>{length}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="code-alphabet-select">Characters</Label>
+                  <Select value={codeAlphabet} onValueChange={(value) => setCodeAlphabet(value as CodeAlphabet)}>
+                    <SelectTrigger id="code-alphabet-select"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(CODE_ALPHABET_LABELS) as CodeAlphabet[]).map(alphabet => (
+                        <SelectItem key={alphabet} value={alphabet}>{CODE_ALPHABET_LABELS[alphabet]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-2">
+                  <Label htmlFor="clock-mode-select">Clock</Label>
+                  <Select value={clockMode} onValueChange={(value) => setClockMode(value as ClockMode)}>
+                    <SelectTrigger id="clock-mode-select"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(CLOCK_MODE_LABELS) as ClockMode[]).map(mode => (
+                        <SelectItem key={mode} value={mode}>{CLOCK_MODE_LABELS[mode]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {clockMode === 'chess' && (<>
+                <div className="space-y-2">
+                  <Label htmlFor="chess-budget-select">Time per Player</Label>
+                  <Select value={String(budgetSeconds)} onValueChange={(value) => setBudgetSeconds(Number(value))}>
+                    <SelectTrigger id="chess-budget-select"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {CHESS_BUDGET_OPTIONS.map(seconds => (
+                        <SelectItem key={seconds} value={String(seconds)}>{formatTurnTime(seconds)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="chess-increment-select">Increment per Guess</Label>
+                  <Select value={String(incrementSeconds)} onValueChange={(value) => setIncrementSeconds(Number(value))}>
+                    <SelectTrigger id="chess-increment-select"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {CHESS_INCREMENT_OPTIONS.map(seconds => (
+                        <SelectItem key={seconds} value={String(seconds)}>{seconds > 0 ? `+${seconds}s` : 'None'}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                </>)}
+                {clockMode === 'turn' && (<>
+                <div className="space-y-2">
+                  <Label htmlFor="turn-time-select">Turn Time</Label>
+                  <Select value={String(turnSeconds)} onValueChange={(value) => setTurnSeconds(Number(value))}>
+                    <SelectTrigger id="turn-time-select"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {TURN_TIME_OPTIONS.map(seconds => (
+                        <SelectItem key={seconds} value={String(seconds)}>{formatTurnTime(seconds)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {turnSeconds > 0 && (
+                  <div className="space-y-2">
+                    <Label htmlFor="timeout-policy-select">On Timeout</Label>
+                    <Select value={timeoutPolicy} onValueChange={(value) => setTimeoutPolicy(value as TimeoutPolicy)}>
+                      <SelectTrigger id="timeout-policy-select"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(TIMEOUT_POLICY_LABELS) as TimeoutPolicy[]).map(policy => (
+                          <SelectItem key={policy} value={policy}>{TIMEOUT_POLICY_LABELS[policy]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                {turnSeconds > 0 && timeoutPolicy === 'forfeit' && (
+                  <div className="space-y-2">
+                    <Label htmlFor="max-timeouts-select">Timeouts in a Row</Label>
+                    <Select value={String(maxTimeouts)} onValueChange={(value) => setMaxTimeouts(Number(value))}>
+                      <SelectTrigger id="max-timeouts-select"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {MAX_TIMEOUTS_OPTIONS.map(count => (
+                          <SelectItem key={count} value={String(count)}>{count}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                {turnSeconds > 0 && timeoutPolicy === 'bank' && (
+                  <div className="space-y-2">
+                    <Label htmlFor="time-bank-select">Time Bank</Label>
+                    <Select value={String(bankSeconds)} onValueChange={(value) => setBankSeconds(Number(value))}>
+                      <SelectTrigger id="time-bank-select"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {TIME_BANK_OPTIONS.map(seconds => (
+                          <SelectItem key={seconds} value={String(seconds)}>{formatTurnTime(seconds)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                </>)}
+              </div>
+              <div className="space-y-2">
+                <Label>Feedback</Label>
+                <RadioGroup value={feedbackMode} onValueChange={(value) => setFeedbackMode(value as FeedbackMode)} className="grid grid-cols-1 gap-2">
+                  <Label htmlFor="feedback-mode-exact" className="flex items-center space-x-3 rounded-md border p-3 cursor-pointer">
+                    <RadioGroupItem value="exact" id="feedback-mode-exact" />
+                    <span>Exact Positions: only correctly placed digits are revealed</span>
+                  </Label>
+                  <Label htmlFor="feedback-mode-bulls-cows" className="flex items-center space-x-3 rounded-md border p-3 cursor-pointer">
+                    <RadioGroupItem value="bulls-cows" id="feedback-mode-bulls-cows" />
+                    <span>Bulls &amp; Cows: also shows how many digits are right but misplaced</span>
+                  </Label>
+                </RadioGroup>
+              </div>
+              {playerCount !== "duo" && (<>
+              <div className="space-y-2">
+                <Label>Targets</Label>
+                <RadioGroup value={targetMode} onValueChange={(value) => setTargetMode(value as TargetMode)} className="grid grid-cols-1 gap-2">
+                  <Label htmlFor="target-mode-ring" className="flex items-center space-x-3 rounded-md border p-3 cursor-pointer">
+                    <RadioGroupItem value="ring" id="target-mode-ring" />
+                    <span>Ring: everyone guesses the next player&apos;s code</span>
+                  </Label>
+                  <Label htmlFor="target-mode-all" className="flex items-center space-x-3 rounded-md border p-3 cursor-pointer">
+                    <RadioGroupItem value="all" id="target-mode-all" />
+                    <span>Free-for-all: guess any opponent&apos;s code</span>
+                  </Label>
+                </RadioGroup>
+              </div>
+              <div className="space-y-2">
+                <Label>When a code is cracked</Label>
+                <RadioGroup value={crackRule} onValueChange={(value) => setCrackRule(value as CrackRule)} className="grid grid-cols-1 gap-2">
+                  <Label htmlFor="crack-rule-eliminate" className="flex items-center space-x-3 rounded-md border p-3 cursor-pointer">
+                    <RadioGroupItem value="eliminate" id="crack-rule-eliminate" />
+                    <span>Eliminate: the cracked player is out, last one standing wins</span>
+                  </Label>
+                  <Label htmlFor="crack-rule-finish" className="flex items-center space-x-3 rounded-md border p-3 cursor-pointer">
+                    <RadioGroupItem value="finish" id="crack-rule-finish" />
+                    <span>Race: the cracker finishes in the next place, the rest play on</span>
+                  </Label>
+                </RadioGroup>
+              </div>
+              </>)}
+            </div>
           )}
 
         </CardContent>
@@ -213,9 +422,17 @@ export default function MultiplayerSetupPage() {
             </Button>
           ) : (
              <Button className="w-full" size="lg" disabled>
-              {!isServerReady ? "Initializing Service..." : (step === "playerCount" ? "Select Player Count" : (hostJoin === 'join' ? "Enter Game ID" : "Choose an Option"))}
+              {!isServerReady ? "Initializing Service..." : (step === "playerCount" ? "Select Player Count" : (hostJoin === 'join' ? "Enter Room Code" : "Choose an Option"))}
             </Button>
           )}
+           {step === "hostJoin" && hostJoin === 'join' && gameIdInput && isServerReady && (
+            <Button onClick={watchGame} className="w-full" variant="outline">
+              <Eye className="mr-2 h-4 w-4" /> Watch as Spectator
+            </Button>
+          )}
+           <Button variant="outline" onClick={() => router.push('/lobby')} className="w-full">
+            <List className="mr-2 h-4 w-4" /> Browse Public Lobby
+          </Button>
            <Button variant="link" onClick={() => router.push('/mode-select')} className="text-sm">
             Back to Mode Select
           </Button>
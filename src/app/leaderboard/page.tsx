@@ -0,0 +1,257 @@
+"use client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useAuth } from "@/contexts/AuthContext";
+import { useRouter } from "next/navigation";
+import { useEffect, useState } from "react";
+import { ArrowLeft, Trophy } from "lucide-react";
+import { formatDuration } from "@/lib/daily";
+import { CODE_ALPHABET_LABELS, DEFAULT_CODE_RULES, DEFAULT_FEEDBACK_MODE, FEEDBACK_MODE_LABELS, MAX_CODE_LENGTH, MIN_CODE_LENGTH } from "@/lib/gameLogic";
+import { GAME_MODE_LABELS } from "@/lib/profile";
+import { LEADERBOARD_MODES } from "@/lib/results";
+import type { CodeAlphabet, FeedbackMode, Leaderboard, LeaderboardGameEntry } from "@/types/game";
+
+const ALL = 'all';
+
+function GameEntriesTable({ entries }: { entries: LeaderboardGameEntry[] }) {
+  if (entries.length === 0) {
+    return <p className="text-center text-muted-foreground py-6">No wins recorded yet.</p>;
+  }
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="w-10">#</TableHead>
+          <TableHead>Player</TableHead>
+          <TableHead>Mode</TableHead>
+          <TableHead className="text-right">Guesses</TableHead>
+          <TableHead className="text-right">Time</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {entries.map((entry, index) => (
+          <TableRow key={index}>
+            <TableCell>{index + 1}</TableCell>
+            <TableCell className="font-medium">{entry.playerName}</TableCell>
+            <TableCell>{GAME_MODE_LABELS[entry.mode]}{entry.mode === 'multiplayer' ? ` (${entry.playerCount}P)` : ''}</TableCell>
+            <TableCell className="text-right">
+              {entry.guessCount}
+              {entry.hintsUsed ? <span className="ml-1 text-xs text-muted-foreground" title={`${entry.hintsUsed} ${entry.hintsUsed === 1 ? 'hint' : 'hints'} used`}>(assisted)</span> : null}
+            </TableCell>
+            <TableCell className="text-right font-mono">{entry.durationMs === undefined ? '-' : formatDuration(entry.durationMs)}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+export default function LeaderboardPage() {
+  const { isLoggedIn, isAuthLoading } = useAuth();
+  const router = useRouter();
+  const [mode, setMode] = useState<string>(ALL);
+  const [playerCount, setPlayerCount] = useState<string>(ALL);
+  const [assisted, setAssisted] = useState<string>(ALL);
+  // Games are only ranked against games played with the same rules
+  const [codeLength, setCodeLength] = useState<string>(String(DEFAULT_CODE_RULES.length));
+  const [alphabet, setAlphabet] = useState<CodeAlphabet>(DEFAULT_CODE_RULES.alphabet);
+  const [feedbackMode, setFeedbackMode] = useState<FeedbackMode>(DEFAULT_FEEDBACK_MODE);
+  const [leaderboard, setLeaderboard] = useState<Leaderboard | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isAuthLoading && !isLoggedIn) {
+      router.replace("/");
+    }
+  }, [isLoggedIn, isAuthLoading, router]);
+
+  useEffect(() => {
+    const params = new URLSearchParams();
+    if (mode !== ALL) params.set('mode', mode);
+    if (playerCount !== ALL) params.set('playerCount', playerCount);
+    if (assisted !== ALL) params.set('assisted', assisted);
+    params.set('codeLength', codeLength);
+    params.set('alphabet', alphabet);
+    params.set('feedbackMode', feedbackMode);
+    let cancelled = false;
+    setError(null);
+    fetch(`/api/leaderboard?${params.toString()}`)
+      .then(res => (res.ok ? res.json() : Promise.reject(new Error(`Leaderboard request failed with ${res.status}`))))
+      .then((data: Leaderboard) => {
+        if (!cancelled) setLeaderboard(data);
+      })
+      .catch(err => {
+        console.warn("[Leaderboard] Could not load the leaderboard:", err);
+        if (!cancelled) setError("The leaderboard is not available right now.");
+      });
+    return () => { cancelled = true; };
+  }, [mode, playerCount, assisted, codeLength, alphabet, feedbackMode]);
+
+  if (isAuthLoading || !isLoggedIn) {
+    return (
+      <div className="flex-grow flex flex-col items-center justify-center p-4 min-h-screen bg-background">
+        <p>Loading user session...</p>
+      </div>
+    );
+  }
+
+  return (
+    <main className="relative flex-grow flex flex-col items-center justify-center p-4 min-h-screen bg-background">
+      <Card className="w-full max-w-2xl shadow-xl">
+        <CardHeader>
+          <div className="flex items-center">
+            <Button variant="ghost" size="icon" onClick={() => router.push('/mode-select')}>
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <CardTitle className="flex-grow text-3xl text-center flex items-center justify-center">
+              <Trophy className="mr-2 h-7 w-7 text-primary" /> Leaderboard
+            </CardTitle>
+            <div className="w-10" />
+          </div>
+          <CardDescription className="pt-2 text-center">
+            The best multiplayer games and daily challenges played by everyone, ranked against games with the same rules.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="leaderboardMode">Mode</Label>
+              <Select value={mode} onValueChange={setMode}>
+                <SelectTrigger id="leaderboardMode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All Modes</SelectItem>
+                  {LEADERBOARD_MODES.map(key => (
+                    <SelectItem key={key} value={key}>{GAME_MODE_LABELS[key]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="leaderboardPlayerCount">Players</Label>
+              <Select value={playerCount} onValueChange={setPlayerCount}>
+                <SelectTrigger id="leaderboardPlayerCount">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Any</SelectItem>
+                  {[1, 2, 3, 4].map(count => (
+                    <SelectItem key={count} value={String(count)}>{count} {count === 1 ? 'Player' : 'Players'}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="leaderboardAssisted">Hints</Label>
+              <Select value={assisted} onValueChange={setAssisted}>
+                <SelectTrigger id="leaderboardAssisted">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All Games</SelectItem>
+                  <SelectItem value="false">Unassisted</SelectItem>
+                  <SelectItem value="true">Assisted</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="leaderboardCodeLength">Code Length</Label>
+              <Select value={codeLength} onValueChange={setCodeLength}>
+                <SelectTrigger id="leaderboardCodeLength">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Array.from({ length: MAX_CODE_LENGTH - MIN_CODE_LENGTH + 1 }, (_, index) => MIN_CODE_LENGTH + index).map(length => (
+                    <SelectItem key={length} value={String(length)}>{length} Symbols</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="leaderboardAlphabet">Alphabet</Label>
+              <Select value={alphabet} onValueChange={value => setAlphabet(value as CodeAlphabet)}>
+                <SelectTrigger id="leaderboardAlphabet">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(CODE_ALPHABET_LABELS) as CodeAlphabet[]).map(key => (
+                    <SelectItem key={key} value={key}>{CODE_ALPHABET_LABELS[key]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="leaderboardFeedbackMode">Feedback</Label>
+              <Select value={feedbackMode} onValueChange={value => setFeedbackMode(value as FeedbackMode)}>
+                <SelectTrigger id="leaderboardFeedbackMode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(FEEDBACK_MODE_LABELS) as FeedbackMode[]).map(key => (
+                    <SelectItem key={key} value={key}>{FEEDBACK_MODE_LABELS[key]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {error ? (
+            <p className="text-center text-destructive py-6">{error}</p>
+          ) : !leaderboard ? (
+            <p className="text-center text-muted-foreground py-6">Loading leaderboard...</p>
+          ) : (
+            <Tabs defaultValue="fewestGuesses">
+              <TabsList className="grid w-full grid-cols-3">
+                <TabsTrigger value="fewestGuesses">Fewest Guesses</TabsTrigger>
+                <TabsTrigger value="fastestWins">Fastest Wins</TabsTrigger>
+                <TabsTrigger value="winRate">Win Rate</TabsTrigger>
+              </TabsList>
+              <TabsContent value="fewestGuesses">
+                <GameEntriesTable entries={leaderboard.fewestGuesses} />
+              </TabsContent>
+              <TabsContent value="fastestWins">
+                <GameEntriesTable entries={leaderboard.fastestWins} />
+              </TabsContent>
+              <TabsContent value="winRate">
+                {leaderboard.winRate.length === 0 ? (
+                  <p className="text-center text-muted-foreground py-6">No player has enough games yet.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-10">#</TableHead>
+                        <TableHead>Player</TableHead>
+                        <TableHead className="text-right">Played</TableHead>
+                        <TableHead className="text-right">Wins</TableHead>
+                        <TableHead className="text-right">Win Rate</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {leaderboard.winRate.map((entry, index) => (
+                        <TableRow key={index}>
+                          <TableCell>{index + 1}</TableCell>
+                          <TableCell className="font-medium">{entry.playerName}</TableCell>
+                          <TableCell className="text-right">{entry.played}</TableCell>
+                          <TableCell className="text-right">{entry.wins}</TableCell>
+                          <TableCell className="text-right">{Math.round(entry.winRate * 100)}%</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </TabsContent>
+            </Tabs>
+          )}
+        </CardContent>
+      </Card>
+    </main>
+  );
+}
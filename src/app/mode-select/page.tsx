@@ -5,8 +5,9 @@ import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle }
 import { useAuth } from "@/contexts/AuthContext";
 import { useRouter } from "next/navigation";
 import { useEffect } from "react";
-import { Users, User, ArrowRight, LogOut } from "lucide-react"; 
+import { Users, User, ArrowRight, LogOut, CalendarDays, Trophy, Film } from "lucide-react"; 
 import Image from "next/image";
+import ProfileStatsDialog from "@/components/layout/ProfileStatsDialog";
 
 export default function ModeSelectPage() {
   const { isLoggedIn, isAuthLoading, username, logout } = useAuth(); 
@@ -58,8 +59,28 @@ export default function ModeSelectPage() {
             <Users className="mr-2 h-5 w-5" /> Multiplayer
             <ArrowRight className="ml-auto h-5 w-5" />
           </Button>
+          <Button
+            onClick={() => router.push('/daily')}
+            className="w-full"
+            size="lg"
+            variant="outline"
+          >
+            <CalendarDays className="mr-2 h-5 w-5" /> Daily Challenge
+            <ArrowRight className="ml-auto h-5 w-5" />
+          </Button>
         </CardContent>
         <CardFooter className="flex flex-col items-center pt-4">
+          <div className="flex gap-2">
+            <ProfileStatsDialog />
+            <Button variant="outline" size="sm" onClick={() => router.push('/leaderboard')}>
+              <Trophy className="mr-2 h-4 w-4" />
+              Leaderboard
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => router.push('/replay')}>
+              <Film className="mr-2 h-4 w-4" />
+              Import Game
+            </Button>
+          </div>
           <Button variant="link" onClick={logout} className="text-sm">
             <LogOut className="mr-2 h-4 w-4" /> Back to Username Select
           </Button>
@@ -0,0 +1,172 @@
+"use client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Slider } from "@/components/ui/slider";
+import GuessDisplay from "@/components/game/GuessDisplay";
+import { useParams, useRouter } from "next/navigation";
+import { useEffect, useMemo, useState } from "react";
+import { ArrowLeft, Download, Film, Pause, Play, SkipBack, StepBack, StepForward } from "lucide-react";
+import { formatDuration } from "@/lib/daily";
+import { downloadGameNotation } from "@/lib/gameNotation";
+import { GAME_MODE_LABELS } from "@/lib/profile";
+import { describeGameEvent, getReplayFrame, loadLocalReplay } from "@/lib/replay";
+import type { GameReplay } from "@/types/game";
+
+// Time each event stays on screen while the replay plays
+const REPLAY_STEP_MS = 1200;
+
+export default function ReplayPage() {
+  const params = useParams<{ id: string }>();
+  const replayId = params?.id ? decodeURIComponent(params.id) : null;
+  const router = useRouter();
+  const [replay, setReplay] = useState<GameReplay | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [step, setStep] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  useEffect(() => {
+    if (!replayId) return;
+    // Games played in this browser are stored here; multiplayer games are fetched from the server
+    const localReplay = loadLocalReplay(replayId);
+    if (localReplay) {
+      setReplay(localReplay);
+      return;
+    }
+    let cancelled = false;
+    setError(null);
+    fetch(`/api/replays/${encodeURIComponent(replayId)}`)
+      .then(res => (res.ok ? res.json() : Promise.reject(new Error(`Replay request failed with ${res.status}`))))
+      .then((data: GameReplay) => {
+        if (!cancelled) setReplay(data);
+      })
+      .catch(err => {
+        console.warn("[Replay] Could not load the replay:", err);
+        if (!cancelled) setError("This replay could not be found.");
+      });
+    return () => { cancelled = true; };
+  }, [replayId]);
+
+  const eventCount = replay ? replay.events.length : 0;
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    if (step >= eventCount) {
+      setIsPlaying(false);
+      return;
+    }
+    const timeoutId = setTimeout(() => setStep(prev => Math.min(eventCount, prev + 1)), REPLAY_STEP_MS);
+    return () => clearTimeout(timeoutId);
+  }, [isPlaying, step, eventCount]);
+
+  const frame = useMemo(() => (replay ? getReplayFrame(replay, step) : null), [replay, step]);
+  const names = useMemo(() => {
+    const playerNames: { [playerId: string]: string } = {};
+    replay?.players.forEach(player => { playerNames[player.id] = player.name; });
+    return playerNames;
+  }, [replay]);
+
+  const handlePlayPause = () => {
+    if (!isPlaying && step >= eventCount) setStep(0); // Play from the start again once the end was reached
+    setIsPlaying(prev => !prev);
+  };
+
+  const handleScrub = (value: number[]) => {
+    setIsPlaying(false);
+    setStep(value[0]);
+  };
+
+  return (
+    <main className="relative flex-grow flex flex-col items-center justify-center p-4 min-h-screen bg-background">
+      <Card className="w-full max-w-3xl shadow-xl">
+        <CardHeader>
+          <div className="flex items-center">
+            <Button variant="ghost" size="icon" onClick={() => router.push('/replay')}>
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <CardTitle className="flex-grow text-3xl text-center flex items-center justify-center">
+              <Film className="mr-2 h-7 w-7 text-primary" /> Replay
+            </CardTitle>
+            <div className="w-10" />
+          </div>
+          {replay && (
+            <CardDescription className="pt-2 text-center">
+              {GAME_MODE_LABELS[replay.mode]} · {new Date(replay.startedAt).toLocaleString()} · {formatDuration(replay.finishedAt - replay.startedAt)}
+              {replay.winner ? ` · ${names[replay.winner] || replay.winner} won` : ''}
+            </CardDescription>
+          )}
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {error ? (
+            <p className="text-center text-destructive py-6">{error}</p>
+          ) : !replay || !frame ? (
+            <p className="text-center text-muted-foreground py-6">Loading replay...</p>
+          ) : (
+            <>
+              <div className="space-y-3">
+                <div className="flex items-center justify-center gap-2">
+                  <Button variant="outline" size="icon" onClick={() => handleScrub([0])} disabled={step === 0} aria-label="Back to start">
+                    <SkipBack className="h-4 w-4" />
+                  </Button>
+                  <Button variant="outline" size="icon" onClick={() => handleScrub([Math.max(0, step - 1)])} disabled={step === 0} aria-label="Previous event">
+                    <StepBack className="h-4 w-4" />
+                  </Button>
+                  <Button size="icon" onClick={handlePlayPause} disabled={eventCount === 0} aria-label={isPlaying ? 'Pause' : 'Play'}>
+                    {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                  </Button>
+                  <Button variant="outline" size="icon" onClick={() => handleScrub([Math.min(eventCount, step + 1)])} disabled={step >= eventCount} aria-label="Next event">
+                    <StepForward className="h-4 w-4" />
+                  </Button>
+                  <Button variant="outline" size="icon" onClick={() => downloadGameNotation(replay)} aria-label="Export game" title="Export in game notation">
+                    <Download className="h-4 w-4" />
+                  </Button>
+                </div>
+                <Slider value={[step]} min={0} max={Math.max(1, eventCount)} step={1} onValueChange={handleScrub} disabled={eventCount === 0} />
+                <p className="text-sm text-center min-h-5">
+                  {frame.lastEvent ? (
+                    <>
+                      <span className="font-mono text-muted-foreground mr-2">{formatDuration(frame.lastEvent.at - replay.startedAt)}</span>
+                      {describeGameEvent(frame.lastEvent, names)}
+                    </>
+                  ) : (
+                    <span className="text-muted-foreground">Press play to step through {eventCount} {eventCount === 1 ? 'event' : 'events'}.</span>
+                  )}
+                  <span className="ml-2 text-xs text-muted-foreground">({step}/{eventCount})</span>
+                </p>
+              </div>
+
+              <div className={`grid gap-4 ${replay.players.length > 1 ? 'sm:grid-cols-2' : ''}`}>
+                {replay.players.map(player => {
+                  const secret = replay.secrets[player.id];
+                  const guesses = frame.guessesAgainst[player.id] || [];
+                  return (
+                    <div
+                      key={player.id}
+                      className={`rounded-lg border p-3 space-y-2 ${frame.turn === player.id ? 'border-primary ring-2 ring-primary/50' : 'border-border'} ${frame.outPlayerIds.includes(player.id) ? 'opacity-60' : ''}`}
+                    >
+                      <div className="flex items-center justify-between">
+                        <span className="font-semibold">{player.name}</span>
+                        {frame.turn === player.id && <span className="text-xs text-primary">To move</span>}
+                      </div>
+                      {secret && secret.length > 0 && (
+                        <p className="text-sm">Secret: <span className="font-mono text-primary">{secret.join('')}</span></p>
+                      )}
+                      {guesses.length === 0 ? (
+                        secret && secret.length > 0 ? <p className="text-xs text-muted-foreground">No guesses against this secret yet.</p> : null
+                      ) : (
+                        <div>
+                          {guesses.map((guess, index) => (
+                            <GuessDisplay key={index} guess={guess} guessNumber={index + 1} />
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </main>
+  );
+}
@@ -0,0 +1,76 @@
+"use client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import type React from "react";
+import { ArrowLeft, Film, Upload } from "lucide-react";
+import { parseGameNotation } from "@/lib/gameNotation";
+import { saveLocalReplay } from "@/lib/replay";
+
+export default function ImportGamePage() {
+  const router = useRouter();
+  const [notation, setNotation] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    setNotation(await file.text());
+    setError(null);
+  };
+
+  const handleImport = () => {
+    const result = parseGameNotation(notation, `import-${Date.now()}`);
+    if (!result.ok) {
+      setError(result.error);
+      return;
+    }
+    saveLocalReplay(result.replay);
+    router.push(`/replay/${result.replay.replayId}`);
+  };
+
+  return (
+    <main className="relative flex-grow flex flex-col items-center justify-center p-4 min-h-screen bg-background">
+      <Card className="w-full max-w-2xl shadow-xl">
+        <CardHeader>
+          <div className="flex items-center">
+            <Button variant="ghost" size="icon" onClick={() => router.push('/mode-select')}>
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <CardTitle className="flex-grow text-3xl text-center flex items-center justify-center">
+              <Film className="mr-2 h-7 w-7 text-primary" /> Import a Game
+            </CardTitle>
+            <div className="w-10" />
+          </div>
+          <CardDescription className="pt-2 text-center">
+            Open a game exported from the game-over screen or a replay, and watch it step by step.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="gameNotationFile">Game file</Label>
+            <Input id="gameNotationFile" type="file" accept=".txt,text/plain" onChange={handleFileChange} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="gameNotation">Or paste the game</Label>
+            <Textarea
+              id="gameNotation"
+              value={notation}
+              onChange={event => { setNotation(event.target.value); setError(null); }}
+              placeholder={'[Format "4Sure 1"]\n...'}
+              className="min-h-48 font-mono text-sm"
+            />
+          </div>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          <Button onClick={handleImport} className="w-full" size="lg" disabled={notation.trim().length === 0}>
+            <Upload className="mr-2 h-5 w-5" /> Import and Watch
+          </Button>
+        </CardContent>
+      </Card>
+    </main>
+  );
+}
@@ -6,6 +6,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { useAuth } from "@/contexts/AuthContext";
+import { useRandom } from "@/contexts/RandomContext";
+import { generateGuestUsername } from "@/lib/gameLogic";
 import { useRouter } from "next/navigation";
 import { Play, RefreshCw } from "lucide-react";
 import Image from "next/image";
@@ -14,11 +16,10 @@ export default function LoginForm() {
   const { login, isLoggedIn } = useAuth();
   const router = useRouter();
   const [inputUsername, setInputUsername] = useState("");
+  const random = useRandom();
 
   const handleGenerateRandomName = () => {
-    const randomSuffix = Math.floor(1000 + Math.random() * 9000);
-    const newUsername = `Player_${randomSuffix}`;
-    setInputUsername(newUsername);
+    setInputUsername(generateGuestUsername(random));
   };
 
   const handleLogin = () => {
@@ -0,0 +1,45 @@
+"use client";
+import type React from 'react';
+import { formatDuration } from '@/lib/daily';
+
+export interface ChessClock {
+  id: string;
+  name: string;
+  remainingMs: number;
+  isRunning: boolean;
+}
+
+interface ChessClockDisplayProps {
+  clocks: ChessClock[];
+}
+
+const LOW_TIME_MS = 10000;
+
+export default function ChessClockDisplay({ clocks }: ChessClockDisplayProps) {
+  return (
+    <div className="mt-1 flex flex-wrap justify-center gap-2">
+      {clocks.map(clock => {
+        const isLowTime = clock.isRunning && clock.remainingMs <= LOW_TIME_MS;
+        let textColor = clock.isRunning ? "text-foreground" : "text-muted-foreground";
+        let borderClass = clock.isRunning ? "border-primary" : "border-border/60";
+        if (clock.remainingMs <= 0) {
+          textColor = "text-destructive font-bold";
+          borderClass = "border-destructive";
+        } else if (isLowTime) {
+          textColor = "text-destructive";
+          borderClass = "border-destructive animate-pulse";
+        }
+
+        return (
+          <div key={clock.id} className={`transition-all duration-300 ease-in-out px-3 py-1 rounded-md border ${borderClass}`}>
+            <div className="text-xs text-muted-foreground truncate max-w-[8rem]">{clock.name}</div>
+            <span className={`text-xl sm:text-2xl font-mono font-semibold ${textColor}`}>
+              {/* Round up so a clock only shows 0:00 once it has really run out */}
+              {formatDuration(Math.ceil(clock.remainingMs / 1000) * 1000)}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+"use client";
+import type React from 'react';
+import { useMemo } from 'react';
+import type { CodeRules, Guess } from '@/types/game';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import useLocalStorage from '@/hooks/useLocalStorage';
+import { CODE_ALPHABETS } from '@/lib/gameLogic';
+import { cycleNotepadMark, getKnownNotepadMarks, notepadCell, type NotepadMarks } from '@/lib/notepad';
+
+interface DeductionNotepadProps {
+  storageKey: string; // Remount with a new key to switch notepads
+  codeRules: CodeRules;
+  knownGuesses: Guess[]; // Guesses against the secret the notes are about, used to fill in what is certain
+}
+
+export default function DeductionNotepad({ storageKey, codeRules, knownGuesses }: DeductionNotepadProps) {
+  const [marks, setMarks] = useLocalStorage<NotepadMarks>(storageKey, {});
+  const symbols = CODE_ALPHABETS[codeRules.alphabet];
+  const knownMarks = useMemo(() => getKnownNotepadMarks(knownGuesses, symbols), [knownGuesses, symbols]);
+  const positions = Array.from({ length: codeRules.length }, (_, position) => position);
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex items-center justify-between pb-1">
+        <span className="text-xs text-muted-foreground">Notepad · click to cross off or pin</span>
+        <Button type="button" variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => setMarks({})} disabled={Object.keys(marks).length === 0}>
+          Clear
+        </Button>
+      </div>
+      <ScrollArea className="flex-1 min-h-0 pr-3">
+        <table className="mx-auto border-separate border-spacing-0.5 text-xs font-mono">
+          <thead>
+            <tr>
+              <th />
+              {positions.map(position => <th key={position} className="w-6 font-normal text-muted-foreground">{position + 1}</th>)}
+            </tr>
+          </thead>
+          <tbody>
+            {symbols.map(symbol => (
+              <tr key={symbol}>
+                <th className="pr-1 font-normal text-muted-foreground">{symbol}</th>
+                {positions.map(position => {
+                  const cell = notepadCell(position, symbol);
+                  const knownMark = knownMarks[cell];
+                  const mark = knownMark || marks[cell];
+                  return (
+                    <td key={cell} className="p-0">
+                      <button
+                        type="button"
+                        disabled={!!knownMark}
+                        onClick={() => setMarks(prev => cycleNotepadMark(prev, cell))}
+                        className={`w-6 h-6 rounded-sm border transition-colors
+                          ${mark === 'pinned' ? 'bg-primary text-primary-foreground border-primary' : ''}
+                          ${mark === 'crossed' ? 'bg-muted/40 text-muted-foreground border-border/40' : ''}
+                          ${!mark ? 'bg-input border-border/70 hover:border-primary' : ''}
+                          ${knownMark ? 'cursor-default opacity-80' : ''}
+                        `}
+                        aria-label={`Position ${position + 1}, ${symbol}: ${mark || 'no mark'}${knownMark ? ' (from feedback)' : ''}`}
+                      >
+                        {mark === 'crossed' ? '×' : symbol}
+                      </button>
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </ScrollArea>
+    </div>
+  );
+}
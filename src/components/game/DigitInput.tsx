@@ -3,6 +3,8 @@
 import type React from 'react';
 import { useRef, ChangeEvent, KeyboardEvent, useEffect } from 'react';
 import { Input } from '@/components/ui/input';
+import type { CodeAlphabet } from '@/types/game';
+import { CODE_ALPHABETS } from '@/lib/gameLogic';
 
 interface DigitInputProps {
   count: number;
@@ -10,9 +12,10 @@ interface DigitInputProps {
   onChange: (values: string[]) => void;
   disabled?: boolean;
   ariaLabel?: string;
+  alphabet?: CodeAlphabet;
 }
 
-export default function DigitInput({ count, values, onChange, disabled = false, ariaLabel = "Enter digit" }: DigitInputProps) {
+export default function DigitInput({ count, values, onChange, disabled = false, ariaLabel = "Enter digit", alphabet = 'digits' }: DigitInputProps) {
   const inputRefs = useRef<Array<HTMLInputElement | null>>(Array(count).fill(null));
 
   useEffect(() => {
@@ -22,9 +25,9 @@ export default function DigitInput({ count, values, onChange, disabled = false,
   
   const handleChange = (index: number, event: ChangeEvent<HTMLInputElement>) => {
     const newValues = [...values];
-    const char = event.target.value.slice(-1); // Get last char in case of paste
+    const char = event.target.value.slice(-1).toUpperCase(); // Get last char in case of paste
 
-    if (/^[0-9]$/.test(char) || char === '') {
+    if (CODE_ALPHABETS[alphabet].includes(char) || char === '') {
       newValues[index] = char;
       onChange(newValues);
 
@@ -44,22 +47,27 @@ export default function DigitInput({ count, values, onChange, disabled = false,
     }
   };
 
+  const isNumeric = alphabet === 'digits';
+  const sizeClass = count > 6 ? "w-9 h-9 sm:w-11 sm:h-11 text-xl" : "w-12 h-12 sm:w-14 sm:h-14 text-2xl";
+
   return (
     <div className="flex space-x-2 justify-center">
       {Array.from({ length: count }).map((_, index) => (
         <Input
           key={index}
-          ref={el => inputRefs.current[index] = el}
-          type="tel" // Use "tel" for numeric keyboard on mobile
+          ref={el => { inputRefs.current[index] = el; }}
+          type={isNumeric ? "tel" : "text"} // Use "tel" for numeric keyboard on mobile
           maxLength={1}
           value={values[index] || ''}
           onChange={(e) => handleChange(index, e)}
           onKeyDown={(e) => handleKeyDown(index, e)}
           disabled={disabled}
-          className="w-12 h-12 sm:w-14 sm:h-14 text-center text-2xl font-bold rounded-md shadow-inner bg-input focus:bg-background focus:ring-primary"
+          className={`${sizeClass} text-center font-bold uppercase rounded-md shadow-inner bg-input focus:bg-background focus:ring-primary`}
           aria-label={`${ariaLabel} ${index + 1}`}
-          pattern="[0-9]*"
-          inputMode="numeric"
+          pattern={isNumeric ? "[0-9]*" : undefined}
+          inputMode={isNumeric ? "numeric" : "text"}
+          autoCapitalize="characters"
+          autoComplete="off"
         />
       ))}
     </div>
@@ -6,10 +6,14 @@ import { useAuth } from '@/contexts/AuthContext';
 import PlayerPanel from './PlayerPanel';
 import TurnIndicator from './TurnIndicator';
 import TimerDisplay from './TimerDisplay';
+import ChessClockDisplay from './ChessClockDisplay';
+import HintPanel from './HintPanel';
 import { Button } from '../ui/button';
 import { useRouter } from 'next/navigation';
-import { Award, Hourglass, RotateCcw } from 'lucide-react';
+import { Award, Download, Film, Hourglass, RotateCcw } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { AI_DIFFICULTY_LABELS } from '@/lib/solver';
+import { SINGLE_PLAYER_NOTEPAD_KEY, getNotepadStorageKey } from '@/lib/notepad';
 
 export default function GameBoard() {
   const { 
@@ -26,6 +30,18 @@ export default function GameBoard() {
     isInitialLoading,
     timeLeft,
     isTimerActive,
+    codeRules,
+    aiDifficulty,
+    gameSeed,
+    replayId,
+    exportGame,
+    turnSeconds,
+    clockMode,
+    chessClockMs,
+    feedbackMode,
+    hintsAllowed,
+    hintsUsed,
+    recordHintUsed,
   } = useGame();
   const { username } = useAuth();
   const router = useRouter();
@@ -59,6 +75,7 @@ export default function GameBoard() {
   }
   
   if (gameStatus === "GAME_OVER") {
+    const loserRanOutOfTime = clockMode === 'chess' && chessClockMs?.[winner === 'player' ? 'opponent' : 'player'] === 0;
     return (
       <Card className="w-full max-w-md mx-auto text-center shadow-xl">
         <CardHeader>
@@ -68,16 +85,28 @@ export default function GameBoard() {
           </CardTitle>
           <CardDescription className="pt-2">
             {winner === 'player' 
-              ? `Congratulations, ${username}! You guessed the number!` 
-              : `Better luck next time, ${username}! The Computer guessed the number.`}
+              ? (loserRanOutOfTime ? `Congratulations, ${username}! The Computer ran out of time.` : `Congratulations, ${username}! You guessed the number!`)
+              : (loserRanOutOfTime ? `Better luck next time, ${username}! You ran out of time.` : `Better luck next time, ${username}! The Computer guessed the number.`)}
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
           <p>Your Secret: <span className="font-mono text-primary">{playerSecret.join('')}</span></p>
           <p>Opponent's Secret: <span className="font-mono text-primary">{opponentSecret.join('')}</span></p>
+          <p>Computer Difficulty: <span className="font-semibold text-primary">{AI_DIFFICULTY_LABELS[aiDifficulty]}</span></p>
+          {gameSeed && <p className="text-xs text-muted-foreground">Game seed: <span className="font-mono">{gameSeed}</span></p>}
           <Button onClick={handleRestartGame} className="w-full" size="lg">
             <RotateCcw className="mr-2 h-5 w-5" /> Play Again
           </Button>
+          {replayId && (
+            <div className="grid grid-cols-2 gap-2">
+              <Button variant="outline" onClick={() => router.push(`/replay/${replayId}`)}>
+                <Film className="mr-2 h-5 w-5" /> Watch Replay
+              </Button>
+              <Button variant="outline" onClick={exportGame}>
+                <Download className="mr-2 h-5 w-5" /> Export Game
+              </Button>
+            </div>
+          )}
         </CardContent>
       </Card>
     );
@@ -93,20 +122,42 @@ export default function GameBoard() {
           currentPlayerName={currentTurn === 'player' ? playerPanelName : computerPanelName}
           isPlayerTurn={currentTurn === 'player'} 
         />
-        {gameStatus === "PLAYING" && !winner && (
+        {gameStatus === "PLAYING" && !winner && clockMode === 'chess' && chessClockMs && (
+          <ChessClockDisplay
+            clocks={[
+              { id: 'player', name: playerPanelName, remainingMs: chessClockMs.player, isRunning: currentTurn === 'player' },
+              { id: 'opponent', name: computerPanelName, remainingMs: chessClockMs.opponent, isRunning: currentTurn === 'opponent' },
+            ]}
+          />
+        )}
+        {gameStatus === "PLAYING" && !winner && clockMode === 'turn' && turnSeconds > 0 && (
           <TimerDisplay timeLeft={timeLeft} isTimerActive={isTimerActive} />
         )}
       </div>
       <div className="flex flex-col md:flex-row gap-4 sm:gap-6">
-        <PlayerPanel
-          playerName={playerPanelName}
-          isCurrentPlayer={true}
-          isPlayerTurn={currentTurn === 'player'}
-          guesses={playerGuesses}
-          onMakeGuess={makePlayerGuess}
-          isSubmitting={isSubmitting && currentTurn === 'player'}
-          secretForDisplay={playerSecret}
-        />
+        <div className="flex-1 w-full space-y-3">
+          <PlayerPanel
+            playerName={playerPanelName}
+            isCurrentPlayer={true}
+            isPlayerTurn={currentTurn === 'player'}
+            guesses={playerGuesses}
+            onMakeGuess={makePlayerGuess}
+            isSubmitting={isSubmitting && currentTurn === 'player'}
+            secretForDisplay={playerSecret}
+            codeRules={codeRules}
+            notepadKey={gameSeed ? getNotepadStorageKey(SINGLE_PLAYER_NOTEPAD_KEY, gameSeed) : undefined}
+          />
+          {hintsAllowed && gameStatus === "PLAYING" && !winner && (
+            <HintPanel
+              guesses={playerGuesses}
+              codeRules={codeRules}
+              feedbackMode={feedbackMode}
+              hintsUsed={hintsUsed}
+              onUseHint={recordHintUsed}
+              disabled={currentTurn !== 'player' || isSubmitting}
+            />
+          )}
+        </div>
         <PlayerPanel
           playerName={computerPanelName}
           isCurrentPlayer={false} 
@@ -115,6 +166,7 @@ export default function GameBoard() {
           onMakeGuess={() => {}} 
           isSubmitting={false} 
           secretForDisplay={opponentSecret} 
+          codeRules={codeRules}
         />
       </div>
       {isSubmitting && currentTurn === 'opponent' && (
@@ -6,24 +6,40 @@ import type { Guess } from '@/types/game';
 interface GuessDisplayProps {
   guess: Guess;
   isPlayerGuess?: boolean; // To slightly differentiate styling or context if needed
+  guessNumber?: number; // 1-based position in the history
 }
 
-export default function GuessDisplay({ guess, isPlayerGuess = false }: GuessDisplayProps) {
+export default function GuessDisplay({ guess, isPlayerGuess = false, guessNumber }: GuessDisplayProps) {
   return (
     <div className={`flex items-center space-x-1.5 p-2 rounded-md mb-2 ${isPlayerGuess ? 'bg-secondary/30' : 'bg-muted/30'}`}>
+      {guessNumber !== undefined && (
+        <span className="w-7 text-xs text-muted-foreground text-right">#{guessNumber}</span>
+      )}
       {guess.value.split('').map((digit, index) => ( 
         <div
           key={index}
           className={`w-10 h-10 sm:w-12 sm:h-12 flex items-center justify-center text-xl sm:text-2xl font-bold rounded-md border-2 transition-all duration-300
             ${guess.feedback[index] 
               ? 'bg-primary text-primary-foreground border-primary animate-digit-lock' 
-              : 'bg-input text-foreground border-border/70'
+              : 'bg-input text-muted-foreground border-border/70'
             }
           `}
+          aria-label={`${digit}${guess.feedback[index] ? ' locked' : ''}`}
         >
-          {guess.feedback[index] ? digit : ''}
+          {digit}
         </div>
       ))}
+      {guess.misplaced !== undefined && (
+        <div
+          className={`ml-1 flex items-center justify-center h-8 min-w-8 px-2 rounded-full text-sm font-semibold border
+            ${guess.misplaced > 0 ? 'bg-accent/20 text-accent border-accent' : 'bg-muted/40 text-muted-foreground border-border/70'}
+          `}
+          title={`${guess.misplaced} right digit${guess.misplaced === 1 ? '' : 's'} in the wrong place`}
+          aria-label={`${guess.misplaced} misplaced`}
+        >
+          {guess.misplaced}
+        </div>
+      )}
     </div>
   );
 }
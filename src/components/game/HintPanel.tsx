@@ -0,0 +1,78 @@
+"use client";
+import type React from 'react';
+import { useMemo, useState } from 'react';
+import type { CodeRules, FeedbackMode, Guess } from '@/types/game';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { buildHint, countCandidates, type Hint } from '@/lib/hints';
+import { Lightbulb } from 'lucide-react';
+
+interface HintPanelProps {
+  guesses: Guess[]; // Guesses against the secret being cracked
+  codeRules: CodeRules;
+  feedbackMode: FeedbackMode;
+  hintsUsed: number;
+  onUseHint: () => boolean | Promise<boolean>; // Counts the hint; it is only shown once this returns true
+  disabled?: boolean; // E.g. while it is not the player's turn
+}
+
+export default function HintPanel({ guesses, codeRules, feedbackMode, hintsUsed, onUseHint, disabled = false }: HintPanelProps) {
+  const [revealed, setRevealed] = useState<{ guessCount: number; hint: Hint } | null>(null);
+  const [isRequesting, setIsRequesting] = useState(false);
+  const candidates = useMemo(() => countCandidates(guesses, codeRules), [guesses, codeRules]);
+  // A hint only holds until the next guess arrives
+  const hint = revealed && revealed.guessCount === guesses.length ? revealed.hint : null;
+
+  const handleUseHint = async () => {
+    setIsRequesting(true);
+    try {
+      if (!(await onUseHint())) return;
+    } finally {
+      setIsRequesting(false);
+    }
+    setRevealed({ guessCount: guesses.length, hint: buildHint(guesses, codeRules, feedbackMode) });
+  };
+
+  return (
+    <Card className="w-full border-border">
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center text-base">
+          <Lightbulb className="mr-2 h-4 w-4 text-primary" /> Assist
+        </CardTitle>
+        <CardDescription>
+          {candidates.isExact ? '' : 'At most '}
+          <span className="font-mono font-semibold text-foreground">{candidates.count.toLocaleString()}</span>
+          {' '}{candidates.count === 1 ? 'code is' : 'codes are'} still possible.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {hint && (
+          <div className="space-y-2">
+            <div className="flex justify-center gap-1.5">
+              {hint.positionOptions.map((options, position) => (
+                <div
+                  key={position}
+                  className={`w-10 h-10 flex flex-col items-center justify-center rounded-md border-2 font-mono
+                    ${options.length === 1 ? 'bg-primary text-primary-foreground border-primary text-lg font-bold' : 'bg-input border-border/70 text-[10px] text-muted-foreground'}
+                  `}
+                  title={options.length === 1 ? 'Confirmed' : `Still possible: ${options.join(', ')}`}
+                >
+                  {options.length === 1 ? options[0] : `${options.length} left`}
+                </div>
+              ))}
+            </div>
+            <p className="text-sm text-center">
+              Suggested guess: <span className="font-mono font-semibold text-primary">{hint.suggestion}</span>
+            </p>
+          </div>
+        )}
+        <Button type="button" variant="outline" size="sm" className="w-full" onClick={handleUseHint} disabled={disabled || isRequesting || !!hint}>
+          {hint ? 'Make a guess for a new hint' : isRequesting ? 'Requesting...' : 'Show Hint'}
+        </Button>
+        <p className="text-xs text-muted-foreground text-center">
+          Hints used: {hintsUsed}. A game with hints counts as assisted.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
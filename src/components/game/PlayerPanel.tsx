@@ -1,16 +1,17 @@
 
 "use client";
 import type React from 'react';
-import { useState } from 'react';
-import type { Guess } from '@/types/game';
+import { useState, useEffect, useMemo } from 'react';
+import type { CodeRules, Guess } from '@/types/game';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import DigitInput from './DigitInput';
 import GuessDisplay from './GuessDisplay';
-import { Send, UserCircle2 } from 'lucide-react';
+import DeductionNotepad from './DeductionNotepad';
+import { AlertTriangle, Send, UserCircle2 } from 'lucide-react';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { useToast } from '@/hooks/use-toast';
-import { CODE_LENGTH, isValidDigitSequence } from '@/lib/gameLogic'; 
+import { DEFAULT_CODE_RULES, describeCodeRules, describeGuessContradiction, findGuessContradictions, isValidDigitSequence } from '@/lib/gameLogic'; 
 
 interface PlayerPanelProps {
   playerName: string;
@@ -20,6 +21,10 @@ interface PlayerPanelProps {
   onMakeGuess: (guess: string) => void;
   isSubmitting: boolean;
   secretForDisplay?: string[];
+  codeRules?: CodeRules;
+  notepadKey?: string; // Shows the deduction notepad, stored under this localStorage key
+  targetGuesses?: Guess[]; // Guesses against the secret being cracked, for the notepad and the contradiction check; defaults to guesses
+  rejectContradictions?: boolean; // Hardcore: guesses that go against earlier feedback cannot be submitted
 }
 
 export default function PlayerPanel({
@@ -30,16 +35,32 @@ export default function PlayerPanel({
   onMakeGuess,
   isSubmitting,
   secretForDisplay,
+  codeRules = DEFAULT_CODE_RULES,
+  notepadKey,
+  targetGuesses,
+  rejectContradictions = false,
 }: PlayerPanelProps) {
-  const [currentGuess, setCurrentGuess] = useState<string[]>(Array(CODE_LENGTH).fill(''));
+  const codeLength = codeRules.length;
+  const [currentGuess, setCurrentGuess] = useState<string[]>(Array(codeLength).fill(''));
   const { toast } = useToast();
 
+  useEffect(() => {
+    setCurrentGuess(Array(codeLength).fill(''));
+  }, [codeLength]);
+
+  const knownGuesses = targetGuesses || guesses;
+  const contradictions = useMemo(
+    () => (isCurrentPlayer ? findGuessContradictions(currentGuess, knownGuesses) : []),
+    [isCurrentPlayer, currentGuess, knownGuesses]
+  );
+  const contradictionText = contradictions.map(describeGuessContradiction).join('; ');
+
   const handleGuessSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (currentGuess.some(digit => digit === '') || currentGuess.length !== CODE_LENGTH) {
+    if (currentGuess.some(digit => digit === '') || currentGuess.length !== codeLength) {
       toast({
         title: "Invalid Guess",
-        description: `Please enter all ${CODE_LENGTH} digits for your guess.`,
+        description: `Please enter all ${codeLength} characters of your ${describeCodeRules(codeRules)} guess.`,
         variant: "destructive",
       });
       return;
@@ -47,13 +68,21 @@ export default function PlayerPanel({
     if (!isValidDigitSequence(currentGuess)) {
       toast({
         title: "Invalid Guess Pattern",
-        description: `Guess cannot have 3 or 4 identical consecutive digits (e.g., no "0001" or "1111").`,
+        description: `Guess cannot have 3 or more identical consecutive characters (e.g., no "0001" or "1111").`,
+        variant: "destructive",
+      });
+      return;
+    }
+    if (rejectContradictions && contradictions.length > 0) {
+      toast({
+        title: "Guess Contradicts Feedback",
+        description: `Hardcore room: ${contradictionText}.`,
         variant: "destructive",
       });
       return;
     }
     onMakeGuess(currentGuess.join(''));
-    setCurrentGuess(Array(CODE_LENGTH).fill('')); 
+    setCurrentGuess(Array(codeLength).fill('')); 
   };
 
   const canMakeGuess = isCurrentPlayer && isPlayerTurn && !isSubmitting;
@@ -65,34 +94,48 @@ export default function PlayerPanel({
           <UserCircle2 className={`mr-2 h-6 w-6 sm:h-7 sm:h-7 ${isCurrentPlayer ? 'text-primary' : ''}`} />
           {playerName} {isCurrentPlayer && "(You)"}
         </CardTitle>
-        {secretForDisplay && secretForDisplay.length === CODE_LENGTH && (
+        {secretForDisplay && secretForDisplay.length === codeLength && (
           <CardDescription className="text-xs font-mono pt-1">
-            Secret Code: {isCurrentPlayer ? secretForDisplay.join('') : '****'}
+            Secret Code: {isCurrentPlayer ? secretForDisplay.join('') : '*'.repeat(codeLength)}
           </CardDescription>
         )}
       </CardHeader>
       <CardContent className="space-y-4">
-        <div className="h-48"> {/* Reduced height from h-64 to h-48 */}
-          <ScrollArea className="h-full pr-3">
-            {guesses.length === 0 && (
-              <p className="text-muted-foreground text-center py-8">No guesses made yet.</p>
-            )}
-            {guesses.slice(-5).reverse().map((guess, index) => (
-              <GuessDisplay key={`${guess.value}-${guesses.length - 1 - index}-${playerName}`} guess={guess} isPlayerGuess={isCurrentPlayer} />
-            ))}
-          </ScrollArea>
+        <div className={notepadKey ? 'grid grid-cols-1 xl:grid-cols-2 gap-3' : ''}>
+          <div className="h-48"> {/* Reduced height from h-64 to h-48 */}
+            <ScrollArea className="h-full pr-3">
+              {guesses.length === 0 && (
+                <p className="text-muted-foreground text-center py-8">No guesses made yet.</p>
+              )}
+              {guesses.map((guess, index) => ({ guess, guessNumber: index + 1 })).reverse().map(({ guess, guessNumber }) => (
+                <GuessDisplay key={`${guess.value}-${guessNumber}-${playerName}`} guess={guess} isPlayerGuess={isCurrentPlayer} guessNumber={guessNumber} />
+              ))}
+            </ScrollArea>
+          </div>
+          {notepadKey && (
+            <div className="h-48">
+              <DeductionNotepad key={notepadKey} storageKey={notepadKey} codeRules={codeRules} knownGuesses={knownGuesses} />
+            </div>
+          )}
         </div>
 
         {isCurrentPlayer && (
           <form onSubmit={handleGuessSubmit} className="space-y-3 pt-4 border-t border-border/50">
             <DigitInput
-              count={CODE_LENGTH}
+              count={codeLength}
+              alphabet={codeRules.alphabet}
               values={currentGuess}
               onChange={setCurrentGuess}
               disabled={!canMakeGuess}
               ariaLabel="Guess digit"
             />
-            <Button type="submit" className="w-full" disabled={!canMakeGuess} size="lg">
+            {contradictions.length > 0 && (
+              <p className={`flex items-start text-sm ${rejectContradictions ? 'text-destructive' : 'text-accent'}`} role="alert">
+                <AlertTriangle className="mr-2 mt-0.5 h-4 w-4 shrink-0" />
+                <span>{rejectContradictions ? 'Not allowed in hardcore: ' : 'Heads up: '}{contradictionText}.</span>
+              </p>
+            )}
+            <Button type="submit" className="w-full" disabled={!canMakeGuess || (rejectContradictions && contradictions.length > 0)} size="lg">
               <Send className="mr-2 h-4 w-4" /> {isSubmitting ? 'Submitting...' : 'Make Guess'}
             </Button>
           </form>
@@ -1,35 +1,54 @@
 
 "use client";
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import DigitInput from './DigitInput';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
 import { useGame } from '@/contexts/GameContext';
 import { LockKeyhole, ArrowLeft } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { CODE_LENGTH, isValidDigitSequence } from '@/lib/gameLogic';
+import {
+  CODE_ALPHABET_LABELS,
+  FEEDBACK_MODE_LABELS,
+  MAX_CODE_LENGTH,
+  MIN_CODE_LENGTH,
+  SECRET_PROFILE_LABELS,
+  describeCodeRules,
+  isValidCode,
+} from '@/lib/gameLogic';
+import { AI_DIFFICULTY_LABELS } from '@/lib/solver';
+import { CHESS_BUDGET_OPTIONS, CHESS_INCREMENT_OPTIONS, CLOCK_MODE_LABELS, TURN_TIME_OPTIONS, formatTurnTime } from '@/lib/turnClock';
+import type { AIDifficulty, ClockMode, CodeAlphabet, FeedbackMode, SecretProfile } from '@/types/game';
 import { useRouter } from 'next/navigation';
 
 export default function SecretSetupForm() {
-  const [secretDigits, setSecretDigits] = useState<string[]>(Array(CODE_LENGTH).fill(''));
-  const { submitPlayerSecret, isSubmitting } = useGame();
+  const { submitPlayerSecret, isSubmitting, feedbackMode, setFeedbackMode, codeRules, setCodeRules, aiDifficulty, setAiDifficulty, secretProfile, setSecretProfile, turnSeconds, setTurnSeconds, clockMode, setClockMode, budgetSeconds, setBudgetSeconds, incrementSeconds, setIncrementSeconds, hintsAllowed, setHintsAllowed } = useGame();
+  const [secretDigits, setSecretDigits] = useState<string[]>(Array(codeRules.length).fill(''));
   const { toast } = useToast();
   const router = useRouter();
 
+  useEffect(() => {
+    setSecretDigits(Array(codeRules.length).fill(''));
+  }, [codeRules.length, codeRules.alphabet]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (secretDigits.some(digit => digit === '') || secretDigits.length !== CODE_LENGTH) {
+    if (secretDigits.some(digit => digit === '') || secretDigits.length !== codeRules.length) {
       toast({
         title: "Invalid Secret",
-        description: `Please enter all ${CODE_LENGTH} digits for your secret number.`,
+        description: `Please enter all ${codeRules.length} characters of your secret code.`,
         variant: "destructive",
       });
       return;
     }
-    if (!isValidDigitSequence(secretDigits)) {
+    if (!isValidCode(secretDigits, codeRules)) {
       toast({
         title: "Invalid Secret Pattern",
-        description: `Code cannot have 3 or 4 identical consecutive digits (e.g., no "0001" or "1111").`,
+        description: `Code cannot have 3 or more identical consecutive characters (e.g., no "0001" or "1111").`,
         variant: "destructive",
       });
       return;
@@ -57,18 +76,172 @@ export default function SecretSetupForm() {
           <div className="w-10 ml-2 shrink-0"> {/* Spacer to balance the back button */}</div>
         </div>
         <CardDescription className="text-center pt-1">
-          Enter a {CODE_LENGTH}-digit number (0-9, repetition allowed, but no 3 or 4 identical in a row).
+          Enter a {describeCodeRules(codeRules)} code (repetition allowed, but no 3 identical in a row).
         </CardDescription>
       </CardHeader>
       <CardContent>
         <form onSubmit={handleSubmit} className="space-y-6">
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="code-length-select">Code Length</Label>
+              <Select
+                value={String(codeRules.length)}
+                onValueChange={(value) => setCodeRules({ ...codeRules, length: Number(value) })}
+                disabled={isSubmitting}
+              >
+                <SelectTrigger id="code-length-select"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {Array.from({ length: MAX_CODE_LENGTH - MIN_CODE_LENGTH + 1 }, (_, i) => MIN_CODE_LENGTH + i).map(length => (
+                    <SelectItem key={length} value={String(length)}>{length}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="code-alphabet-select">Characters</Label>
+              <Select
+                value={codeRules.alphabet}
+                onValueChange={(value) => setCodeRules({ ...codeRules, alphabet: value as CodeAlphabet })}
+                disabled={isSubmitting}
+              >
+                <SelectTrigger id="code-alphabet-select"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(CODE_ALPHABET_LABELS) as CodeAlphabet[]).map(alphabet => (
+                    <SelectItem key={alphabet} value={alphabet}>{CODE_ALPHABET_LABELS[alphabet]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
           <DigitInput
-            count={CODE_LENGTH}
+            count={codeRules.length}
+            alphabet={codeRules.alphabet}
             values={secretDigits}
             onChange={setSecretDigits}
             disabled={isSubmitting}
             ariaLabel="Secret digit"
           />
+          <div className="space-y-2">
+            <Label>Feedback</Label>
+            <RadioGroup
+              value={feedbackMode}
+              onValueChange={(value) => setFeedbackMode(value as FeedbackMode)}
+              className="grid grid-cols-2 gap-2"
+              disabled={isSubmitting}
+            >
+              {(Object.keys(FEEDBACK_MODE_LABELS) as FeedbackMode[]).map(mode => (
+                <Label key={mode} htmlFor={`feedback-mode-${mode}`} className="flex items-center space-x-2 rounded-md border p-3 cursor-pointer">
+                  <RadioGroupItem value={mode} id={`feedback-mode-${mode}`} />
+                  <span>{FEEDBACK_MODE_LABELS[mode]}</span>
+                </Label>
+              ))}
+            </RadioGroup>
+          </div>
+          <div className="space-y-2">
+            <Label>Computer Difficulty</Label>
+            <RadioGroup
+              value={aiDifficulty}
+              onValueChange={(value) => setAiDifficulty(value as AIDifficulty)}
+              className="grid grid-cols-2 gap-2"
+              disabled={isSubmitting}
+            >
+              {(Object.keys(AI_DIFFICULTY_LABELS) as AIDifficulty[]).map(difficulty => (
+                <Label key={difficulty} htmlFor={`ai-difficulty-${difficulty}`} className="flex items-center space-x-2 rounded-md border p-3 cursor-pointer">
+                  <RadioGroupItem value={difficulty} id={`ai-difficulty-${difficulty}`} />
+                  <span>{AI_DIFFICULTY_LABELS[difficulty]}</span>
+                </Label>
+              ))}
+            </RadioGroup>
+          </div>
+          <div className="flex items-center justify-between rounded-md border p-3">
+            <Label htmlFor="hints-switch" className="cursor-pointer">
+              <span className="block">Allow Hints</span>
+              <span className="block text-xs font-normal text-muted-foreground">See how many codes are left and ask for hints; the result counts as assisted</span>
+            </Label>
+            <Switch id="hints-switch" checked={hintsAllowed} onCheckedChange={setHintsAllowed} disabled={isSubmitting} />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="secret-profile-select">Computer&apos;s Secret</Label>
+              <Select
+                value={secretProfile}
+                onValueChange={(value) => setSecretProfile(value as SecretProfile)}
+                disabled={isSubmitting}
+              >
+                <SelectTrigger id="secret-profile-select"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(SECRET_PROFILE_LABELS) as SecretProfile[]).map(profile => (
+                    <SelectItem key={profile} value={profile}>{SECRET_PROFILE_LABELS[profile]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="clock-mode-select">Clock</Label>
+              <Select
+                value={clockMode}
+                onValueChange={(value) => setClockMode(value as ClockMode)}
+                disabled={isSubmitting}
+              >
+                <SelectTrigger id="clock-mode-select"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(CLOCK_MODE_LABELS) as ClockMode[]).map(mode => (
+                    <SelectItem key={mode} value={mode}>{CLOCK_MODE_LABELS[mode]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {clockMode === 'chess' ? (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="chess-budget-select">Time per Side</Label>
+                  <Select
+                    value={String(budgetSeconds)}
+                    onValueChange={(value) => setBudgetSeconds(Number(value))}
+                    disabled={isSubmitting}
+                  >
+                    <SelectTrigger id="chess-budget-select"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {CHESS_BUDGET_OPTIONS.map(seconds => (
+                        <SelectItem key={seconds} value={String(seconds)}>{formatTurnTime(seconds)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="chess-increment-select">Increment per Guess</Label>
+                  <Select
+                    value={String(incrementSeconds)}
+                    onValueChange={(value) => setIncrementSeconds(Number(value))}
+                    disabled={isSubmitting}
+                  >
+                    <SelectTrigger id="chess-increment-select"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {CHESS_INCREMENT_OPTIONS.map(seconds => (
+                        <SelectItem key={seconds} value={String(seconds)}>{seconds > 0 ? `+${seconds}s` : 'None'}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </>
+            ) : (
+              <div className="space-y-2">
+                <Label htmlFor="turn-time-select">Turn Time</Label>
+                <Select
+                  value={String(turnSeconds)}
+                  onValueChange={(value) => setTurnSeconds(Number(value))}
+                  disabled={isSubmitting}
+                >
+                  <SelectTrigger id="turn-time-select"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {TURN_TIME_OPTIONS.map(seconds => (
+                      <SelectItem key={seconds} value={String(seconds)}>{formatTurnTime(seconds)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
           <Button type="submit" className="w-full" disabled={isSubmitting} size="lg">
             {isSubmitting ? 'Submitting...' : 'Confirm Secret'}
           </Button>
@@ -0,0 +1,62 @@
+"use client";
+import type React from 'react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { describeSeries, getWinsNeeded } from '@/lib/series';
+import type { SeriesGameResult } from '@/types/game';
+
+export interface SeriesPlayer {
+  id: string;
+  name: string;
+}
+
+interface SeriesScoreboardProps {
+  bestOf: number;
+  players: SeriesPlayer[];
+  seriesScore: { [playerId: string]: number };
+  seriesGames: SeriesGameResult[];
+  showGames?: boolean; // Also list every finished game with the guess counts of each player
+}
+
+export default function SeriesScoreboard({ bestOf, players, seriesScore, seriesGames, showGames = false }: SeriesScoreboardProps) {
+  const winsNeeded = getWinsNeeded(bestOf);
+  return (
+    <div className="w-full space-y-2">
+      <p className="text-xs text-muted-foreground text-center">
+        {describeSeries(bestOf)} · first to {winsNeeded} {winsNeeded === 1 ? 'win' : 'wins'}
+      </p>
+      <div className="flex flex-wrap justify-center gap-2">
+        {players.map(player => (
+          <div key={player.id} className="px-3 py-1 rounded-md border border-border/60 text-center">
+            <div className="text-xs text-muted-foreground truncate max-w-[8rem]">{player.name}</div>
+            <span className="text-xl font-mono font-semibold">{seriesScore[player.id] || 0}</span>
+          </div>
+        ))}
+      </div>
+      {showGames && seriesGames.length > 0 && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Game</TableHead>
+              {players.map(player => <TableHead key={player.id} className="text-right">{player.name}</TableHead>)}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {seriesGames.map(game => (
+              <TableRow key={game.gameNumber}>
+                <TableCell>#{game.gameNumber}</TableCell>
+                {players.map(player => (
+                  <TableCell key={player.id} className={`text-right ${game.winner === player.id ? 'font-semibold text-primary' : ''}`}>
+                    {game.guessCounts[player.id] ?? '-'} {game.winner === player.id && '★'}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+      {showGames && seriesGames.length > 0 && (
+        <p className="text-xs text-muted-foreground text-center">Guesses per game. ★ marks the winner.</p>
+      )}
+    </div>
+  );
+}
@@ -8,7 +8,7 @@ import Image from "next/image";
 import HowToPlayDialog from "./HowToPlayDialog"; // Import the new dialog
 
 export default function Header() {
-  const { exitGame, gameStatus } = useGame();
+  const { exitGame, gameStatus, feedbackMode } = useGame();
 
   return (
     <header className="py-4 px-4 sm:px-6 md:px-8 border-b border-border/50">
@@ -17,7 +17,7 @@ export default function Header() {
           <Image src="/logo.svg" alt="4Sure Logo" width={100} height={30} priority />
         </Link>
         <div className="flex items-center gap-2">
-          <HowToPlayDialog /> 
+          <HowToPlayDialog feedbackMode={gameStatus === "PLAYING" ? feedbackMode : undefined} /> 
           {(gameStatus !== "SETUP_PLAYER" && gameStatus !== "WAITING_OPPONENT_SECRET") && (
             <Button variant="destructive" onClick={exitGame} size="sm">
               <LogOut className="mr-2 h-4 w-4" /> Exit Game
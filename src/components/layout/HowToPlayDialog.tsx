@@ -14,8 +14,14 @@ import {
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { HelpCircle } from "lucide-react";
+import type { FeedbackMode } from "@/types/game";
+import { FEEDBACK_MODE_LABELS } from "@/lib/gameLogic";
 
-export default function HowToPlayDialog() {
+interface HowToPlayDialogProps {
+  feedbackMode?: FeedbackMode; // Ruleset of the game in progress, if any
+}
+
+export default function HowToPlayDialog({ feedbackMode }: HowToPlayDialogProps) {
   return (
     <Dialog>
       <DialogTrigger asChild>
@@ -34,6 +40,11 @@ export default function HowToPlayDialog() {
         
         <ScrollArea className="flex-grow pr-6 -mr-2 overflow-y-auto"> {/* Adjusted for better scrollbar visibility */}
           <div className="space-y-4 text-sm text-foreground/90 py-2">
+            {feedbackMode && (
+              <p className="rounded-md border border-primary/60 bg-primary/10 p-3">
+                This game uses the <strong>{FEEDBACK_MODE_LABELS[feedbackMode]}</strong> ruleset.
+              </p>
+            )}
             <h3 className="font-semibold text-lg mt-2 text-accent">Game Overview</h3>
             <p>
               4Sure is a turn-based number guessing game. Each player sets a secret 4-digit code. 
@@ -43,8 +54,8 @@ export default function HowToPlayDialog() {
 
             <h3 className="font-semibold text-lg mt-3 text-accent">Core Rules (Apply to All Modes)</h3>
             <ul className="list-disc pl-5 space-y-1">
-              <li><strong>Code Length</strong>: All secret codes and guesses must be 4 digits long.</li>
-              <li><strong>Digits</strong>: Use digits from 0 to 9.</li>
+              <li><strong>Code Length</strong>: All secret codes and guesses must be 4 characters long by default. The length (3 to 8) can be changed on the setup page or by the host.</li>
+              <li><strong>Characters</strong>: Use digits from 0 to 9 by default, or hexadecimal (0-9, A-F) or letters (A-Z) when chosen.</li>
               <li>
                 <strong>No Triplicates/Quadruplicates</strong>: Codes and guesses <strong>cannot</strong> have 
                 three (e.g., "1112") or four (e.g., "0000") identical consecutive digits. 
@@ -56,6 +67,19 @@ export default function HowToPlayDialog() {
               </li>
             </ul>
 
+            <h3 className="font-semibold text-lg mt-3 text-accent">Rulesets</h3>
+            <ul className="list-disc pl-5 space-y-1">
+              <li>
+                <strong>{FEEDBACK_MODE_LABELS['exact']}</strong> (default): only digits in the correct position are revealed. 
+                There is no hint for a correct digit in the wrong position.
+              </li>
+              <li>
+                <strong>{FEEDBACK_MODE_LABELS['bulls-cows']}</strong>: correctly placed digits are revealed as usual, and a 
+                counter next to each guess shows how many other digits are in the code but in the wrong position.
+              </li>
+              <li>The ruleset is picked on the setup page (single player) or by the host when creating a room (multiplayer).</li>
+            </ul>
+
             <h3 className="font-semibold text-lg mt-3 text-accent">Single Player Mode (vs. Computer)</h3>
             <ol className="list-decimal pl-5 space-y-1">
               <li><strong>Login</strong>: Choose a username on the main page.</li>
@@ -72,6 +96,10 @@ export default function HowToPlayDialog() {
                     You have <strong>20 seconds</strong> per turn. If the timer runs out, your turn is skipped. 
                     The timer turns red and pulses when 5 seconds or less remain.
                   </li>
+                  <li>
+                    With a <strong>chess clock</strong>, you and the computer each get one time budget for the whole game instead.
+                    Your clock only runs on your turn, an optional increment is added after every guess, and whoever runs out first loses.
+                  </li>
                   <li>On your turn, use the input boxes to enter your 4-digit guess for the computer&apos;s code and click "Make Guess".</li>
                   <li>The computer will then take its turn to guess your code.</li>
                 </ul>
@@ -85,7 +113,7 @@ export default function HowToPlayDialog() {
               <li><strong>Mode Select</strong>: After login, pick "Multiplayer".</li>
               <li><strong>Setup</strong>:
                 <ul className="list-disc pl-5 space-y-1 mt-1">
-                  <li>Choose player count (currently Duo - 2 Players).</li>
+                  <li>Choose player count: Duo (2), Trio (3) or Quads (4).</li>
                   <li>
                     Either "Host New Game" (a Game ID will be generated for you to share with the other player) 
                     or "Join Existing Game" (enter a Game ID shared by a host).
@@ -105,16 +133,29 @@ export default function HowToPlayDialog() {
               <li><strong>Gameplay</strong>:
                 <ul className="list-disc pl-5 space-y-1 mt-1">
                   <li>The game assigns each player an opponent (in Duo mode, it&apos;s the other player).</li>
+                  <li>
+                    In Trio and Quads, the host chooses <strong>Ring</strong> (you guess the next player&apos;s code and turns
+                    pass around the ring) or <strong>Free-for-all</strong> (pick any remaining opponent each turn).
+                  </li>
+                  <li>
+                    When a code is cracked, either the cracked player is <strong>eliminated</strong> and the cracker takes over
+                    their target, or the cracker <strong>finishes</strong> in the next place and the rest play on.
+                  </li>
                   <li>The game board shows your panel and your opponent&apos;s panel. Your secret code is visible to you.</li>
                   <li>A turn indicator shows whose turn it is.</li>
                   <li>
-                    You have <strong>30 seconds</strong> per turn. If the timer runs out, your turn is skipped.
-                    The timer display will alert you when time is low.
+                    The host picks the turn time (<strong>30 seconds</strong> by default, or untimed) and what a timeout does:
+                    your turn is <strong>skipped</strong>, you <strong>forfeit</strong> after several timeouts in a row, or the
+                    overtime is taken from your <strong>time bank</strong> until it is empty. The timer display will alert you when time is low.
+                  </li>
+                  <li>
+                    The host can pick a <strong>chess clock</strong> instead: every player gets the same total time for the game, plus an
+                    optional increment per guess. Your clock only runs on your turn, and running out of time means you lose.
                   </li>
                   <li>On your turn, enter your 4-digit guess for your opponent&apos;s code and click "Make Guess".</li>
                 </ul>
               </li>
-              <li><strong>Winning</strong>: The first player to guess their designated opponent&apos;s code correctly wins the game! A dialog will announce the winner.</li>
+              <li><strong>Winning</strong>: In Duo, the first player to guess their designated opponent&apos;s code correctly wins the game! In Trio and Quads, play continues until a final winner and a full ranking are decided.</li>
             </ol>
           </div>
         </ScrollArea>
@@ -0,0 +1,76 @@
+"use client";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertTriangle, BarChart3 } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { formatDuration } from "@/lib/daily";
+import { GAME_MODE_LABELS, getAverageGuesses } from "@/lib/profile";
+import type { GameModeKey } from "@/types/game";
+
+export default function ProfileStatsDialog() {
+  const { profile, isProfileLocked, startNewProfile } = useAuth();
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" disabled={!profile}>
+          {isProfileLocked ? <AlertTriangle className="mr-2 h-4 w-4 text-destructive" /> : <BarChart3 className="mr-2 h-4 w-4" />}
+          Your Stats
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[600px]">
+        <DialogHeader>
+          <DialogTitle className="text-2xl text-primary">{profile?.username || "Player"}&apos;s Stats</DialogTitle>
+          <DialogDescription>
+            Current win streak: {profile?.currentStreak ?? 0} · Longest: {profile?.longestStreak ?? 0}
+          </DialogDescription>
+        </DialogHeader>
+        {isProfileLocked && (
+          <div className="rounded-md border border-destructive/50 bg-destructive/10 p-3 text-sm">
+            <p className="mb-2">
+              <AlertTriangle className="mr-1 inline h-4 w-4 text-destructive" />
+              Your stats are not being saved online: this profile was first saved from another browser, or this browser lost its profile key.
+              Your results will not count towards the leaderboard until you start a new online profile. Your stats on this device are kept.
+            </p>
+            <Button variant="destructive" size="sm" onClick={startNewProfile}>Start a New Online Profile</Button>
+          </div>
+        )}
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Mode</TableHead>
+              <TableHead className="text-right">Played</TableHead>
+              <TableHead className="text-right">W / L</TableHead>
+              <TableHead className="text-right">Avg. Guesses</TableHead>
+              <TableHead className="text-right">Fastest</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {(Object.keys(GAME_MODE_LABELS) as GameModeKey[]).map(mode => {
+              const stats = profile?.stats[mode];
+              const averageGuesses = getAverageGuesses(stats);
+              return (
+                <TableRow key={mode}>
+                  <TableCell>{GAME_MODE_LABELS[mode]}</TableCell>
+                  <TableCell className="text-right">{stats?.played ?? 0}</TableCell>
+                  <TableCell className="text-right">{stats?.wins ?? 0} / {stats?.losses ?? 0}</TableCell>
+                  <TableCell className="text-right">{averageGuesses === null ? '-' : averageGuesses.toFixed(1)}</TableCell>
+                  <TableCell className="text-right font-mono">{stats?.fastestSolveMs === undefined ? '-' : formatDuration(stats.fastestSolveMs)}</TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </DialogContent>
+    </Dialog>
+  );
+}
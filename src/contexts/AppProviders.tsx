@@ -1,15 +1,17 @@
-
 "use client";
 import type React from 'react';
 import { AuthProvider } from './AuthContext';
 import { GameProvider } from './GameContext';
+import { RandomProvider } from './RandomContext';
 
 export const AppProviders: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   return (
-    <AuthProvider>
-      <GameProvider>
-        {children}
-      </GameProvider>
-    </AuthProvider>
+    <RandomProvider seed={process.env.NEXT_PUBLIC_RANDOM_SEED}>
+      <AuthProvider>
+        <GameProvider>
+          {children}
+        </GameProvider>
+      </AuthProvider>
+    </RandomProvider>
   );
 };
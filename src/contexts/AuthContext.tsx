@@ -4,9 +4,21 @@ import type React from 'react';
 import { createContext, useContext, useState, useEffect, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
 import useLocalStorage from '@/hooks/useLocalStorage';
+import { generateGuestUsername } from '@/lib/gameLogic';
+import { PROFILE_KEY_HEADER, applyGameResult, createPlayerProfile, createProfileId, pickNewerProfile } from '@/lib/profile';
+import type { GameResultSummary, PlayerProfile, ProfileSaveResponse } from '@/types/game';
+import { useRandom } from './RandomContext';
 
 interface AuthContextType {
   username: string | null;
+  profile: PlayerProfile | null;
+  // Proves ownership of the profile; results are only attributed to the profile when it is sent
+  profileKey: string | null;
+  // True when the server refuses to save the profile because this browser does not have its key
+  isProfileLocked: boolean;
+  // Moves the local profile to a new profile ID, which gets a new key on its first save
+  startNewProfile: () => void;
+  recordGameResult: (result: GameResultSummary) => void;
   login: (customUsername?: string) => void;
   logout: () => void;
   isLoggedIn: boolean;
@@ -17,9 +29,16 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [username, setUsername] = useLocalStorage<string | null>('numberlock-username', null);
+  // The profile outlives logout: it is keyed by a stable ID, not by the username
+  const [profile, setProfile] = useLocalStorage<PlayerProfile | null>('numberlock-profile', null);
+  // Issued by the server on the first save of the profile; later saves must send it
+  const [profileKey, setProfileKey] = useLocalStorage<string | null>('numberlock-profileKey', null);
+  const [hasLoadedRemoteProfile, setHasLoadedRemoteProfile] = useState(false);
+  const [isProfileLocked, setIsProfileLocked] = useState(false);
   const [isLoggedIn, setIsLoggedIn] = useState<boolean>(false); // Start false for SSR/initial client match
   const [isAuthLoading, setIsAuthLoading] = useState<boolean>(true); // Start true
   const router = useRouter();
+  const random = useRandom();
 
   useEffect(() => {
     // This effect runs on the client after hydration.
@@ -28,15 +47,71 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     setIsAuthLoading(false);
   }, [username]); // Re-evaluate if `username` (from localStorage or login/logout) changes.
 
+  useEffect(() => {
+    // Players who logged in before profiles existed get one on their next visit
+    if (username && (!profile || profile.username !== username)) {
+      setProfile(prev => (prev ? { ...prev, username, updatedAt: new Date().toISOString() } : createPlayerProfile(createProfileId(random), username)));
+    }
+  }, [username, profile, setProfile, random]);
+
+  const profileId = profile?.profileId;
+  useEffect(() => {
+    if (!profileId || hasLoadedRemoteProfile) return;
+    // Saving waits until the stored profile is merged, so the first save cannot overwrite newer stats
+    let isCancelled = false;
+    fetch(`/api/profile?profileId=${encodeURIComponent(profileId)}`)
+      .then(res => (res.ok ? res.json() : null))
+      .then((remoteProfile: PlayerProfile | null) => {
+        if (remoteProfile && !isCancelled) {
+          setProfile(prev => (prev ? pickNewerProfile(prev, remoteProfile) : prev));
+        }
+      })
+      .catch(err => console.warn("[AuthContext] Could not load the stored profile:", err))
+      .finally(() => {
+        if (!isCancelled) setHasLoadedRemoteProfile(true);
+      });
+    return () => {
+      isCancelled = true;
+    };
+  }, [profileId, hasLoadedRemoteProfile, setProfile]);
+
+  useEffect(() => {
+    // The profile object only changes when it is updated, so this pushes each change once (and again when its key is issued)
+    if (!profile || !hasLoadedRemoteProfile) return;
+    const headers: { [name: string]: string } = { 'Content-Type': 'application/json' };
+    if (profileKey) headers[PROFILE_KEY_HEADER] = profileKey;
+    fetch('/api/profile', { method: 'PUT', headers, body: JSON.stringify(profile) })
+      .then(res => {
+        // 403: the profile was first saved from another browser, or this one lost its key
+        setIsProfileLocked(res.status === 403);
+        return res.ok ? res.json() : Promise.reject(new Error(`Profile save failed with ${res.status}`));
+      })
+      .then((response: ProfileSaveResponse) => {
+        if (response.profileKey) setProfileKey(response.profileKey);
+      })
+      .catch(err => console.warn("[AuthContext] Could not save the profile:", err));
+  }, [profile, hasLoadedRemoteProfile, profileKey, setProfileKey]);
+
+  const startNewProfile = useCallback(() => {
+    // Keeps the username and the stats in this browser; the old profile stays with whoever has its key
+    setProfileKey(null);
+    setProfile(prev => (prev ? { ...prev, profileId: createProfileId(random), updatedAt: new Date().toISOString() } : prev));
+    setIsProfileLocked(false);
+  }, [setProfile, setProfileKey, random]);
+
+  // Leaderboard results are recorded by the server: multiplayer games by the socket server, daily challenges by /api/daily
+  const recordGameResult = useCallback((result: GameResultSummary) => {
+    setProfile(prev => (prev ? applyGameResult(prev, result) : prev));
+  }, [setProfile]);
+
   const login = useCallback((customUsername?: string) => {
     let finalUsername = customUsername?.trim();
     if (!finalUsername) {
-      const randomSuffix = Math.floor(1000 + Math.random() * 9000);
-      finalUsername = `Player_${randomSuffix}`;
+      finalUsername = generateGuestUsername(random);
     }
     setUsername(finalUsername); // This will trigger the useEffect above to update isLoggedIn
     // Navigation will be handled by the page component based on isLoggedIn state
-  }, [setUsername]);
+  }, [setUsername, random]);
 
   const logout = useCallback(() => {
     setUsername(null); // This will trigger the useEffect above to update isLoggedIn
@@ -50,7 +125,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   }, [setUsername, router]);
 
   return (
-    <AuthContext.Provider value={{ username, login, logout, isLoggedIn, isAuthLoading }}>
+    <AuthContext.Provider value={{ username, profile, profileKey, isProfileLocked, startNewProfile, recordGameResult, login, logout, isLoggedIn, isAuthLoading }}>
       {children}
     </AuthContext.Provider>
   );
@@ -4,17 +4,45 @@ import type React from 'react';
 import { createContext, useContext, useState, useCallback, useEffect, useRef } // Added useRef
 from 'react';
 import useLocalStorage from '@/hooks/useLocalStorage';
-import type { Guess, GameStatus } from '@/types/game';
+import type { Guess, GameEvent, GameReplay, SinglePlayerGameStatus as GameStatus, FeedbackMode, CodeRules, AIDifficulty, SecretProfile, ClockMode } from '@/types/game';
 import { useAuth } from './AuthContext';
+import { useRandom } from './RandomContext';
 import { useRouter } from 'next/navigation';
 import { useToast } from '@/hooks/use-toast';
 import { 
-  CODE_LENGTH, 
-  generateSecretCode, 
-  calculateFeedback, 
+  DEFAULT_CODE_RULES,
+  DEFAULT_FEEDBACK_MODE,
+  DEFAULT_SECRET_PROFILE,
+  SECRET_PROFILE_LABELS,
+  normalizeCodeRules,
+  generateComputerSecret, 
+  scoreGuess, 
   checkWin, 
-  generateComputerGuess 
 } from '@/lib/gameLogic';
+import { AI_DIFFICULTY_LABELS, DEFAULT_AI_DIFFICULTY, generateAIGuess } from '@/lib/solver';
+import { createRandomSeed, deriveRandom } from '@/lib/random';
+import { SINGLE_PLAYER_NOTEPAD_KEY, clearNotepads } from '@/lib/notepad';
+import { saveLocalReplay } from '@/lib/replay';
+import { downloadGameNotation } from '@/lib/gameNotation';
+import {
+  CHESS_BUDGET_OPTIONS,
+  CHESS_INCREMENT_OPTIONS,
+  CLOCK_MODE_LABELS,
+  DEFAULT_SINGLE_PLAYER_TURN_SECONDS,
+  DEFAULT_TURN_TIMER,
+  TURN_TIME_OPTIONS,
+} from '@/lib/turnClock';
+
+type Side = 'player' | 'opponent';
+type ChessClocks = { [side in Side]: number };
+
+const otherSide = (side: Side): Side => (side === 'player' ? 'opponent' : 'player');
+const getSinglePlayerReplayId = (startedAt: number) => `single-${startedAt}`;
+
+// Appends events to a game's event log
+function withEvents<T extends { events?: GameEvent[] }>(state: T, ...events: GameEvent[]): T {
+  return { ...state, events: [...(state.events || []), ...events] };
+}
 
 
 interface GameContextType {
@@ -29,8 +57,32 @@ interface GameContextType {
   currentTurn: 'player' | 'opponent';
   gameStatus: GameStatus;
   winner: 'player' | 'opponent' | null;
-
-  initializeGame: () => void;
+  feedbackMode: FeedbackMode;
+  setFeedbackMode: (mode: FeedbackMode) => void;
+  codeRules: CodeRules;
+  setCodeRules: (rules: CodeRules) => void;
+  aiDifficulty: AIDifficulty;
+  setAiDifficulty: (difficulty: AIDifficulty) => void;
+  secretProfile: SecretProfile;
+  setSecretProfile: (profile: SecretProfile) => void;
+  turnSeconds: number; // Length of a turn, 0 for untimed games
+  setTurnSeconds: (seconds: number) => void;
+  clockMode: ClockMode;
+  setClockMode: (mode: ClockMode) => void;
+  budgetSeconds: number; // Each side's chess clock at the start of the game
+  setBudgetSeconds: (seconds: number) => void;
+  incrementSeconds: number; // Added to the mover's chess clock after every guess
+  setIncrementSeconds: (seconds: number) => void;
+  hintsAllowed: boolean; // The assist panel is shown; off by default
+  setHintsAllowed: (allowed: boolean) => void;
+  hintsUsed: number; // Hints asked for in the current game
+  recordHintUsed: () => boolean; // Counts a hint; false if no hint may be used right now
+  chessClockMs: ChessClocks | null; // Live chess clocks while a chess-clock game is running
+  gameSeed: string | null; // Seed of the current game's computer secret and guesses
+  replayId: string | null; // Set once the game is over and its replay has been saved
+  exportGame: () => void; // Downloads the finished game in game notation
+
+  initializeGame: (seed?: string) => void; // Pass a seed to replay a game exactly
   submitPlayerSecret: (secret: string[]) => void;
   makePlayerGuess: (guess: string) => void;
   exitGame: () => void;
@@ -40,16 +92,29 @@ interface GameContextType {
   isTimerActive: boolean;
 }
 
-const GameContext = createContext<GameContextType | undefined>(undefined);
+// Charges the time a side spent on its turn to its chess clock and adds the increment
+function chargeChessClock(
+  state: { clockMode?: ClockMode; clocks?: ChessClocks; turnStartedAt?: number; incrementSeconds?: number },
+  mover: Side,
+  now: number,
+): { clocks?: ChessClocks; turnStartedAt: number } {
+  if (state.clockMode !== 'chess' || !state.clocks || state.turnStartedAt === undefined) return { clocks: state.clocks, turnStartedAt: now };
+  const remaining = Math.max(0, state.clocks[mover] - (now - state.turnStartedAt));
+  return {
+    clocks: { ...state.clocks, [mover]: remaining + (state.incrementSeconds ?? 0) * 1000 },
+    turnStartedAt: now,
+  };
+}
 
-const INITIAL_TIME_LIMIT = 20;
+const GameContext = createContext<GameContextType | undefined>(undefined);
 
 export const GameProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const { username, logout: authLogout } = useAuth();
+  const { username, logout: authLogout, recordGameResult } = useAuth();
   const router = useRouter();
   const { toast } = useToast();
+  const random = useRandom();
 
-  const [playerSecret, setPlayerSecretState] = useLocalStorage<string[]>('numberlock-playerSecret', Array(CODE_LENGTH).fill(''));
+  const [playerSecret, setPlayerSecretState] = useLocalStorage<string[]>('numberlock-playerSecret', Array(DEFAULT_CODE_RULES.length).fill(''));
   const [opponentSecret, setOpponentSecretState] = useLocalStorage<string[]>('numberlock-opponentSecret', []); 
   
   const [gameState, setGameState] = useLocalStorage<{
@@ -58,18 +123,53 @@ export const GameProvider: React.FC<{ children: React.ReactNode }> = ({ children
     currentTurn: 'player' | 'opponent';
     gameStatus: GameStatus;
     winner: 'player' | 'opponent' | null;
+    feedbackMode?: FeedbackMode;
+    codeRules?: CodeRules;
+    aiDifficulty?: AIDifficulty;
+    secretProfile?: SecretProfile;
+    turnSeconds?: number;
+    clockMode?: ClockMode;
+    budgetSeconds?: number;
+    incrementSeconds?: number;
+    hintsAllowed?: boolean;
+    hintsUsed?: number;
+    clocks?: ChessClocks; // Chess clocks in ms as of turnStartedAt
+    turnStartedAt?: number; // Epoch ms when the current chess-clock turn started
+    seed?: string;
+    startedAt?: number; // Epoch ms when the game moved to PLAYING
+    resultRecorded?: boolean; // True once the finished game has been added to the player's profile
+    events?: GameEvent[]; // Everything that happened in the game, in order, for the replay
   }>('numberlock-gameState', {
     playerGuesses: [],
     opponentGuesses: [],
     currentTurn: 'player',
     gameStatus: "SETUP_PLAYER",
     winner: null,
+    feedbackMode: DEFAULT_FEEDBACK_MODE,
+    codeRules: DEFAULT_CODE_RULES,
+    aiDifficulty: DEFAULT_AI_DIFFICULTY,
+    secretProfile: DEFAULT_SECRET_PROFILE,
+    turnSeconds: DEFAULT_SINGLE_PLAYER_TURN_SECONDS,
+    clockMode: DEFAULT_TURN_TIMER.clockMode,
+    budgetSeconds: DEFAULT_TURN_TIMER.budgetSeconds,
+    incrementSeconds: DEFAULT_TURN_TIMER.incrementSeconds,
   });
+  const feedbackMode = gameState.feedbackMode || DEFAULT_FEEDBACK_MODE;
+  const codeRules = gameState.codeRules || DEFAULT_CODE_RULES;
+  const aiDifficulty = gameState.aiDifficulty || DEFAULT_AI_DIFFICULTY;
+  const secretProfile = gameState.secretProfile || DEFAULT_SECRET_PROFILE;
+  const turnSeconds = gameState.turnSeconds ?? DEFAULT_SINGLE_PLAYER_TURN_SECONDS;
+  const clockMode = gameState.clockMode || DEFAULT_TURN_TIMER.clockMode;
+  const budgetSeconds = gameState.budgetSeconds ?? DEFAULT_TURN_TIMER.budgetSeconds;
+  const incrementSeconds = gameState.incrementSeconds ?? DEFAULT_TURN_TIMER.incrementSeconds;
+  const hintsAllowed = gameState.hintsAllowed === true;
+  const hintsUsed = gameState.hintsUsed ?? 0;
 
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isInitialLoading, setIsInitialLoading] = useState(false);
-  const [timeLeft, setTimeLeft] = useState(INITIAL_TIME_LIMIT);
+  const [timeLeft, setTimeLeft] = useState(turnSeconds);
   const [isTimerActive, setIsTimerActive] = useState(false);
+  const [chessClockMs, setChessClockMs] = useState<ChessClocks | null>(null);
 
   const gameStateRef = useRef(gameState);
   useEffect(() => {
@@ -81,6 +181,55 @@ export const GameProvider: React.FC<{ children: React.ReactNode }> = ({ children
     setPlayerSecretState(secret);
   };
 
+  const setFeedbackMode = useCallback((mode: FeedbackMode) => {
+    setGameState(prev => (prev.gameStatus === 'SETUP_PLAYER' ? { ...prev, feedbackMode: mode } : prev));
+  }, [setGameState]);
+
+  const setCodeRules = useCallback((rules: CodeRules) => {
+    setGameState(prev => (prev.gameStatus === 'SETUP_PLAYER' ? { ...prev, codeRules: normalizeCodeRules(rules) } : prev));
+  }, [setGameState]);
+
+  const setAiDifficulty = useCallback((difficulty: AIDifficulty) => {
+    if (!(difficulty in AI_DIFFICULTY_LABELS)) return;
+    setGameState(prev => (prev.gameStatus === 'SETUP_PLAYER' ? { ...prev, aiDifficulty: difficulty } : prev));
+  }, [setGameState]);
+
+  const setSecretProfile = useCallback((profile: SecretProfile) => {
+    if (!(profile in SECRET_PROFILE_LABELS)) return;
+    setGameState(prev => (prev.gameStatus === 'SETUP_PLAYER' ? { ...prev, secretProfile: profile } : prev));
+  }, [setGameState]);
+
+  const setTurnSeconds = useCallback((seconds: number) => {
+    if (!TURN_TIME_OPTIONS.includes(seconds)) return;
+    setGameState(prev => (prev.gameStatus === 'SETUP_PLAYER' ? { ...prev, turnSeconds: seconds } : prev));
+  }, [setGameState]);
+
+  const setClockMode = useCallback((mode: ClockMode) => {
+    if (!(mode in CLOCK_MODE_LABELS)) return;
+    setGameState(prev => (prev.gameStatus === 'SETUP_PLAYER' ? { ...prev, clockMode: mode } : prev));
+  }, [setGameState]);
+
+  const setBudgetSeconds = useCallback((seconds: number) => {
+    if (!CHESS_BUDGET_OPTIONS.includes(seconds)) return;
+    setGameState(prev => (prev.gameStatus === 'SETUP_PLAYER' ? { ...prev, budgetSeconds: seconds } : prev));
+  }, [setGameState]);
+
+  const setIncrementSeconds = useCallback((seconds: number) => {
+    if (!CHESS_INCREMENT_OPTIONS.includes(seconds)) return;
+    setGameState(prev => (prev.gameStatus === 'SETUP_PLAYER' ? { ...prev, incrementSeconds: seconds } : prev));
+  }, [setGameState]);
+
+  const setHintsAllowed = useCallback((allowed: boolean) => {
+    setGameState(prev => (prev.gameStatus === 'SETUP_PLAYER' ? { ...prev, hintsAllowed: allowed } : prev));
+  }, [setGameState]);
+
+  const recordHintUsed = useCallback(() => {
+    const { gameStatus, hintsAllowed, winner } = gameStateRef.current;
+    if (gameStatus !== 'PLAYING' || !hintsAllowed || winner) return false;
+    setGameState(prev => ({ ...prev, hintsUsed: (prev.hintsUsed ?? 0) + 1 }));
+    return true;
+  }, [setGameState]);
+
   const setOpponentSecret = (secret: string[]) => {
     setOpponentSecretState(secret);
     if (playerSecret.every(d => d !== '')) {
@@ -88,30 +237,79 @@ export const GameProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
   
-  const initializeGame = useCallback(() => {
-    setPlayerSecretState(Array(CODE_LENGTH).fill(''));
-    setOpponentSecretState(Array(CODE_LENGTH).fill('')); 
-    setGameState({
+  const initializeGame = useCallback((seed?: string) => {
+    clearNotepads(SINGLE_PLAYER_NOTEPAD_KEY);
+    setPlayerSecretState(Array(codeRules.length).fill(''));
+    setOpponentSecretState(Array(codeRules.length).fill('')); 
+    setGameState(prev => ({
       playerGuesses: [],
       opponentGuesses: [],
       currentTurn: 'player',
       gameStatus: "SETUP_PLAYER",
       winner: null,
-    });
+      feedbackMode: prev.feedbackMode || DEFAULT_FEEDBACK_MODE, // Keep the chosen ruleset for the next game
+      codeRules: prev.codeRules || DEFAULT_CODE_RULES,
+      aiDifficulty: prev.aiDifficulty || DEFAULT_AI_DIFFICULTY,
+      secretProfile: prev.secretProfile || DEFAULT_SECRET_PROFILE,
+      turnSeconds: prev.turnSeconds ?? DEFAULT_SINGLE_PLAYER_TURN_SECONDS,
+      clockMode: prev.clockMode || DEFAULT_TURN_TIMER.clockMode,
+      budgetSeconds: prev.budgetSeconds ?? DEFAULT_TURN_TIMER.budgetSeconds,
+      incrementSeconds: prev.incrementSeconds ?? DEFAULT_TURN_TIMER.incrementSeconds,
+      hintsAllowed: prev.hintsAllowed === true,
+      seed, // A new seed is drawn when the game starts unless one was given
+    }));
     setIsInitialLoading(false); 
     setIsSubmitting(false); 
-    setTimeLeft(INITIAL_TIME_LIMIT);
+    setTimeLeft(turnSeconds);
     setIsTimerActive(false);
-  }, [setPlayerSecretState, setOpponentSecretState, setGameState]);
+    setChessClockMs(null);
+  }, [setPlayerSecretState, setOpponentSecretState, setGameState, codeRules.length, turnSeconds]);
 
   useEffect(() => {
-    if (gameState.gameStatus === 'PLAYING' && !gameState.winner) {
-      setTimeLeft(INITIAL_TIME_LIMIT);
+    // Untimed and chess-clock games never start the per-turn timer
+    if (gameState.gameStatus === 'PLAYING' && !gameState.winner && clockMode === 'turn' && turnSeconds > 0) {
+      setTimeLeft(turnSeconds);
       setIsTimerActive(true);
     } else {
       setIsTimerActive(false);
     }
-  }, [gameState.currentTurn, gameState.gameStatus, gameState.winner]);
+  }, [gameState.currentTurn, gameState.gameStatus, gameState.winner, clockMode, turnSeconds]);
+
+  useEffect(() => {
+    if (clockMode !== 'chess' || !gameState.clocks || gameState.turnStartedAt === undefined) {
+      setChessClockMs(null);
+      return;
+    }
+    const clocks = gameState.clocks;
+    const mover = gameState.currentTurn;
+    const turnStartedAt = gameState.turnStartedAt;
+    const running = gameState.gameStatus === 'PLAYING' && !gameState.winner;
+
+    const tick = () => {
+      const remaining = running ? Math.max(0, clocks[mover] - (Date.now() - turnStartedAt)) : clocks[mover];
+      setChessClockMs({ ...clocks, [mover]: remaining });
+      if (running && remaining <= 0) {
+        clearInterval(intervalId);
+        setGameState(prev => {
+          if (prev.gameStatus !== 'PLAYING' || prev.winner || prev.currentTurn !== mover) return prev;
+          const now = Date.now();
+          return withEvents(
+            { ...prev, clocks: { ...clocks, [mover]: 0 }, gameStatus: 'GAME_OVER', winner: otherSide(mover) },
+            { type: 'timeout', at: now, playerId: mover, placement: 2 },
+            { type: 'game-over', at: now, winner: otherSide(mover) },
+          );
+        });
+        toast({
+          title: "Out of Time!",
+          description: `${mover === 'player' ? (username || 'Player') : 'Computer'} ran out of time.`,
+          variant: "destructive",
+        });
+      }
+    };
+    const intervalId = setInterval(tick, 250);
+    tick();
+    return () => clearInterval(intervalId);
+  }, [clockMode, gameState.clocks, gameState.turnStartedAt, gameState.currentTurn, gameState.gameStatus, gameState.winner, username, setGameState, toast]);
 
   useEffect(() => {
     let intervalId: NodeJS.Timeout;
@@ -131,7 +329,12 @@ export const GameProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
       setGameState(prev => {
         if (prev.gameStatus !== 'PLAYING' || prev.winner) return prev; // Check again inside updater
-        return { ...prev, currentTurn: prev.currentTurn === 'player' ? 'opponent' : 'player' };
+        const now = Date.now();
+        return withEvents(
+          { ...prev, currentTurn: otherSide(prev.currentTurn) },
+          { type: 'timeout', at: now, playerId: prev.currentTurn },
+          { type: 'turn', at: now, playerId: otherSide(prev.currentTurn), reason: 'timeout' },
+        );
       });
     }
     return () => clearInterval(intervalId);
@@ -154,10 +357,27 @@ export const GameProvider: React.FC<{ children: React.ReactNode }> = ({ children
     setPlayerSecretState(secret);
     await new Promise(resolve => setTimeout(resolve, 500)); 
     
-    const autoOpponentSecret = generateSecretCode();
+    const seed = gameStateRef.current.seed || createRandomSeed(random);
+    const autoOpponentSecret = generateComputerSecret(codeRules, secretProfile, deriveRandom(seed, 'secret'));
     setOpponentSecretState(autoOpponentSecret);
 
-    setGameState(prev => ({ ...prev, gameStatus: 'PLAYING', currentTurn: 'player' }));
+    const now = Date.now();
+    const clocks = clockMode === 'chess' ? { player: budgetSeconds * 1000, opponent: budgetSeconds * 1000 } : undefined;
+    setGameState(prev => ({
+      ...prev,
+      gameStatus: 'PLAYING',
+      currentTurn: 'player',
+      seed,
+      startedAt: now,
+      clocks,
+      turnStartedAt: now,
+      resultRecorded: false,
+      events: [
+        { type: 'secret-set', at: now, playerId: 'player' },
+        { type: 'secret-set', at: now, playerId: 'opponent' },
+        { type: 'game-start', at: now, playerId: 'player' },
+      ],
+    }));
     
     router.push('/play');
     toast({ title: "Secret set!", description: "Computer's secret also set. Game starts!" });
@@ -166,7 +386,7 @@ export const GameProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
     setIsInitialLoading(false); 
     setIsSubmitting(false); 
-  }, [setPlayerSecretState, setOpponentSecretState, setGameState, router, toast]);
+  }, [setPlayerSecretState, setOpponentSecretState, setGameState, router, toast, codeRules, secretProfile, clockMode, budgetSeconds, random]);
 
   const simulateOpponentTurn = useCallback(async () => {
     if (gameStateRef.current.gameStatus !== 'PLAYING' || 
@@ -177,7 +397,9 @@ export const GameProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   
     setIsSubmitting(true);
-    await new Promise(resolve => setTimeout(resolve, 1000 + Math.random() * 1500)); 
+    const { seed, opponentGuesses } = gameStateRef.current;
+    const delayRandom = seed ? deriveRandom(seed, 'delay', opponentGuesses.length) : random;
+    await new Promise(resolve => setTimeout(resolve, 1000 + delayRandom() * 1500)); 
 
     if (gameStateRef.current.gameStatus !== 'PLAYING' || 
         gameStateRef.current.currentTurn !== 'opponent' || 
@@ -186,11 +408,12 @@ export const GameProvider: React.FC<{ children: React.ReactNode }> = ({ children
       return;
     }
   
-    const previousOpponentGuessValues = gameStateRef.current.opponentGuesses.map(g => g.value);
-    const opponentGuessArray = generateComputerGuess(previousOpponentGuessValues);
+    const previousOpponentGuesses = gameStateRef.current.opponentGuesses;
+    const guessRandom = gameStateRef.current.seed ? deriveRandom(gameStateRef.current.seed, 'guess', previousOpponentGuesses.length) : random;
+    const opponentGuessArray = generateAIGuess(previousOpponentGuesses, aiDifficulty, codeRules, feedbackMode, guessRandom);
     const opponentGuessStr = opponentGuessArray.join('');
 
-    if (!playerSecret || playerSecret.length !== CODE_LENGTH || playerSecret.some(d => d === '' || d === undefined || d === null)) {
+    if (!playerSecret || playerSecret.length !== codeRules.length || playerSecret.some(d => d === '' || d === undefined || d === null)) {
       console.error('[GameContext] Opponent turn: Player secret is not properly set for feedback!', playerSecret);
       setGameState(prev => {
         if (prev.gameStatus !== 'PLAYING' || prev.winner) return prev;
@@ -200,8 +423,8 @@ export const GameProvider: React.FC<{ children: React.ReactNode }> = ({ children
       setIsSubmitting(false);
       return;
     }
-    const feedback = calculateFeedback(opponentGuessArray, playerSecret);
-    const newOpponentGuess: Guess = { value: opponentGuessStr, feedback };
+    const newOpponentGuess: Guess = scoreGuess(opponentGuessArray, playerSecret, feedbackMode);
+    const feedback = newOpponentGuess.feedback;
   
     setGameState(prev => {
       if (prev.gameStatus !== 'PLAYING' || prev.currentTurn !== 'opponent' || prev.winner) {
@@ -209,16 +432,27 @@ export const GameProvider: React.FC<{ children: React.ReactNode }> = ({ children
       }
       const updatedOpponentGuesses = [...prev.opponentGuesses, newOpponentGuess];
       toast({ title: "Computer guessed!", description: `Computer guessed ${opponentGuessStr}`});
+      const now = Date.now();
+      const clockFields = chargeChessClock(prev, 'opponent', now);
+      const guessEvent: GameEvent = { type: 'guess', at: now, playerId: 'opponent', targetPlayerId: 'player', guess: newOpponentGuess };
   
       if (checkWin(feedback)) {
         toast({ title: "Oh no!", description: "Computer guessed your number!" });
-        return { ...prev, opponentGuesses: updatedOpponentGuesses, gameStatus: 'GAME_OVER', winner: 'opponent' };
+        return withEvents(
+          { ...prev, ...clockFields, opponentGuesses: updatedOpponentGuesses, gameStatus: 'GAME_OVER', winner: 'opponent' },
+          guessEvent,
+          { type: 'game-over', at: now, winner: 'opponent' },
+        );
       } else {
-        return { ...prev, opponentGuesses: updatedOpponentGuesses, currentTurn: 'player' };
+        return withEvents(
+          { ...prev, ...clockFields, opponentGuesses: updatedOpponentGuesses, currentTurn: 'player' },
+          guessEvent,
+          { type: 'turn', at: now, playerId: 'player', reason: 'guess' },
+        );
       }
     });
     setIsSubmitting(false); 
-  }, [playerSecret, setGameState, toast]);
+  }, [playerSecret, feedbackMode, codeRules, aiDifficulty, random, setGameState, toast]);
 
 
   const makePlayerGuess = useCallback(async (guessStr: string) => {
@@ -227,23 +461,34 @@ export const GameProvider: React.FC<{ children: React.ReactNode }> = ({ children
     setIsSubmitting(true);
 
     const guessArray = guessStr.split('');
-    const feedback = calculateFeedback(guessArray, opponentSecret);
-    const newPlayerGuess: Guess = { value: guessStr, feedback };
+    const newPlayerGuess: Guess = scoreGuess(guessArray, opponentSecret, feedbackMode);
+    const feedback = newPlayerGuess.feedback;
     
     setGameState(prev => {
       if (prev.gameStatus !== 'PLAYING' || prev.currentTurn !== 'player' || prev.winner) {
         return prev;
       }
       const updatedPlayerGuesses = [...prev.playerGuesses, newPlayerGuess];
+      const now = Date.now();
+      const clockFields = chargeChessClock(prev, 'player', now);
+      const guessEvent: GameEvent = { type: 'guess', at: now, playerId: 'player', targetPlayerId: 'opponent', guess: newPlayerGuess };
       if (checkWin(feedback)) {
         toast({ title: "Congratulations!", description: "You guessed the Computer's number!" });
-        return { ...prev, playerGuesses: updatedPlayerGuesses, gameStatus: 'GAME_OVER', winner: 'player' };
+        return withEvents(
+          { ...prev, ...clockFields, playerGuesses: updatedPlayerGuesses, gameStatus: 'GAME_OVER', winner: 'player' },
+          guessEvent,
+          { type: 'game-over', at: now, winner: 'player' },
+        );
       } else {
-        return { ...prev, playerGuesses: updatedPlayerGuesses, currentTurn: 'opponent' };
+        return withEvents(
+          { ...prev, ...clockFields, playerGuesses: updatedPlayerGuesses, currentTurn: 'opponent' },
+          guessEvent,
+          { type: 'turn', at: now, playerId: 'opponent', reason: 'guess' },
+        );
       }
     });
     setIsSubmitting(false); 
-  }, [opponentSecret, setGameState, toast, isSubmitting]);
+  }, [opponentSecret, feedbackMode, setGameState, toast, isSubmitting]);
 
   useEffect(() => {
     let thinkDelayTimeoutId: NodeJS.Timeout | undefined;
@@ -264,11 +509,60 @@ export const GameProvider: React.FC<{ children: React.ReactNode }> = ({ children
   }, [gameState.currentTurn, gameState.gameStatus, gameState.winner, simulateOpponentTurn]);
 
 
+  const buildReplay = useCallback((events: GameEvent[], winner?: Side | null): GameReplay | null => {
+    const startedAt = gameStateRef.current.startedAt;
+    if (!startedAt) return null;
+    const replay: GameReplay = {
+      replayId: getSinglePlayerReplayId(startedAt),
+      mode: 'single',
+      players: [{ id: 'player', name: username || 'Player' }, { id: 'opponent', name: 'Computer' }],
+      secrets: { player: playerSecret, opponent: opponentSecret },
+      codeRules,
+      feedbackMode,
+      events,
+      startedAt,
+      finishedAt: events.length > 0 ? events[events.length - 1].at : Date.now(),
+    };
+    if (winner) replay.winner = winner;
+    return replay;
+  }, [username, playerSecret, opponentSecret, codeRules, feedbackMode]);
+
+  // Single player replays are only kept in this browser
+  const saveReplay = useCallback((events: GameEvent[], winner?: Side) => {
+    const replay = buildReplay(events, winner);
+    if (replay) saveLocalReplay(replay);
+  }, [buildReplay]);
+
+  const exportGame = useCallback(() => {
+    const { gameStatus, events, winner } = gameStateRef.current;
+    if (gameStatus !== 'GAME_OVER') return; // Secrets are only revealed once the game is over
+    const replay = buildReplay(events || [], winner);
+    if (replay) downloadGameNotation(replay);
+  }, [buildReplay]);
+
+  useEffect(() => {
+    if (gameState.gameStatus !== 'GAME_OVER' || !gameState.winner || gameState.resultRecorded) return;
+    saveReplay(gameState.events || [], gameState.winner);
+    recordGameResult({
+      mode: 'single',
+      won: gameState.winner === 'player',
+      guessCount: gameState.playerGuesses.length,
+      durationMs: gameState.startedAt ? Date.now() - gameState.startedAt : undefined,
+      hintsUsed: gameState.hintsUsed,
+    });
+    setGameState(prev => ({ ...prev, resultRecorded: true }));
+  }, [gameState.gameStatus, gameState.winner, gameState.resultRecorded, gameState.playerGuesses.length, gameState.startedAt, gameState.hintsUsed, gameState.events, saveReplay, recordGameResult, setGameState]);
+
   const exitGame = useCallback(() => {
+    const { gameStatus, winner, events } = gameStateRef.current;
+    if (gameStatus === 'PLAYING' && !winner) {
+      const now = Date.now();
+      saveReplay([...(events || []), { type: 'exit', at: now, playerId: 'player' }, { type: 'game-over', at: now }]);
+    }
     initializeGame(); // Call this first to reset GameContext state
     authLogout(); 
     toast({ title: "Game Exited", description: "Your game data has been cleared." });
-  }, [authLogout, initializeGame, toast]);
+  }, [authLogout, initializeGame, saveReplay, toast]);
 
 
   return (
@@ -280,6 +574,30 @@ export const GameProvider: React.FC<{ children: React.ReactNode }> = ({ children
       currentTurn: gameState.currentTurn, 
       gameStatus: gameState.gameStatus, 
       winner: gameState.winner,
+      feedbackMode,
+      setFeedbackMode,
+      codeRules,
+      setCodeRules,
+      aiDifficulty,
+      setAiDifficulty,
+      secretProfile,
+      setSecretProfile,
+      turnSeconds,
+      setTurnSeconds,
+      clockMode,
+      setClockMode,
+      budgetSeconds,
+      setBudgetSeconds,
+      incrementSeconds,
+      setIncrementSeconds,
+      hintsAllowed,
+      setHintsAllowed,
+      hintsUsed,
+      recordHintUsed,
+      chessClockMs,
+      gameSeed: gameState.seed || null,
+      exportGame,
+      replayId: gameState.gameStatus === 'GAME_OVER' && gameState.resultRecorded && gameState.startedAt ? getSinglePlayerReplayId(gameState.startedAt) : null,
       initializeGame,
       submitPlayerSecret,
       makePlayerGuess,
@@ -0,0 +1,14 @@
+"use client";
+import type React from 'react';
+import { createContext, useContext, useMemo } from 'react';
+import { createSeededRandom, type RandomSource } from '@/lib/random';
+
+const RandomContext = createContext<RandomSource>(Math.random);
+
+// Pass a seed (or set NEXT_PUBLIC_RANDOM_SEED) to make every client-side random choice reproducible
+export const RandomProvider: React.FC<{ seed?: string; children: React.ReactNode }> = ({ seed, children }) => {
+  const random = useMemo(() => (seed ? createSeededRandom(seed) : Math.random), [seed]);
+  return <RandomContext.Provider value={random}>{children}</RandomContext.Provider>;
+};
+
+export const useRandom = (): RandomSource => useContext(RandomContext);
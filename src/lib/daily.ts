@@ -0,0 +1,76 @@
+import type { CodeRules, Guess } from '@/types/game';
+import { DEFAULT_CODE_RULES, generateComputerSecret } from '@/lib/gameLogic';
+import { deriveRandom } from '@/lib/random';
+
+export const DAILY_CODE_RULES: CodeRules = DEFAULT_CODE_RULES;
+
+/**
+ * The outcome of one day's challenge, kept so the day cannot be played again.
+ */
+export interface DailyResult {
+  dateKey: string;
+  guessCount: number;
+  timeMs: number;
+  feedbackGrid: boolean[][]; // Feedback of every guess, in order, for the share string
+}
+
+/**
+ * Builds the key of a calendar day in UTC, e.g. "2026-10-19", so every player and the server agree on the day.
+ * @param {Date} [date=new Date()] - Any moment of the day.
+ * @returns {string} The date key.
+ */
+export function getDailyKey(date: Date = new Date()): string {
+  const month = String(date.getUTCMonth() + 1).padStart(2, '0');
+  const day = String(date.getUTCDate()).padStart(2, '0');
+  return `${date.getUTCFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Derives the secret of a day's challenge. Everyone playing on the same date gets the same code.
+ * Only the server calls this: without its secret the code cannot be worked out from the date.
+ * @param {string} dateKey - The day, as returned by getDailyKey.
+ * @param {string} serverSecret - The server's daily challenge secret.
+ * @returns {string[]} The day's secret code.
+ */
+export function generateDailySecret(dateKey: string, serverSecret: string): string[] {
+  return generateComputerSecret(DAILY_CODE_RULES, 'any', deriveRandom(serverSecret, 'daily', dateKey));
+}
+
+/**
+ * Formats a duration as minutes and seconds, e.g. "1:05".
+ * @param {number} ms - The duration in milliseconds.
+ * @returns {string} The formatted duration.
+ */
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return `${minutes}:${seconds}`;
+}
+
+/**
+ * Builds the result of a solved challenge.
+ * @param {string} dateKey - The day of the challenge.
+ * @param {Guess[]} guesses - Every guess made, the last one being the solve.
+ * @param {number} timeMs - Time from the first render of the challenge to the solve.
+ * @returns {DailyResult} The result.
+ */
+export function createDailyResult(dateKey: string, guesses: Guess[], timeMs: number): DailyResult {
+  return {
+    dateKey,
+    guessCount: guesses.length,
+    timeMs,
+    feedbackGrid: guesses.map(guess => guess.feedback),
+  };
+}
+
+/**
+ * Builds a spoiler-free summary to share: one row of squares per guess, green for a correct position.
+ * @param {DailyResult} result - The solved challenge.
+ * @returns {string} The share text.
+ */
+export function buildDailyShareText(result: DailyResult): string {
+  const header = `4Sure Daily ${result.dateKey}: ${result.guessCount} ${result.guessCount === 1 ? 'guess' : 'guesses'} in ${formatDuration(result.timeMs)}`;
+  const rows = result.feedbackGrid.map(feedback => feedback.map(hit => (hit ? '🟩' : '⬛')).join(''));
+  return [header, ...rows].join('\n');
+}
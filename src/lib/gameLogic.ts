@@ -1,28 +1,138 @@
+import type { CodeAlphabet, CodeRules, FeedbackMode, Guess, GuessContradiction, SecretProfile } from '@/types/game';
+import { randomInt, shuffle, type RandomSource } from '@/lib/random';
 
-export const CODE_LENGTH = 4;
+export const CODE_LENGTH = 4; // Default code length
+export const MIN_CODE_LENGTH = 3;
+export const MAX_CODE_LENGTH = 8;
+
+export const CODE_ALPHABETS: { [alphabet in CodeAlphabet]: string[] } = {
+  'digits': '0123456789'.split(''),
+  'hex': '0123456789ABCDEF'.split(''),
+  'letters': 'ABCDEFGHIJKLMNOPQRSTUVWXYZ'.split(''),
+};
+
+export const CODE_ALPHABET_LABELS: { [alphabet in CodeAlphabet]: string } = {
+  'digits': 'Digits (0-9)',
+  'hex': 'Hex (0-9, A-F)',
+  'letters': 'Letters (A-Z)',
+};
+
+// Room codes leave out 0/O and 1/I so they can be read aloud and typed without mix-ups
+export const ROOM_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+export const ROOM_CODE_LENGTH = 6;
+
+export const DEFAULT_CODE_RULES: CodeRules = { length: CODE_LENGTH, alphabet: 'digits' };
+
+export const DEFAULT_FEEDBACK_MODE: FeedbackMode = 'exact';
+
+export const FEEDBACK_MODE_LABELS: { [mode in FeedbackMode]: string } = {
+  'exact': 'Exact Positions',
+  'bulls-cows': 'Bulls & Cows',
+};
+
+export const DEFAULT_SECRET_PROFILE: SecretProfile = 'any';
+
+export const SECRET_PROFILE_LABELS: { [profile in SecretProfile]: string } = {
+  'any': 'Any Valid Code',
+  'distinct': 'All Distinct',
+  'repeats': 'Contains Repeats',
+  'no-palindromes': 'No Palindromes',
+};
+
+/**
+ * Fills in and clamps code rules coming from untrusted input (query strings, socket payloads).
+ * @param {Partial<CodeRules>} [rules] - The requested rules.
+ * @returns {CodeRules} Valid code rules.
+ */
+export function normalizeCodeRules(rules?: Partial<CodeRules> | null): CodeRules {
+  const requestedLength = Math.round(Number(rules?.length));
+  const length = Number.isFinite(requestedLength)
+    ? Math.min(MAX_CODE_LENGTH, Math.max(MIN_CODE_LENGTH, requestedLength))
+    : DEFAULT_CODE_RULES.length;
+  const alphabet = rules?.alphabet && rules.alphabet in CODE_ALPHABETS ? rules.alphabet : DEFAULT_CODE_RULES.alphabet;
+  return { length, alphabet };
+}
+
+/**
+ * Describes code rules for display, e.g. "4-digit" or "6-character hex".
+ * @param {CodeRules} rules - The code rules.
+ * @returns {string} A short description.
+ */
+export function describeCodeRules(rules: CodeRules): string {
+  return rules.alphabet === 'digits' ? `${rules.length}-digit` : `${rules.length}-character ${rules.alphabet}`;
+}
+
+function randomSymbol(alphabet: CodeAlphabet, random: RandomSource): string {
+  const symbols = CODE_ALPHABETS[alphabet];
+  return symbols[randomInt(symbols.length, random)];
+}
 
 /**
- * Generates a random secret code.
- * @returns {string[]} An array of strings, each a digit, representing the secret code.
+ * Generates a random code. It is not checked against the pattern rule; see generateComputerSecret.
+ * @param {CodeRules} [rules=DEFAULT_CODE_RULES] - Length and alphabet of the code.
+ * @param {RandomSource} [random=Math.random] - The random source.
+ * @returns {string[]} An array of strings, each one symbol, representing the secret code.
  */
-export function generateSecretCode(): string[] {
-  return Array(CODE_LENGTH).fill('').map(() => String(Math.floor(Math.random() * 10)));
+export function generateSecretCode(rules: CodeRules = DEFAULT_CODE_RULES, random: RandomSource = Math.random): string[] {
+  return Array(rules.length).fill('').map(() => randomSymbol(rules.alphabet, random));
 }
 
 /**
  * Calculates feedback for a guess against a secret code.
- * @param {string[]} guessArray - The guessed code as an array of digit strings.
- * @param {string[]} secretCode - The secret code as an array of digit strings.
- * @returns {boolean[]} An array of booleans indicating correct digit and position.
+ * @param {string[]} guessArray - The guessed code as an array of symbol strings.
+ * @param {string[]} secretCode - The secret code as an array of symbol strings.
+ * @returns {boolean[]} An array of booleans indicating correct symbol and position.
  */
 export function calculateFeedback(guessArray: string[], secretCode: string[]): boolean[] {
-  if (!secretCode || secretCode.length !== CODE_LENGTH || secretCode.some(d => d === '' || d === undefined || d === null)) {
+  if (!secretCode || secretCode.length !== guessArray.length || secretCode.some(d => d === '' || d === undefined || d === null)) {
     console.error("[gameLogic] Invalid secretCode in calculateFeedback:", secretCode);
-    return Array(CODE_LENGTH).fill(false);
+    return Array(guessArray.length).fill(false);
   }
   return guessArray.map((digit, index) => digit === secretCode[index]);
 }
 
+/**
+ * Counts the guessed digits that appear in the secret code but in a different position
+ * (the "cows" of Bulls & Cows). Each secret digit can be matched only once.
+ * @param {string[]} guessArray - The guessed code as an array of digit strings.
+ * @param {string[]} secretCode - The secret code as an array of digit strings.
+ * @returns {number} The number of right digits in the wrong position.
+ */
+export function calculateMisplacedCount(guessArray: string[], secretCode: string[]): number {
+  const unmatchedSecretCounts: { [digit: string]: number } = {};
+  const unmatchedGuessDigits: string[] = [];
+  guessArray.forEach((digit, index) => {
+    if (digit !== secretCode[index]) {
+      unmatchedSecretCounts[secretCode[index]] = (unmatchedSecretCounts[secretCode[index]] || 0) + 1;
+      unmatchedGuessDigits.push(digit);
+    }
+  });
+
+  let misplaced = 0;
+  unmatchedGuessDigits.forEach(digit => {
+    if (unmatchedSecretCounts[digit] > 0) {
+      unmatchedSecretCounts[digit]--;
+      misplaced++;
+    }
+  });
+  return misplaced;
+}
+
+/**
+ * Scores a guess against a secret code under the given feedback mode.
+ * @param {string[]} guessArray - The guessed code as an array of digit strings.
+ * @param {string[]} secretCode - The secret code as an array of digit strings.
+ * @param {FeedbackMode} [feedbackMode='exact'] - The ruleset of the game.
+ * @returns {Guess} The guess with its feedback.
+ */
+export function scoreGuess(guessArray: string[], secretCode: string[], feedbackMode: FeedbackMode = DEFAULT_FEEDBACK_MODE): Guess {
+  const guess: Guess = { value: guessArray.join(''), feedback: calculateFeedback(guessArray, secretCode) };
+  if (feedbackMode === 'bulls-cows') {
+    guess.misplaced = calculateMisplacedCount(guessArray, secretCode);
+  }
+  return guess;
+}
+
 /**
  * Checks if the feedback indicates a win.
  * @param {boolean[]} feedback - The feedback array from calculateFeedback.
@@ -33,59 +143,189 @@ export function checkWin(feedback: boolean[]): boolean {
 }
 
 /**
- * Generates a random guess for the computer, avoiding guesses from an exclude list.
+ * Generates a random valid guess for the computer (see isValidCode), avoiding guesses from an exclude list.
  * @param {string[]} [excludeList=[]] - An optional list of guess strings to avoid.
- * @returns {string[]} An array of strings, each a digit, representing the computer's guess.
+ * @param {CodeRules} [rules=DEFAULT_CODE_RULES] - Length and alphabet of the code.
+ * @param {RandomSource} [random=Math.random] - The random source.
+ * @returns {string[]} An array of strings, each one symbol, representing the computer's guess.
  */
-export function generateComputerGuess(excludeList: string[] = []): string[] {
+export function generateComputerGuess(excludeList: string[] = [], rules: CodeRules = DEFAULT_CODE_RULES, random: RandomSource = Math.random): string[] {
   let guessString = "";
   let guessArray: string[] = [];
   let attempts = 0;
-  const MAX_POSSIBLE_UNIQUE_CODES = Math.pow(10, CODE_LENGTH);
-  const MAX_ATTEMPTS = MAX_POSSIBLE_UNIQUE_CODES + 100; 
+  const excluded = new Set(excludeList);
+  const MAX_POSSIBLE_UNIQUE_CODES = Math.pow(CODE_ALPHABETS[rules.alphabet].length, rules.length);
+  const MAX_ATTEMPTS = Math.min(MAX_POSSIBLE_UNIQUE_CODES + 100, 100000);
 
-  if (excludeList.length >= MAX_POSSIBLE_UNIQUE_CODES) {
+  if (excluded.size >= MAX_POSSIBLE_UNIQUE_CODES) {
     console.warn("All possible codes have been excluded. Returning a random (possibly repeated) guess.");
-    return Array(CODE_LENGTH).fill('').map(() => String(Math.floor(Math.random() * 10)));
+    return generateComputerSecret(rules, DEFAULT_SECRET_PROFILE, random);
   }
 
   do {
-    guessArray = Array(CODE_LENGTH).fill('').map(() => String(Math.floor(Math.random() * 10)));
+    guessArray = generateSecretCode(rules, random);
     guessString = guessArray.join('');
     attempts++;
     if (attempts > MAX_ATTEMPTS) {
       console.warn("Max attempts reached in generateComputerGuess. Returning a potentially repeated guess.");
       break; 
     }
-  } while (excludeList.includes(guessString));
+  } while (excluded.has(guessString) || !isValidDigitSequence(guessArray));
   
   return guessArray;
 }
 
 /**
- * Validates if a sequence of digits meets the game's rules
- * (no 3 or 4 identical consecutive digits for CODE_LENGTH = 4).
- * @param {string[]} digits - The array of digit strings to validate.
+ * Validates if a sequence of symbols meets the game's pattern rule:
+ * no 3 or more identical consecutive symbols (e.g. "0001" or "1111" for 4 digits).
+ * @param {string[]} digits - The array of symbol strings to validate.
  * @returns {boolean} True if the sequence is valid, false otherwise.
  */
 export function isValidDigitSequence(digits: string[]): boolean {
-  if (digits.length !== CODE_LENGTH) {
-    return true; // This function only cares about the pattern, length checked elsewhere
+  for (let index = 2; index < digits.length; index++) {
+    if (digits[index] === digits[index - 1] && digits[index - 1] === digits[index - 2]) {
+      return false;
+    }
   }
+  return true;
+}
 
-  // Check for 4 identical digits (e.g., "0000")
-  if (digits[0] === digits[1] && digits[1] === digits[2] && digits[2] === digits[3]) {
+/**
+ * Checks that a code has the right length, only uses the game's alphabet and follows the pattern rule.
+ * @param {string[]} symbols - The code to validate.
+ * @param {CodeRules} [rules=DEFAULT_CODE_RULES] - Length and alphabet of the code.
+ * @returns {boolean} True if the code is valid for the game.
+ */
+export function isValidCode(symbols: string[], rules: CodeRules = DEFAULT_CODE_RULES): boolean {
+  if (!Array.isArray(symbols) || symbols.length !== rules.length) {
     return false;
   }
+  const alphabet = CODE_ALPHABETS[rules.alphabet];
+  return symbols.every(symbol => alphabet.includes(symbol)) && isValidDigitSequence(symbols);
+}
 
-  // Check for 3 consecutive identical digits
-  // For CODE_LENGTH = 4, this covers "XXXY" and "YXXX"
-  if (
-    (digits[0] === digits[1] && digits[1] === digits[2]) || // First three are the same
-    (digits[1] === digits[2] && digits[2] === digits[3])    // Last three are the same
-  ) {
-    return false;
+/**
+ * Finds the positions where a guess goes against the exact-position feedback of earlier guesses on
+ * the same secret: a different symbol where one is already locked, or a symbol that was already
+ * guessed there without locking.
+ * @param {string[]} symbols - The pending guess.
+ * @param {Guess[]} previousGuesses - Scored guesses against the same secret.
+ * @returns {GuessContradiction[]} One entry per contradicting position, in position order.
+ */
+export function findGuessContradictions(symbols: string[], previousGuesses: Guess[]): GuessContradiction[] {
+  const contradictions: GuessContradiction[] = [];
+  symbols.forEach((symbol, position) => {
+    if (!symbol) return;
+    const locked = previousGuesses.find(guess => guess.feedback[position]);
+    if (locked) {
+      const lockedSymbol = locked.value[position];
+      if (lockedSymbol !== symbol) contradictions.push({ position, kind: 'locked', symbol: lockedSymbol });
+    } else if (previousGuesses.some(guess => guess.value[position] === symbol)) {
+      contradictions.push({ position, kind: 'ruled-out', symbol });
+    }
+  });
+  return contradictions;
+}
+
+/**
+ * Describes a contradiction for display, e.g. "position 2 is already known to be 7".
+ * @param {GuessContradiction} contradiction - The contradiction.
+ * @returns {string} The description.
+ */
+export function describeGuessContradiction(contradiction: GuessContradiction): string {
+  const position = contradiction.position + 1;
+  return contradiction.kind === 'locked'
+    ? `position ${position} is already known to be ${contradiction.symbol}`
+    : `${contradiction.symbol} was already ruled out at position ${position}`;
+}
+
+/**
+ * Checks whether a code satisfies a secret profile.
+ * @param {string[]} symbols - The code to check.
+ * @param {SecretProfile} profile - The profile.
+ * @returns {boolean} True if the code fits the profile.
+ */
+export function matchesSecretProfile(symbols: string[], profile: SecretProfile): boolean {
+  const distinctCount = new Set(symbols).size;
+  switch (profile) {
+    case 'distinct':
+      return distinctCount === symbols.length;
+    case 'repeats':
+      return distinctCount < symbols.length;
+    case 'no-palindromes':
+      return symbols.join('') !== [...symbols].reverse().join('');
+    case 'any':
+    default:
+      return true;
+  }
+}
+
+/**
+ * Generates the computer's secret: a valid code (see isValidCode) that fits the given profile.
+ * @param {CodeRules} [rules=DEFAULT_CODE_RULES] - Length and alphabet of the code.
+ * @param {SecretProfile} [profile=DEFAULT_SECRET_PROFILE] - Extra constraint on the secret.
+ * @param {RandomSource} [random=Math.random] - The random source.
+ * @returns {string[]} The secret code.
+ */
+export function generateComputerSecret(
+  rules: CodeRules = DEFAULT_CODE_RULES,
+  profile: SecretProfile = DEFAULT_SECRET_PROFILE,
+  random: RandomSource = Math.random
+): string[] {
+  const alphabet = CODE_ALPHABETS[rules.alphabet];
+  if (profile === 'distinct' && alphabet.length >= rules.length) {
+    // Distinct symbols can never form a run, so a shuffled prefix is always valid
+    return shuffle(alphabet, random).slice(0, rules.length);
   }
 
-  return true;
+  const MAX_ATTEMPTS = 10000;
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const code = generateSecretCode(rules, random);
+    if (isValidCode(code, rules) && matchesSecretProfile(code, profile)) {
+      return code;
+    }
+  }
+  console.warn(`[gameLogic] No "${profile}" secret found for ${describeCodeRules(rules)} codes. Using any valid code.`);
+  let code: string[];
+  do {
+    code = generateSecretCode(rules, random);
+  } while (!isValidCode(code, rules));
+  return code;
+}
+
+/**
+ * Generates a room code for a new multiplayer game, e.g. "K7QM3X". Codes are allocated by the
+ * server, which retries until it finds one that no room is using.
+ * @param {RandomSource} [random=Math.random] - The random source.
+ * @returns {string} The game ID.
+ */
+export function generateRoomCode(random: RandomSource = Math.random): string {
+  return Array.from({ length: ROOM_CODE_LENGTH }, () => ROOM_CODE_ALPHABET[randomInt(ROOM_CODE_ALPHABET.length, random)]).join('');
+}
+
+/**
+ * Cleans up a room code typed or pasted by a player: case, spaces and dashes do not matter.
+ * @param {string} input - The code as entered.
+ * @returns {string} The normalized code, which may still be invalid.
+ */
+export function normalizeRoomCode(input: string): string {
+  return input.toUpperCase().replace(/[\s-]/g, '');
+}
+
+/**
+ * Checks whether a normalized room code could have been allocated by the server.
+ * @param {string} code - The normalized code.
+ * @returns {boolean} True if the code has the right length and alphabet.
+ */
+export function isValidRoomCode(code: string): boolean {
+  return code.length === ROOM_CODE_LENGTH && code.split('').every(symbol => ROOM_CODE_ALPHABET.includes(symbol));
+}
+
+/**
+ * Generates a guest username for players who do not pick one, e.g. "Player_4821".
+ * @param {RandomSource} [random=Math.random] - The random source.
+ * @returns {string} The username.
+ */
+export function generateGuestUsername(random: RandomSource = Math.random): string {
+  return `Player_${1000 + randomInt(9000, random)}`;
 }
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import type { CodeRules, FeedbackMode, GameEvent, GameReplay } from '@/types/game';
+import { scoreGuess } from '@/lib/gameLogic';
+import { formatGameNotation, parseGameNotation } from '@/lib/gameNotation';
+
+const STARTED_AT = Date.parse('2026-10-19T10:00:00.000Z');
+
+// A single player game the way GameContext records it, with the computer guessing the given codes
+function buildSinglePlayerReplay(computerGuesses: string[], feedbackMode: FeedbackMode): GameReplay {
+  const rules: CodeRules = { length: 4, alphabet: 'digits' };
+  const secrets = { player: ['1', '2', '3', '4'], opponent: ['5', '6', '7', '8'] };
+  const events: GameEvent[] = [{ type: 'game-start', at: STARTED_AT, playerId: 'player' }];
+  let at = STARTED_AT;
+  computerGuesses.forEach(value => {
+    at += 5000;
+    events.push({ type: 'guess', at, playerId: 'player', targetPlayerId: 'opponent', guess: scoreGuess(['9', '0', '9', '0'], secrets.opponent, feedbackMode) });
+    events.push({ type: 'turn', at, playerId: 'opponent', reason: 'guess' });
+    at += 2000;
+    events.push({ type: 'guess', at, playerId: 'opponent', targetPlayerId: 'player', guess: scoreGuess(value.split(''), secrets.player, feedbackMode) });
+    events.push({ type: 'turn', at, playerId: 'player', reason: 'guess' });
+  });
+  at += 5000;
+  events.push({ type: 'guess', at, playerId: 'player', targetPlayerId: 'opponent', guess: scoreGuess(secrets.opponent, secrets.opponent, feedbackMode) });
+  events.push({ type: 'game-over', at, winner: 'player' });
+  return {
+    replayId: `single-${STARTED_AT}`,
+    mode: 'single',
+    players: [{ id: 'player', name: 'Alice' }, { id: 'opponent', name: 'Computer' }],
+    secrets,
+    codeRules: rules,
+    feedbackMode,
+    events,
+    startedAt: STARTED_AT,
+    finishedAt: at,
+    winner: 'player',
+  };
+}
+
+describe('parseGameNotation', () => {
+  (['exact', 'bulls-cows'] as FeedbackMode[]).forEach(feedbackMode => {
+    it(`re-imports an exported game with a computer guess like 0001 (${feedbackMode})`, () => {
+      const replay = buildSinglePlayerReplay(['0001', '1244'], feedbackMode);
+      const result = parseGameNotation(formatGameNotation(replay), 'imported');
+      expect(result.ok, result.ok ? '' : result.error).toBe(true);
+      if (!result.ok) return;
+      const guessesOf = (game: GameReplay) => game.events.filter(event => event.type === 'guess').map(event => event.guess);
+      expect(guessesOf(result.replay)).toEqual(guessesOf(replay));
+      expect(result.replay.winner).toBe('player');
+      expect(result.replay.secrets).toEqual(replay.secrets);
+    });
+  });
+
+  it('still rejects guesses of the wrong length or outside the alphabet', () => {
+    const notation = formatGameNotation(buildSinglePlayerReplay(['0001'], 'exact'));
+    const wrongLength = parseGameNotation(notation.replace(' 0001 ', ' 00001 '), 'imported');
+    expect(wrongLength.ok).toBe(false);
+    const wrongAlphabet = parseGameNotation(notation.replace(' 0001 ', ' 000A '), 'imported');
+    expect(wrongAlphabet.ok).toBe(false);
+  });
+});
@@ -0,0 +1,284 @@
+import type { CodeAlphabet, FeedbackMode, GameEvent, GameModeKey, GameReplay, Guess } from '@/types/game';
+import {
+  CODE_ALPHABETS,
+  DEFAULT_FEEDBACK_MODE,
+  FEEDBACK_MODE_LABELS,
+  MAX_CODE_LENGTH,
+  MIN_CODE_LENGTH,
+  calculateFeedback,
+  calculateMisplacedCount,
+  isValidCode,
+  normalizeCodeRules,
+} from '@/lib/gameLogic';
+import { GAME_MODE_LABELS } from '@/lib/profile';
+
+/*
+ * Game notation, version 1: a plain text record of a finished game, loosely modelled on chess PGN.
+ *
+ *   [Format "4Sure 1"]
+ *   [Mode "multiplayer"]
+ *   [Started "2026-10-19T10:00:00.000Z"]
+ *   [Finished "2026-10-19T10:03:12.500Z"]
+ *   [CodeLength "4"]
+ *   [Alphabet "digits"]
+ *   [FeedbackMode "bulls-cows"]
+ *   [Player "player1" "Alice" "1234"]
+ *   [Player "player2" "Bob" "5678"]
+ *   [Winner "player1"]
+ *
+ *   1. player1 > player2 5670 +++- 0 @4.2
+ *   2. player2 > player1 1200 ++-- 0 @9.8
+ *   * timeout player1 @40.1
+ *   3. player2 > player1 1234 ++++ 0 @52
+ *
+ * Tags come first, one per line. Every player has a Player tag with their ID, name and secret (empty
+ * if they had none). Winner is left out if nobody won. Guesses follow in order: number, guesser,
+ * target, guess, one "+" (locked) or "-" per position, the misplaced count in Bulls & Cows games, and
+ * the seconds since the start. Timeouts and exits are lines starting with "*", with the place the
+ * player finished on when it ended their game, e.g. "* exit player3 #3 @61.4". Lines starting with
+ * ";" are comments. Values in quotes escape \" and \\.
+ */
+
+export const GAME_NOTATION_FORMAT = '4Sure';
+export const GAME_NOTATION_VERSION = 1;
+
+// The outcome of reading game notation: the game as a replay, or why it was rejected
+export type GameNotationImport =
+  | { ok: true; replay: GameReplay }
+  | { ok: false; error: string };
+
+const LOCKED = '+';
+const NOT_LOCKED = '-';
+
+const quote = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+const formatSeconds = (ms: number) => String(Math.max(0, Math.round(ms / 100)) / 10);
+
+/**
+ * Writes a game in game notation (see the format description above).
+ * Multiplayer games are written from the replay built by buildRoomReplay, single player games from
+ * the replay built by GameContext.
+ * @param {GameReplay} replay - The finished game.
+ * @returns {string} The notation, ending in a newline.
+ */
+export function formatGameNotation(replay: GameReplay): string {
+  const rules = normalizeCodeRules(replay.codeRules);
+  const feedbackMode = replay.feedbackMode || DEFAULT_FEEDBACK_MODE;
+  const lines = [
+    `[Format ${quote(`${GAME_NOTATION_FORMAT} ${GAME_NOTATION_VERSION}`)}]`,
+    `[Mode ${quote(replay.mode)}]`,
+    `[Started ${quote(new Date(replay.startedAt).toISOString())}]`,
+    `[Finished ${quote(new Date(replay.finishedAt).toISOString())}]`,
+    `[CodeLength ${quote(String(rules.length))}]`,
+    `[Alphabet ${quote(rules.alphabet)}]`,
+    `[FeedbackMode ${quote(feedbackMode)}]`,
+    ...replay.players.map(player => `[Player ${quote(player.id)} ${quote(player.name)} ${quote((replay.secrets[player.id] || []).join(''))}]`),
+  ];
+  if (replay.winner) lines.push(`[Winner ${quote(replay.winner)}]`);
+  lines.push('');
+
+  let guessNumber = 0;
+  replay.events.forEach(event => {
+    const time = `@${formatSeconds(event.at - replay.startedAt)}`;
+    if (event.type === 'guess' && event.guess && event.playerId && event.targetPlayerId) {
+      guessNumber++;
+      const feedback = event.guess.feedback.map(locked => (locked ? LOCKED : NOT_LOCKED)).join('');
+      const misplaced = feedbackMode === 'bulls-cows' ? ` ${event.guess.misplaced ?? 0}` : '';
+      lines.push(`${guessNumber}. ${event.playerId} > ${event.targetPlayerId} ${event.guess.value} ${feedback}${misplaced} ${time}`);
+    } else if ((event.type === 'timeout' || event.type === 'exit') && event.playerId) {
+      lines.push(`* ${event.type} ${event.playerId}${event.placement ? ` #${event.placement}` : ''} ${time}`);
+    }
+  });
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Suggests a file name for a game written in game notation.
+ * @param {GameReplay} replay - The game.
+ * @returns {string} The file name, e.g. "4sure-multiplayer-2026-10-19.txt".
+ */
+export function getGameNotationFileName(replay: GameReplay): string {
+  return `4sure-${replay.mode}-${new Date(replay.startedAt).toISOString().slice(0, 10)}.txt`;
+}
+
+/**
+ * Offers game notation to the browser as a file download.
+ * @param {GameReplay} replay - The game to export.
+ */
+export function downloadGameNotation(replay: GameReplay): void {
+  const url = URL.createObjectURL(new Blob([formatGameNotation(replay)], { type: 'text/plain' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = getGameNotationFileName(replay);
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// Splits the quoted values of a tag line; null if the quoting is broken
+function parseTagValues(text: string): string[] | null {
+  const values: string[] = [];
+  const pattern = /\s*"((?:[^"\\]|\\.)*)"/y;
+  let rest = text.trim();
+  while (rest.length > 0) {
+    pattern.lastIndex = 0;
+    const match = pattern.exec(rest);
+    if (!match) return null;
+    values.push(match[1].replace(/\\(.)/g, '$1'));
+    rest = rest.slice(match[0].length).trim();
+  }
+  return values;
+}
+
+/**
+ * Reads a game written in game notation and turns it into a replay. Every guess is checked against
+ * the secret it was made on: the feedback is worked out again with calculateFeedback (and the
+ * misplaced count in Bulls & Cows games), and a game whose feedback does not match is rejected.
+ * @param {string} text - The notation.
+ * @param {string} replayId - The ID the imported replay gets.
+ * @returns {GameNotationImport} The replay, or the first problem found, with its line number.
+ */
+export function parseGameNotation(text: string, replayId: string): GameNotationImport {
+  const tags: { [name: string]: string[] } = {};
+  const players: { id: string; name: string; secret: string[] }[] = [];
+  const moveLines: { lineNumber: number; text: string }[] = [];
+  const fail = (lineNumber: number, message: string): GameNotationImport => ({ ok: false, error: `Line ${lineNumber}: ${message}` });
+
+  const lines = text.split(/\r?\n/);
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index].trim();
+    const lineNumber = index + 1;
+    if (line.length === 0 || line.startsWith(';')) continue;
+    const tagMatch = line.match(/^\[([A-Za-z]+)\s+(.*)\]$/);
+    if (!tagMatch) {
+      moveLines.push({ lineNumber, text: line });
+      continue;
+    }
+    if (moveLines.length > 0) return fail(lineNumber, 'tags must come before the guesses.');
+    const values = parseTagValues(tagMatch[2]);
+    if (!values || values.length === 0) return fail(lineNumber, `the values of the ${tagMatch[1]} tag must be quoted.`);
+    if (tagMatch[1] === 'Player') {
+      const [id, name, secret = ''] = values;
+      if (!/^[\w-]+$/.test(id)) return fail(lineNumber, `"${id}" is not a valid player ID.`);
+      if (players.some(player => player.id === id)) return fail(lineNumber, `player ${id} is listed twice.`);
+      players.push({ id, name: name || id, secret: secret.split('') });
+    } else {
+      tags[tagMatch[1]] = values;
+    }
+  }
+
+  const format = tags.Format?.[0];
+  if (!format) return { ok: false, error: 'Missing Format tag; this does not look like a game record.' };
+  const [formatName, formatVersion] = format.split(' ');
+  if (formatName !== GAME_NOTATION_FORMAT) return { ok: false, error: `Unknown format "${format}".` };
+  if (Number(formatVersion) !== GAME_NOTATION_VERSION) return { ok: false, error: `Format version ${formatVersion} is not supported; this app reads version ${GAME_NOTATION_VERSION}.` };
+
+  const mode = tags.Mode?.[0] as GameModeKey | undefined;
+  if (!mode || !(mode in GAME_MODE_LABELS)) return { ok: false, error: `Unknown mode "${tags.Mode?.[0] ?? ''}".` };
+  const length = Number(tags.CodeLength?.[0]);
+  if (!Number.isInteger(length) || length < MIN_CODE_LENGTH || length > MAX_CODE_LENGTH) {
+    return { ok: false, error: `CodeLength must be between ${MIN_CODE_LENGTH} and ${MAX_CODE_LENGTH}.` };
+  }
+  const alphabet = (tags.Alphabet?.[0] ?? 'digits') as CodeAlphabet;
+  if (!(alphabet in CODE_ALPHABETS)) return { ok: false, error: `Unknown alphabet "${alphabet}".` };
+  const feedbackMode = (tags.FeedbackMode?.[0] ?? DEFAULT_FEEDBACK_MODE) as FeedbackMode;
+  if (!(feedbackMode in FEEDBACK_MODE_LABELS)) return { ok: false, error: `Unknown feedback mode "${feedbackMode}".` };
+  const codeRules = { length, alphabet };
+
+  const startedAt = Date.parse(tags.Started?.[0] ?? '');
+  if (!Number.isFinite(startedAt)) return { ok: false, error: 'Started must be an ISO date and time.' };
+  const finishedTag = tags.Finished?.[0];
+  const finishedAt = finishedTag === undefined ? startedAt : Date.parse(finishedTag);
+  if (!Number.isFinite(finishedAt)) return { ok: false, error: 'Finished must be an ISO date and time.' };
+
+  if (players.length === 0) return { ok: false, error: 'The game has no Player tags.' };
+  for (const player of players) {
+    if (player.secret.length > 0 && !isValidCode(player.secret, codeRules)) {
+      return { ok: false, error: `The secret of ${player.id} is not a valid code under these rules.` };
+    }
+  }
+  const playerById = (id: string) => players.find(player => player.id === id);
+  const winner = tags.Winner?.[0];
+  if (winner !== undefined && !playerById(winner)) return { ok: false, error: `The winner ${winner} is not one of the players.` };
+
+  const events: GameEvent[] = [];
+  let expectedGuessNumber = 1;
+  for (const { lineNumber, text: line } of moveLines) {
+    const timeMatch = line.match(/\s@(\d+(?:\.\d+)?)$/);
+    const at = startedAt + (timeMatch ? Math.round(Number(timeMatch[1]) * 1000) : 0);
+    const body = timeMatch ? line.slice(0, timeMatch.index).trim() : line;
+
+    const otherEvent = body.match(/^\*\s+(timeout|exit)\s+([\w-]+)(?:\s+#(\d+))?$/);
+    if (otherEvent) {
+      if (!playerById(otherEvent[2])) return fail(lineNumber, `${otherEvent[2]} is not one of the players.`);
+      const event: GameEvent = { type: otherEvent[1] as 'timeout' | 'exit', at, playerId: otherEvent[2] };
+      if (otherEvent[3]) event.placement = Number(otherEvent[3]);
+      events.push(event);
+      continue;
+    }
+
+    const guessMatch = body.match(/^(\d+)\.\s+([\w-]+)\s+>\s+([\w-]+)\s+(\S+)\s+([+-]+)(?:\s+(\d+))?$/);
+    if (!guessMatch) return fail(lineNumber, `"${line}" is neither a guess nor a timeout or exit.`);
+    const [, number, guesserId, targetId, value, feedbackText, misplacedText] = guessMatch;
+    if (Number(number) !== expectedGuessNumber) return fail(lineNumber, `expected guess number ${expectedGuessNumber}, found ${number}.`);
+    expectedGuessNumber++;
+    const target = playerById(targetId);
+    if (!playerById(guesserId)) return fail(lineNumber, `${guesserId} is not one of the players.`);
+    if (!target) return fail(lineNumber, `${targetId} is not one of the players.`);
+    if (target.secret.length === 0) return fail(lineNumber, `${targetId} has no secret to guess.`);
+    // Guesses are not held to the secret rules: older versions let the computer guess codes like 0001
+    const symbols = value.split('');
+    if (symbols.length !== length || !symbols.every(symbol => CODE_ALPHABETS[alphabet].includes(symbol))) {
+      return fail(lineNumber, `${value} is not a ${length}-symbol guess in the ${alphabet} alphabet.`);
+    }
+
+    const feedback = calculateFeedback(symbols, target.secret);
+    const expectedFeedbackText = feedback.map(locked => (locked ? LOCKED : NOT_LOCKED)).join('');
+    if (feedbackText !== expectedFeedbackText) {
+      return fail(lineNumber, `the feedback ${feedbackText} is wrong: ${value} against ${target.secret.join('')} gives ${expectedFeedbackText}.`);
+    }
+    const guess: Guess = { value, feedback };
+    if (feedbackMode === 'bulls-cows') {
+      const misplaced = calculateMisplacedCount(symbols, target.secret);
+      if (misplacedText === undefined || Number(misplacedText) !== misplaced) {
+        return fail(lineNumber, `the misplaced count must be ${misplaced} in a Bulls & Cows game.`);
+      }
+      guess.misplaced = misplaced;
+    } else if (misplacedText !== undefined) {
+      return fail(lineNumber, 'a misplaced count is only given in Bulls & Cows games.');
+    }
+    events.push({ type: 'guess', at, playerId: guesserId, targetPlayerId: targetId, guess });
+  }
+
+  // Turn changes are not part of the notation; they are rebuilt from who acts next
+  const replayEvents: GameEvent[] = [];
+  let turn = events.find(event => event.type === 'guess')?.playerId;
+  if (turn) replayEvents.push({ type: 'game-start', at: startedAt, playerId: turn });
+  events.forEach((event, index) => {
+    replayEvents.push(event);
+    const nextGuesser = events.slice(index + 1).find(next => next.type === 'guess')?.playerId;
+    if (nextGuesser && nextGuesser !== turn) {
+      replayEvents.push({ type: 'turn', at: event.at, playerId: nextGuesser, reason: event.type === 'exit' ? 'forfeit' : event.type === 'timeout' ? 'timeout' : 'guess' });
+      turn = nextGuesser;
+    }
+  });
+  const gameOver: GameEvent = { type: 'game-over', at: Math.max(finishedAt, events[events.length - 1]?.at ?? startedAt) };
+  if (winner) gameOver.winner = winner;
+  replayEvents.push(gameOver);
+
+  const secrets: { [playerId: string]: string[] } = {};
+  players.forEach(player => {
+    if (player.secret.length > 0) secrets[player.id] = player.secret;
+  });
+  const replay: GameReplay = {
+    replayId,
+    mode,
+    players: players.map(({ id, name }) => ({ id, name })),
+    secrets,
+    codeRules,
+    feedbackMode,
+    events: replayEvents,
+    startedAt,
+    finishedAt: gameOver.at,
+  };
+  if (winner) replay.winner = winner;
+  return { ok: true, replay };
+}
@@ -0,0 +1,44 @@
+// The seat a browser holds in a multiplayer room, kept in localStorage so reloads and reconnects can rejoin
+export interface GameSession {
+  playerId: string;
+  reconnectToken: string; // Signed by the server; the only way to get the seat back
+}
+
+const sessionKey = (gameId: string) => `gameSession_${gameId}`;
+
+/**
+ * Stores the seat the server assigned in a room.
+ * @param {string} gameId - The room code.
+ * @param {GameSession} session - The seat and its reconnect token.
+ */
+export function saveGameSession(gameId: string, session: GameSession): void {
+  localStorage.setItem(sessionKey(gameId), JSON.stringify(session));
+}
+
+/**
+ * Reads the seat held in a room, if any.
+ * @param {string} gameId - The room code.
+ * @returns {GameSession | null} The session, or null if there is none or it is unreadable.
+ */
+export function loadGameSession(gameId: string): GameSession | null {
+  const stored = localStorage.getItem(sessionKey(gameId));
+  if (!stored) return null;
+  try {
+    const session = JSON.parse(stored);
+    if (typeof session?.playerId === 'string' && typeof session?.reconnectToken === 'string') {
+      return { playerId: session.playerId, reconnectToken: session.reconnectToken };
+    }
+  } catch {
+    // Fall through and drop the unreadable entry
+  }
+  localStorage.removeItem(sessionKey(gameId));
+  return null;
+}
+
+/**
+ * Forgets the seat held in a room, e.g. after leaving it.
+ * @param {string} gameId - The room code.
+ */
+export function clearGameSession(gameId: string): void {
+  localStorage.removeItem(sessionKey(gameId));
+}
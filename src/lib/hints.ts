@@ -0,0 +1,53 @@
+import type { CodeRules, FeedbackMode, Guess } from '@/types/game';
+import { DEFAULT_CODE_RULES, DEFAULT_FEEDBACK_MODE } from '@/lib/gameLogic';
+import { generateMinimaxGuess, getPositionOptions, listConsistentCandidates } from '@/lib/solver';
+import type { RandomSource } from '@/lib/random';
+
+// How many codes could still be the secret
+export interface CandidateCount {
+  count: number;
+  isExact: boolean; // False if the candidates were too many to list and count is an upper bound
+}
+
+// What a player sees when they ask for a hint
+export interface Hint {
+  positionOptions: string[][]; // Symbols each position can still hold; one symbol means the position is confirmed
+  suggestion: string; // A next guess that splits the remaining candidates well
+}
+
+/**
+ * Counts the codes that are still consistent with the feedback so far. When the candidates are
+ * too many to list, the product of the symbols each position can still hold is returned instead.
+ * @param {Guess[]} guesses - All scored guesses against the same secret.
+ * @param {CodeRules} [rules=DEFAULT_CODE_RULES] - Length and alphabet of the code.
+ * @returns {CandidateCount} The count.
+ */
+export function countCandidates(guesses: Guess[], rules: CodeRules = DEFAULT_CODE_RULES): CandidateCount {
+  const candidates = listConsistentCandidates(guesses, rules);
+  if (candidates) {
+    return { count: candidates.length, isExact: true };
+  }
+  const upperBound = getPositionOptions(guesses, rules).reduce((total, symbols) => total * symbols.length, 1);
+  return { count: upperBound, isExact: false };
+}
+
+/**
+ * Builds a hint: which symbols each position can still hold, and the guess the Perfect computer
+ * would make next.
+ * @param {Guess[]} guesses - All scored guesses against the same secret.
+ * @param {CodeRules} [rules=DEFAULT_CODE_RULES] - Length and alphabet of the code.
+ * @param {FeedbackMode} [feedbackMode=DEFAULT_FEEDBACK_MODE] - The ruleset of the game.
+ * @param {RandomSource} [random=Math.random] - The random source.
+ * @returns {Hint} The hint.
+ */
+export function buildHint(
+  guesses: Guess[],
+  rules: CodeRules = DEFAULT_CODE_RULES,
+  feedbackMode: FeedbackMode = DEFAULT_FEEDBACK_MODE,
+  random: RandomSource = Math.random
+): Hint {
+  return {
+    positionOptions: getPositionOptions(guesses, rules),
+    suggestion: generateMinimaxGuess(guesses, rules, feedbackMode, random).join(''),
+  };
+}
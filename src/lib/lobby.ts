@@ -0,0 +1,112 @@
+import type { GameRoom, RoomListFilters, RoomListing } from '@/types/game';
+import { describeCodeRules, normalizeCodeRules, DEFAULT_FEEDBACK_MODE, FEEDBACK_MODE_LABELS } from '@/lib/gameLogic';
+import { DEFAULT_CRACK_RULE, DEFAULT_TARGET_MODE } from '@/lib/targeting';
+import { describeTurnTimer, normalizeTurnTimerSettings } from '@/lib/turnClock';
+import { describeSeries, normalizeBestOf } from '@/lib/series';
+
+export const MAX_LISTED_ROOMS = 50;
+
+// The player count names used in multiplayer URLs
+export const PLAYER_COUNT_PARAMS: { [playerCount: number]: string } = {
+  2: 'duo',
+  3: 'trio',
+  4: 'quads',
+};
+
+/**
+ * Builds the lobby entry of a room.
+ * @param {GameRoom} room - The room as stored in the database.
+ * @param {number} [now=Date.now()] - The current time in epoch milliseconds.
+ * @returns {RoomListing} The listing.
+ */
+export function buildRoomListing(room: GameRoom, now: number = Date.now()): RoomListing {
+  const players = room.players || {};
+  const host = players['player1'];
+  return {
+    gameId: room.gameId,
+    playerCount: room.playerCount,
+    joinedCount: Object.values(players).filter(player => player.socketId).length,
+    hostName: host?.displayName || 'player1',
+    targetMode: room.targetMode || DEFAULT_TARGET_MODE,
+    crackRule: room.crackRule || DEFAULT_CRACK_RULE,
+    feedbackMode: room.feedbackMode || DEFAULT_FEEDBACK_MODE,
+    codeRules: normalizeCodeRules(room.codeRules),
+    turnTimer: normalizeTurnTimerSettings(room.turnTimer),
+    bestOf: normalizeBestOf(room.bestOf),
+    hintsAllowed: room.hintsAllowed === true,
+    hardcore: room.hardcore === true,
+    ageMs: Math.max(0, now - new Date(room.createdAt).getTime()),
+  };
+}
+
+/**
+ * Checks whether a listed room still has a free seat. Rooms nobody is connected to are
+ * left over from a host that went away and are not offered.
+ * @param {RoomListing} listing - The listing.
+ * @returns {boolean} True if the room can be joined.
+ */
+export function isRoomJoinable(listing: RoomListing): boolean {
+  return listing.joinedCount > 0 && listing.joinedCount < listing.playerCount;
+}
+
+/**
+ * Reads room listing filters from a query string, ignoring unknown values.
+ * @param {{ [key: string]: string | string[] | undefined }} query - The request query.
+ * @returns {RoomListFilters} The valid filters.
+ */
+export function parseRoomListFilters(query: { [key: string]: string | string[] | undefined }): RoomListFilters {
+  const filters: RoomListFilters = {};
+  const playerCount = typeof query.playerCount === 'string' ? Number(query.playerCount) : NaN;
+  if (playerCount in PLAYER_COUNT_PARAMS) {
+    filters.playerCount = playerCount;
+  }
+  return filters;
+}
+
+/**
+ * Picks the room a quick match should join: the oldest joinable room with the wanted number of seats.
+ * @param {RoomListing[]} listings - The open rooms, in any order.
+ * @param {number} playerCount - The number of seats the player wants.
+ * @returns {RoomListing | null} The room to join, or null if a new room should be created.
+ */
+export function pickQuickMatchRoom(listings: RoomListing[], playerCount: number): RoomListing | null {
+  const compatible = listings
+    .filter(listing => listing.playerCount === playerCount && isRoomJoinable(listing))
+    .sort((a, b) => b.ageMs - a.ageMs);
+  return compatible[0] || null;
+}
+
+/**
+ * Summarizes a room's ruleset for the lobby, e.g. "4-digit · Exact Positions · 30s turns · Best of 3".
+ * @param {RoomListing} listing - The listing.
+ * @returns {string} The summary.
+ */
+export function describeRoomRules(listing: RoomListing): string {
+  const parts = [describeCodeRules(listing.codeRules), FEEDBACK_MODE_LABELS[listing.feedbackMode], describeTurnTimer(listing.turnTimer)];
+  if (listing.bestOf > 1) {
+    parts.push(describeSeries(listing.bestOf));
+  }
+  if (listing.playerCount > 2) {
+    parts.push(listing.targetMode === 'all' ? 'Free-for-all' : 'Ring targets');
+    parts.push(listing.crackRule === 'finish' ? 'Race' : 'Eliminate');
+  }
+  if (listing.hardcore) {
+    parts.push('Hardcore');
+  }
+  if (listing.hintsAllowed) {
+    parts.push('Hints allowed');
+  }
+  return parts.join(' · ');
+}
+
+/**
+ * Formats how long ago a room was created, e.g. "just now", "4 min" or "2 h".
+ * @param {number} ageMs - The room's age in milliseconds.
+ * @returns {string} The label.
+ */
+export function formatRoomAge(ageMs: number): string {
+  const minutes = Math.floor(ageMs / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min`;
+  return `${Math.floor(minutes / 60)} h`;
+}
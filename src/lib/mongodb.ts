@@ -0,0 +1,33 @@
+import { MongoClient, Db as MongoDb } from 'mongodb';
+
+const MONGODB_URI = process.env.MONGODB_URI;
+export const DATABASE_NAME = "4SureDB";
+
+let dbConnectionPromise: Promise<MongoDb | null> | null = null;
+
+/**
+ * Connects to MongoDB once per server process and shares the connection between API routes.
+ * @returns {Promise<MongoDb | null>} The database, or null if MONGODB_URI is missing or the connection failed.
+ */
+export function getDb(): Promise<MongoDb | null> {
+  if (!dbConnectionPromise) {
+    dbConnectionPromise = (async () => {
+      console.log("[MongoDB] Attempting to connect to MongoDB...");
+      if (!MONGODB_URI) {
+        console.warn('[MongoDB] MONGODB_URI not found. Database operations will be unavailable.');
+        return null;
+      }
+      try {
+        const client = new MongoClient(MONGODB_URI);
+        await client.connect();
+        const connectedDb = client.db(DATABASE_NAME);
+        console.log(`[MongoDB] Successfully connected to MongoDB. Database: ${DATABASE_NAME}`);
+        return connectedDb;
+      } catch (error) {
+        console.error("[MongoDB] Error connecting to MongoDB:", error);
+        return null;
+      }
+    })();
+  }
+  return dbConnectionPromise;
+}
@@ -0,0 +1,85 @@
+import type { Guess } from '@/types/game';
+
+// A note on one symbol at one position of the code: ruled out, or believed to be the symbol there
+export type NotepadMark = 'crossed' | 'pinned';
+
+// Marks keyed by notepadCell(position, symbol)
+export type NotepadMarks = { [cell: string]: NotepadMark };
+
+const NOTEPAD_STORAGE_PREFIX = 'numberlock-notepad-';
+// Game key of the single player notepads; each game adds its seed
+export const SINGLE_PLAYER_NOTEPAD_KEY = 'single';
+
+/**
+ * Builds the key of a notepad cell.
+ * @param {number} position - The position in the code, from 0.
+ * @param {string} symbol - The symbol.
+ * @returns {string} The cell key.
+ */
+export function notepadCell(position: number, symbol: string): string {
+  return `${position}:${symbol}`;
+}
+
+/**
+ * Moves a cell to its next mark when clicked: empty, crossed off, pinned, empty again.
+ * @param {NotepadMarks} marks - The player's marks.
+ * @param {string} cell - The clicked cell.
+ * @returns {NotepadMarks} The new marks.
+ */
+export function cycleNotepadMark(marks: NotepadMarks, cell: string): NotepadMarks {
+  const next = { ...marks };
+  if (!marks[cell]) next[cell] = 'crossed';
+  else if (marks[cell] === 'crossed') next[cell] = 'pinned';
+  else delete next[cell];
+  return next;
+}
+
+/**
+ * Derives the marks that follow for certain from the feedback so far. A locked position pins
+ * its symbol and rules out every other symbol there; a position that did not lock rules out
+ * the symbol that was guessed there.
+ * @param {Guess[]} guesses - Guesses against one secret, with their feedback.
+ * @param {string[]} symbols - The alphabet of the code.
+ * @returns {NotepadMarks} The known marks.
+ */
+export function getKnownNotepadMarks(guesses: Guess[], symbols: string[]): NotepadMarks {
+  const marks: NotepadMarks = {};
+  const lockedPositions = new Set<number>();
+  guesses.forEach(guess => {
+    guess.value.split('').forEach((symbol, position) => {
+      if (!guess.feedback[position] || lockedPositions.has(position)) return;
+      lockedPositions.add(position);
+      symbols.forEach(other => {
+        marks[notepadCell(position, other)] = other === symbol ? 'pinned' : 'crossed';
+      });
+    });
+  });
+  guesses.forEach(guess => {
+    guess.value.split('').forEach((symbol, position) => {
+      if (!guess.feedback[position] && !lockedPositions.has(position)) marks[notepadCell(position, symbol)] = 'crossed';
+    });
+  });
+  return marks;
+}
+
+/**
+ * Builds the localStorage key of a notepad. Notepads of one game share a prefix so they can be
+ * cleared together.
+ * @param {string} gameKey - Identifies the game, e.g. the room code or the daily date.
+ * @param {string} [secretOwner] - Whose secret the notes are about, when a game has several.
+ * @returns {string} The storage key.
+ */
+export function getNotepadStorageKey(gameKey: string, secretOwner?: string): string {
+  return `${NOTEPAD_STORAGE_PREFIX}${gameKey}${secretOwner ? `-${secretOwner}` : ''}`;
+}
+
+/**
+ * Removes every stored notepad of a game, e.g. before a rematch in the same room.
+ * @param {string} gameKey - Identifies the game, as passed to getNotepadStorageKey.
+ */
+export function clearNotepads(gameKey: string): void {
+  const prefix = getNotepadStorageKey(gameKey);
+  Object.keys(localStorage)
+    .filter(key => key === prefix || key.startsWith(`${prefix}-`))
+    .forEach(key => localStorage.removeItem(key));
+}
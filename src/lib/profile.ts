@@ -0,0 +1,114 @@
+import type { GameModeKey, GameResultSummary, ModeStats, PlayerProfile } from '@/types/game';
+import { createRandomSeed, type RandomSource } from '@/lib/random';
+
+export const GAME_MODE_LABELS: { [mode in GameModeKey]: string } = {
+  'single': 'Single Player',
+  'multiplayer': 'Multiplayer',
+  'daily': 'Daily Challenge',
+};
+
+// Request header carrying the key that proves ownership of a profile when saving it
+export const PROFILE_KEY_HEADER = 'x-profile-key';
+
+const EMPTY_MODE_STATS: ModeStats = { played: 0, wins: 0, losses: 0, solves: 0, totalSolveGuesses: 0 };
+
+/**
+ * Generates a stable profile ID. It is created once and never derived from the username.
+ * @param {RandomSource} [random=Math.random] - The random source.
+ * @returns {string} The profile ID.
+ */
+export function createProfileId(random: RandomSource = Math.random): string {
+  return `p_${createRandomSeed(random)}${createRandomSeed(random)}`;
+}
+
+/**
+ * Creates an empty profile.
+ * @param {string} profileId - The stable profile ID.
+ * @param {string} username - The player's current username.
+ * @param {Date} [now=new Date()] - The creation time.
+ * @returns {PlayerProfile} The new profile.
+ */
+export function createPlayerProfile(profileId: string, username: string, now: Date = new Date()): PlayerProfile {
+  return {
+    profileId,
+    username,
+    stats: {},
+    currentStreak: 0,
+    longestStreak: 0,
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+  };
+}
+
+/**
+ * Adds a finished game to a profile.
+ * @param {PlayerProfile} profile - The profile to update.
+ * @param {GameResultSummary} result - The finished game.
+ * @param {Date} [now=new Date()] - When the game finished.
+ * @returns {PlayerProfile} The updated profile.
+ */
+export function applyGameResult(profile: PlayerProfile, result: GameResultSummary, now: Date = new Date()): PlayerProfile {
+  const previous = profile.stats[result.mode] || EMPTY_MODE_STATS;
+  const stats: ModeStats = {
+    ...previous,
+    played: previous.played + 1,
+    wins: previous.wins + (result.won ? 1 : 0),
+    losses: previous.losses + (result.won ? 0 : 1),
+  };
+  if (result.won && result.guessCount !== undefined && result.guessCount > 0) {
+    stats.solves = previous.solves + 1;
+    stats.totalSolveGuesses = previous.totalSolveGuesses + result.guessCount;
+  }
+  if (result.won && result.durationMs !== undefined && result.durationMs >= 0) {
+    stats.fastestSolveMs = previous.fastestSolveMs === undefined
+      ? result.durationMs
+      : Math.min(previous.fastestSolveMs, result.durationMs);
+  }
+
+  const currentStreak = result.won ? profile.currentStreak + 1 : 0;
+  return {
+    ...profile,
+    stats: { ...profile.stats, [result.mode]: stats },
+    currentStreak,
+    longestStreak: Math.max(profile.longestStreak, currentStreak),
+    updatedAt: now.toISOString(),
+  };
+}
+
+/**
+ * Average number of guesses per solved game.
+ * @param {ModeStats} [stats] - The stats of one mode.
+ * @returns {number | null} The average, or null if nothing was solved yet.
+ */
+export function getAverageGuesses(stats?: ModeStats): number | null {
+  return stats && stats.solves > 0 ? stats.totalSolveGuesses / stats.solves : null;
+}
+
+/**
+ * Picks the more recently updated of two copies of the same profile (e.g. local and database).
+ * @param {PlayerProfile} local - The copy in localStorage.
+ * @param {PlayerProfile | null} remote - The copy in the database, if any.
+ * @returns {PlayerProfile} The newer copy.
+ */
+export function pickNewerProfile(local: PlayerProfile, remote: PlayerProfile | null): PlayerProfile {
+  if (!remote || remote.profileId !== local.profileId) {
+    return local;
+  }
+  return Date.parse(remote.updatedAt) > Date.parse(local.updatedAt) ? remote : local;
+}
+
+/**
+ * Checks that untrusted input (e.g. a request body) has the shape of a profile.
+ * @param {unknown} value - The value to check.
+ * @returns {boolean} True if the value looks like a PlayerProfile.
+ */
+export function isPlayerProfile(value: unknown): value is PlayerProfile {
+  if (!value || typeof value !== 'object') return false;
+  const profile = value as Partial<PlayerProfile>;
+  return typeof profile.profileId === 'string' && profile.profileId.length > 0 && profile.profileId.length <= 64
+    && typeof profile.username === 'string'
+    && !!profile.stats && typeof profile.stats === 'object'
+    && typeof profile.currentStreak === 'number'
+    && typeof profile.longestStreak === 'number'
+    && typeof profile.updatedAt === 'string' && !Number.isNaN(Date.parse(profile.updatedAt));
+}
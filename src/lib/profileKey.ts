@@ -0,0 +1,50 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import type { Db } from 'mongodb';
+
+export const PROFILES_COLLECTION_NAME = "playerProfiles";
+
+/**
+ * Creates the secret that proves ownership of a profile. The server hands it out once, when it first
+ * stores the profile, and only keeps its hash.
+ * @returns {string} The profile key.
+ */
+export function createProfileKey(): string {
+  return randomBytes(24).toString('base64url');
+}
+
+/**
+ * Hashes a profile key for storage.
+ * @param {string} key - The profile key.
+ * @returns {string} The hash.
+ */
+export function hashProfileKey(key: string): string {
+  return createHash('sha256').update(key).digest('base64url');
+}
+
+/**
+ * Checks a profile key sent by a client against the stored hash.
+ * @param {unknown} key - The key sent by the client.
+ * @param {string} keyHash - The stored hash.
+ * @returns {boolean} True if the key belongs to the profile.
+ */
+export function isProfileKeyValid(key: unknown, keyHash: string): boolean {
+  if (typeof key !== 'string' || key.length === 0) return false;
+  const expected = Buffer.from(keyHash);
+  const actual = Buffer.from(hashProfileKey(key));
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Checks that a client owns the profile it names, by its key. Results are only attributed to a profile
+ * that passes this check; a profile that was never saved (and so has no key yet) does not.
+ * @param {Db} db - The database.
+ * @param {unknown} profileId - The profile ID sent by the client.
+ * @param {unknown} key - The profile key sent by the client.
+ * @returns {Promise<string | null>} The profile ID, or null if the client could not prove it owns it.
+ */
+export async function verifyProfileOwner(db: Db, profileId: unknown, key: unknown): Promise<string | null> {
+  if (typeof profileId !== 'string' || profileId.length === 0 || profileId.length > 64) return null;
+  const stored = await db.collection<{ profileId: string; keyHash?: string }>(PROFILES_COLLECTION_NAME)
+    .findOne({ profileId }, { projection: { keyHash: 1 } });
+  return stored?.keyHash && isProfileKeyValid(key, stored.keyHash) ? profileId : null;
+}
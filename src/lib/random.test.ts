@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { generateDailySecret } from '@/lib/daily';
+import { DEFAULT_CODE_RULES, generateComputerSecret } from '@/lib/gameLogic';
+import { createRandomSeed, createSeededRandom, deriveRandom, hashSeed, randomInt, shuffle } from '@/lib/random';
+
+// Seeded games, replays and the daily code depend on these exact sequences; a change here changes every seeded game
+describe('createSeededRandom', () => {
+  it('hashes string and number seeds to fixed 32-bit integers', () => {
+    expect(hashSeed('numberlock')).toBe(1696913319);
+    expect(hashSeed(42)).toBe(2279835011);
+  });
+
+  it('yields the same sequence for the same seed', () => {
+    const random = createSeededRandom('numberlock');
+    expect([random(), random(), random(), random()]).toEqual([
+      0.24329390795901418,
+      0.9315190964844078,
+      0.9338831750210375,
+      0.6308221539948136,
+    ]);
+    const numberSeeded = createSeededRandom(42);
+    expect([numberSeeded(), numberSeeded(), numberSeeded()]).toEqual([
+      0.3077305785845965,
+      0.3676118436269462,
+      0.23133554426021874,
+    ]);
+  });
+
+  it('drives randomInt, shuffle and createRandomSeed deterministically', () => {
+    expect(randomInt(10, createSeededRandom('numberlock'))).toBe(2);
+    expect(shuffle([1, 2, 3, 4, 5, 6], createSeededRandom('numberlock'))).toEqual([1, 3, 6, 4, 5, 2]);
+    expect(createRandomSeed(createSeededRandom('numberlock'))).toBe('ha4odu');
+  });
+});
+
+describe('deriveRandom', () => {
+  it('derives the stream of its joined labels', () => {
+    const derived = deriveRandom('numberlock', 'guess', 3);
+    expect([derived(), derived()]).toEqual([0.6599442171864212, 0.6978140831924975]);
+    const same = createSeededRandom('numberlock:guess:3');
+    expect([same(), same()]).toEqual([0.6599442171864212, 0.6978140831924975]);
+  });
+
+  it('gives each purpose its own stream', () => {
+    expect(deriveRandom('numberlock', 'guess', 3)()).not.toBe(deriveRandom('numberlock', 'guess', 4)());
+    expect(deriveRandom('numberlock', 'secret')()).not.toBe(deriveRandom('numberlock', 'start')());
+  });
+
+  it('derives the same secrets from the same seed', () => {
+    expect(generateComputerSecret(DEFAULT_CODE_RULES, 'any', deriveRandom('numberlock', 'secret'))).toEqual(['8', '5', '3', '9']);
+    expect(generateDailySecret('2026-10-19', 'numberlock')).toEqual(['4', '6', '4', '4']);
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * A source of random numbers in [0, 1), interchangeable with Math.random.
+ */
+export type RandomSource = () => number;
+
+/**
+ * Hashes a seed into a 32-bit integer so that strings such as dates or game IDs can be used as seeds.
+ * @param {number | string} seed - The seed.
+ * @returns {number} An unsigned 32-bit integer.
+ */
+export function hashSeed(seed: number | string): number {
+  const text = String(seed);
+  let hash = 2166136261;
+  for (let index = 0; index < text.length; index++) {
+    hash ^= text.charCodeAt(index);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Creates a deterministic random source (mulberry32). The same seed always yields the same sequence.
+ * @param {number | string} seed - The seed.
+ * @returns {RandomSource} The seeded random source.
+ */
+export function createSeededRandom(seed: number | string): RandomSource {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let value = state;
+    value = Math.imul(value ^ (value >>> 15), value | 1);
+    value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Picks a random integer in [0, maxExclusive).
+ * @param {number} maxExclusive - The upper bound.
+ * @param {RandomSource} [random=Math.random] - The random source.
+ * @returns {number} The random integer.
+ */
+export function randomInt(maxExclusive: number, random: RandomSource = Math.random): number {
+  return Math.floor(random() * maxExclusive);
+}
+
+/**
+ * Returns a shuffled copy of a list (Fisher-Yates).
+ * @param {T[]} items - The list to shuffle.
+ * @param {RandomSource} [random=Math.random] - The random source.
+ * @returns {T[]} The shuffled copy.
+ */
+export function shuffle<T>(items: T[], random: RandomSource = Math.random): T[] {
+  const shuffled = [...items];
+  for (let index = shuffled.length - 1; index > 0; index--) {
+    const swapIndex = randomInt(index + 1, random);
+    [shuffled[index], shuffled[swapIndex]] = [shuffled[swapIndex], shuffled[index]];
+  }
+  return shuffled;
+}
+
+/**
+ * Creates a new seed string from a random source.
+ * @param {RandomSource} [random=Math.random] - The random source.
+ * @returns {string} A short base-36 seed.
+ */
+export function createRandomSeed(random: RandomSource = Math.random): string {
+  return randomInt(2 ** 32, random).toString(36);
+}
+
+/**
+ * Creates an independent seeded stream for one purpose within a seeded game, e.g.
+ * deriveRandom(seed, 'guess', 3) for the fourth computer guess. Deriving a fresh stream per
+ * purpose keeps results reproducible even when earlier draws are skipped or reordered.
+ * @param {string} seed - The game's seed.
+ * @param {...(string | number)} labels - What the stream is used for.
+ * @returns {RandomSource} The seeded random source.
+ */
+export function deriveRandom(seed: string, ...labels: (string | number)[]): RandomSource {
+  return createSeededRandom([seed, ...labels].join(':'));
+}
@@ -0,0 +1,57 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+// What a reconnect token proves: the holder was given this seat in this room
+export interface ReconnectClaims {
+  gameId: string;
+  playerId: string;
+  sessionId: string; // Changes whenever a new person takes the seat, so old tokens stop working
+}
+
+/**
+ * Creates a random session ID for a newly taken seat.
+ * @returns {string} The session ID.
+ */
+export function createSessionId(): string {
+  return randomBytes(12).toString('base64url');
+}
+
+function sign(payload: string, secret: string): string {
+  return createHmac('sha256', secret).update(payload).digest('base64url');
+}
+
+/**
+ * Signs the claims of a seat into a token the client keeps to get the seat back after a reconnect.
+ * @param {ReconnectClaims} claims - The seat.
+ * @param {string} secret - The server's signing secret.
+ * @returns {string} The token, "<payload>.<signature>".
+ */
+export function createReconnectToken(claims: ReconnectClaims, secret: string): string {
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  return `${payload}.${sign(payload, secret)}`;
+}
+
+/**
+ * Checks a token's signature and reads its claims. Whether the claims still match the room is up to the caller.
+ * @param {unknown} token - The token sent by the client.
+ * @param {string} secret - The server's signing secret.
+ * @returns {ReconnectClaims | null} The claims, or null if the token is malformed or was not signed with the secret.
+ */
+export function verifyReconnectToken(token: unknown, secret: string): ReconnectClaims | null {
+  if (typeof token !== 'string') return null;
+  const [payload, signature, ...rest] = token.split('.');
+  if (!payload || !signature || rest.length > 0) return null;
+
+  const expected = Buffer.from(sign(payload, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    if (typeof claims?.gameId !== 'string' || typeof claims?.playerId !== 'string' || typeof claims?.sessionId !== 'string') {
+      return null;
+    }
+    return { gameId: claims.gameId, playerId: claims.playerId, sessionId: claims.sessionId };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,48 @@
+import type { GameRoom } from '@/types/game';
+
+// How long a finished room is kept for a rematch while its players are still connected
+export const REMATCH_WINDOW_MS = 10 * 60 * 1000;
+
+/**
+ * Lists the players who take part in a rematch: everyone seated in the finished game.
+ * @param {GameRoom} room - The finished room.
+ * @returns {string[]} The playerIds, in seating order.
+ */
+export function getRematchPlayerIds(room: GameRoom): string[] {
+  if (room.turnOrder && room.turnOrder.length > 0) return room.turnOrder;
+  return Object.keys(room.players || {}).sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+}
+
+/**
+ * Checks whether a rematch can still be agreed on: the game was actually played and every
+ * player of it is still in the room.
+ * @param {GameRoom} room - The room.
+ * @returns {boolean} True if the players may vote for a rematch.
+ */
+export function canRematch(room: GameRoom): boolean {
+  if (room.status !== 'GAME_OVER' || !room.inProgressSince) return false;
+  return getRematchPlayerIds(room).every(playerId => !!room.players[playerId]?.socketId);
+}
+
+/**
+ * Checks whether every player of the finished game has accepted the rematch.
+ * @param {GameRoom} room - The room.
+ * @returns {boolean} True if the room should be reset for the next game.
+ */
+export function isRematchAgreed(room: GameRoom): boolean {
+  const votes = room.rematchVotes || [];
+  return canRematch(room) && getRematchPlayerIds(room).every(playerId => votes.includes(playerId));
+}
+
+/**
+ * Checks whether a finished room should survive the cleanup of finished rooms because its
+ * players may still agree on a rematch.
+ * @param {GameRoom} room - The finished room.
+ * @param {number} [now=Date.now()] - The current time in epoch milliseconds.
+ * @returns {boolean} True if the room should be kept.
+ */
+export function isAwaitingRematch(room: GameRoom, now: number = Date.now()): boolean {
+  if (!canRematch(room)) return false;
+  const finishedAt = room.finishedAt ? new Date(room.finishedAt).getTime() : now;
+  return now - finishedAt < REMATCH_WINDOW_MS;
+}
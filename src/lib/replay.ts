@@ -0,0 +1,141 @@
+import type { GameEvent, GameReplay, GameRoom, Guess } from '@/types/game';
+
+const LOCAL_REPLAYS_KEY = 'numberlock-replays';
+// Replays of games played in this browser that are kept; older ones are dropped first
+export const MAX_LOCAL_REPLAYS = 20;
+
+// What the board looks like after a number of events have been played back
+export interface ReplayFrame {
+  guessesAgainst: { [playerId: string]: Guess[] }; // Guesses against each player's secret so far
+  turn?: string; // Whose turn it is
+  outPlayerIds: string[]; // Players who timed out of or left the game
+  lastEvent?: GameEvent;
+}
+
+/**
+ * Builds the ID of the replay of a multiplayer game. A room hosts several games across rematches,
+ * so the start of the game is part of the ID; clients holding the room view build the same ID.
+ * @param {string} gameId - The room code.
+ * @param {Date | string} inProgressSince - When the game started, as stored or as received in JSON.
+ * @returns {string} The replay ID.
+ */
+export function getRoomReplayId(gameId: string, inProgressSince: Date | string): string {
+  return `${gameId}-${new Date(inProgressSince).getTime()}`;
+}
+
+/**
+ * Builds the replay of a finished multiplayer game. Rooms that never started have none.
+ * @param {GameRoom} room - The room, with status GAME_OVER.
+ * @returns {GameReplay | null} The replay, or null if there is nothing to replay.
+ */
+export function buildRoomReplay(room: GameRoom): GameReplay | null {
+  if (room.status !== 'GAME_OVER' || !room.inProgressSince) {
+    return null;
+  }
+  const playerIds = room.turnOrder && room.turnOrder.length > 0 ? room.turnOrder : Object.keys(room.players);
+  const secrets: { [playerId: string]: string[] } = {};
+  playerIds.forEach(playerId => {
+    secrets[playerId] = room.players[playerId]?.secret || [];
+  });
+  const replay: GameReplay = {
+    replayId: getRoomReplayId(room.gameId, room.inProgressSince),
+    mode: 'multiplayer',
+    players: playerIds.map(playerId => ({ id: playerId, name: room.players[playerId]?.displayName || playerId })),
+    secrets,
+    codeRules: room.codeRules,
+    feedbackMode: room.feedbackMode,
+    events: room.events || [],
+    startedAt: new Date(room.inProgressSince).getTime(),
+    finishedAt: room.finishedAt ? new Date(room.finishedAt).getTime() : Date.now(),
+  };
+  if (room.winner) replay.winner = room.winner;
+  return replay;
+}
+
+/**
+ * Plays back the first events of a replay.
+ * @param {GameReplay} replay - The replay.
+ * @param {number} step - How many events to apply, from 0 (before the first event) to events.length.
+ * @returns {ReplayFrame} The board after those events.
+ */
+export function getReplayFrame(replay: GameReplay, step: number): ReplayFrame {
+  const frame: ReplayFrame = { guessesAgainst: {}, outPlayerIds: [] };
+  replay.players.forEach(player => {
+    frame.guessesAgainst[player.id] = [];
+  });
+  replay.events.slice(0, Math.max(0, step)).forEach(event => {
+    frame.lastEvent = event;
+    if (event.type === 'guess' && event.guess && event.targetPlayerId) {
+      frame.guessesAgainst[event.targetPlayerId] = [...(frame.guessesAgainst[event.targetPlayerId] || []), event.guess];
+    } else if ((event.type === 'game-start' || event.type === 'turn') && event.playerId) {
+      frame.turn = event.playerId;
+    } else if ((event.type === 'exit' || (event.type === 'timeout' && event.placement)) && event.playerId) {
+      frame.outPlayerIds = [...frame.outPlayerIds, event.playerId];
+    } else if (event.type === 'game-over') {
+      frame.turn = undefined;
+    }
+  });
+  return frame;
+}
+
+/**
+ * Describes an event in one line, e.g. "Alice guessed 1234 against Bob: 2 locked".
+ * @param {GameEvent} event - The event.
+ * @param {{ [playerId: string]: string }} names - Display names by playerId.
+ * @returns {string} The description.
+ */
+export function describeGameEvent(event: GameEvent, names: { [playerId: string]: string }): string {
+  const name = (playerId?: string) => (playerId ? names[playerId] || playerId : 'Someone');
+  switch (event.type) {
+    case 'secret-set':
+      return `${name(event.playerId)} locked in a secret`;
+    case 'game-start':
+      return `The game started with ${name(event.playerId)} to move`;
+    case 'guess': {
+      const locked = event.guess ? event.guess.feedback.filter(Boolean).length : 0;
+      return `${name(event.playerId)} guessed ${event.guess?.value ?? '?'} against ${name(event.targetPlayerId)}: ${locked} locked`;
+    }
+    case 'turn':
+      return `${name(event.playerId)}'s turn${event.reason === 'timeout' ? ' (previous turn timed out)' : event.reason === 'forfeit' ? ' (previous player left)' : ''}`;
+    case 'timeout':
+      return `${name(event.playerId)} ran out of time${event.placement ? ` and finished #${event.placement}` : ''}`;
+    case 'exit':
+      return `${name(event.playerId)} left the game${event.placement ? ` and finished #${event.placement}` : ''}`;
+    case 'game-over':
+      return event.winner ? `Game over: ${name(event.winner)} wins` : 'Game over';
+  }
+}
+
+/**
+ * Reads the replays stored in this browser, newest first.
+ * @returns {GameReplay[]} The replays; an unreadable store counts as empty.
+ */
+function loadLocalReplays(): GameReplay[] {
+  const stored = localStorage.getItem(LOCAL_REPLAYS_KEY);
+  if (!stored) return [];
+  try {
+    const replays = JSON.parse(stored);
+    return Array.isArray(replays) ? replays.filter(replay => typeof replay?.replayId === 'string' && Array.isArray(replay?.events)) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Stores the replay of a game played in this browser (single player and daily games are not
+ * stored on the server). Saving the same replay again replaces it.
+ * @param {GameReplay} replay - The replay.
+ */
+export function saveLocalReplay(replay: GameReplay): void {
+  const replays = [replay, ...loadLocalReplays().filter(stored => stored.replayId !== replay.replayId)].slice(0, MAX_LOCAL_REPLAYS);
+  localStorage.setItem(LOCAL_REPLAYS_KEY, JSON.stringify(replays));
+}
+
+/**
+ * Looks up a replay stored in this browser.
+ * @param {string} replayId - The replay ID.
+ * @returns {GameReplay | null} The replay, or null if it is not stored here.
+ */
+export function loadLocalReplay(replayId: string): GameReplay | null {
+  return loadLocalReplays().find(replay => replay.replayId === replayId) || null;
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import type { GameRoom } from '@/types/game';
+import { buildDailyResultRecord, buildRoomResultRecords, parseLeaderboardFilters } from '@/lib/results';
+
+function buildFinishedDuo(winReason: GameRoom['winReason']): GameRoom {
+  return {
+    gameId: 'ABCDEF',
+    playerCount: 2,
+    players: {
+      player1: { displayName: 'Alice', hasSetSecret: true, isReady: true, guessesMade: [] },
+      player2: { displayName: 'Bob', hasSetSecret: true, isReady: true, guessesMade: [] },
+    },
+    status: 'GAME_OVER',
+    turnOrder: ['player1', 'player2'],
+    winner: 'player1',
+    winReason,
+    ranking: ['player1', 'player2'],
+    placements: { player1: 1, player2: 2 },
+    createdAt: new Date('2026-10-19T10:00:00Z'),
+    inProgressSince: new Date('2026-10-19T10:00:00Z'),
+    finishedAt: new Date('2026-10-19T10:00:02Z'),
+  };
+}
+
+describe('buildRoomResultRecords', () => {
+  it('records how the winner won, on the winner only', () => {
+    const [winner, loser] = buildRoomResultRecords(buildFinishedDuo('exit'));
+    expect(winner).toMatchObject({ won: true, winReason: 'exit', guessCount: 0, durationMs: 2000 });
+    expect(loser.won).toBe(false);
+    expect(loser.winReason).toBeUndefined();
+  });
+});
+
+describe('buildDailyResultRecord', () => {
+  it('times the solve with the server timestamps of the attempt', () => {
+    const record = buildDailyResultRecord({
+      attemptId: '2026-10-19:p_1',
+      dateKey: '2026-10-19',
+      profileId: 'p_1',
+      playerName: 'Alice',
+      guessCount: 5,
+      startedAt: new Date('2026-10-19T10:00:00Z'),
+      solvedAt: new Date('2026-10-19T10:01:30Z'),
+    });
+    expect(record).toMatchObject({ resultId: 'daily:2026-10-19:p_1', winReason: 'cracked', guessCount: 5, durationMs: 90000 });
+  });
+});
+
+describe('parseLeaderboardFilters', () => {
+  it('ranks on the default rules unless others are asked for', () => {
+    expect(parseLeaderboardFilters({})).toEqual({ codeRules: { length: 4, alphabet: 'digits' }, feedbackMode: 'exact' });
+  });
+
+  it('reads the rules to rank on and drops single player', () => {
+    const filters = parseLeaderboardFilters({ mode: 'single', codeLength: '6', alphabet: 'hex', feedbackMode: 'bulls-cows' });
+    expect(filters).toEqual({ codeRules: { length: 6, alphabet: 'hex' }, feedbackMode: 'bulls-cows' });
+  });
+});
@@ -0,0 +1,101 @@
+import type { CodeAlphabet, DailyAttempt, FeedbackMode, GameModeKey, GameResultRecord, GameRoom, LeaderboardFilters } from '@/types/game';
+import { DAILY_CODE_RULES } from '@/lib/daily';
+import { DEFAULT_FEEDBACK_MODE, FEEDBACK_MODE_LABELS, normalizeCodeRules } from '@/lib/gameLogic';
+
+export const LEADERBOARD_SIZE = 10;
+export const MIN_GAMES_FOR_WIN_RATE = 3;
+// Modes whose results the server works out itself. Single player games are played in the browser, so they stay off the leaderboard
+export const LEADERBOARD_MODES: GameModeKey[] = ['multiplayer', 'daily'];
+
+/**
+ * Builds one result per player of a finished multiplayer game. Rooms that never started
+ * (e.g. closed from the lobby) have no results.
+ * @param {GameRoom} room - The room, with status GAME_OVER.
+ * @returns {GameResultRecord[]} The results, in seating order.
+ */
+export function buildRoomResultRecords(room: GameRoom): GameResultRecord[] {
+  if (room.status !== 'GAME_OVER' || !room.inProgressSince) {
+    return [];
+  }
+  const playerIds = room.turnOrder && room.turnOrder.length > 0 ? room.turnOrder : Object.keys(room.players);
+  const startedAt = new Date(room.inProgressSince);
+  const finishedAt = room.finishedAt ? new Date(room.finishedAt) : new Date();
+  const durationMs = Math.max(0, finishedAt.getTime() - startedAt.getTime());
+
+  return playerIds
+    .filter(playerId => room.players[playerId])
+    .map(playerId => {
+      const player = room.players[playerId];
+      const record: GameResultRecord = {
+        resultId: `${room.gameId}:${startedAt.getTime()}:${playerId}`,
+        mode: 'multiplayer',
+        gameId: room.gameId,
+        playerCount: playerIds.length,
+        playerName: player.displayName || playerId,
+        won: room.winner === playerId,
+        guessCount: (player.guessesMade || []).length,
+        durationMs,
+        feedbackMode: room.feedbackMode,
+        codeRules: room.codeRules,
+        finishedAt,
+      };
+      if (player.profileId) record.profileId = player.profileId;
+      if (record.won && room.winReason) record.winReason = room.winReason;
+      if (room.placements && room.placements[playerId]) record.placement = room.placements[playerId];
+      if (player.hintsUsed) record.hintsUsed = player.hintsUsed;
+      return record;
+    });
+}
+
+/**
+ * Reads leaderboard filters from a query string, ignoring unknown values. The code rules and feedback
+ * mode are always set (to the defaults if not given), so games are only ranked against games with the same rules.
+ * @param {{ [key: string]: string | string[] | undefined }} query - The request query.
+ * @returns {LeaderboardFilters} The valid filters.
+ */
+export function parseLeaderboardFilters(query: { [key: string]: string | string[] | undefined }): LeaderboardFilters {
+  const feedbackMode = typeof query.feedbackMode === 'string' && query.feedbackMode in FEEDBACK_MODE_LABELS ? query.feedbackMode as FeedbackMode : DEFAULT_FEEDBACK_MODE;
+  const filters: LeaderboardFilters = {
+    codeRules: normalizeCodeRules({
+      length: typeof query.codeLength === 'string' ? Number(query.codeLength) : undefined,
+      alphabet: typeof query.alphabet === 'string' ? query.alphabet as CodeAlphabet : undefined,
+    }),
+    feedbackMode,
+  };
+  const mode = typeof query.mode === 'string' ? query.mode : undefined;
+  if (mode && LEADERBOARD_MODES.includes(mode as GameModeKey)) {
+    filters.mode = mode as GameModeKey;
+  }
+  const playerCount = typeof query.playerCount === 'string' ? Number(query.playerCount) : NaN;
+  if (Number.isInteger(playerCount) && playerCount >= 1 && playerCount <= 4) {
+    filters.playerCount = playerCount;
+  }
+  if (query.assisted === 'true' || query.assisted === 'false') {
+    filters.assisted = query.assisted === 'true';
+  }
+  return filters;
+}
+
+/**
+ * Builds the result of a daily challenge from the attempt the server tracked.
+ * @param {DailyAttempt} attempt - The attempt, with solvedAt set.
+ * @returns {GameResultRecord | null} The record, or null if the attempt is not solved.
+ */
+export function buildDailyResultRecord(attempt: DailyAttempt): GameResultRecord | null {
+  if (!attempt.solvedAt) return null;
+  return {
+    resultId: `daily:${attempt.dateKey}:${attempt.profileId}`,
+    mode: 'daily',
+    playerCount: 1,
+    playerName: attempt.playerName,
+    profileId: attempt.profileId,
+    won: true,
+    winReason: 'cracked',
+    guessCount: attempt.guessCount,
+    durationMs: Math.max(0, attempt.solvedAt.getTime() - attempt.startedAt.getTime()),
+    codeRules: DAILY_CODE_RULES,
+    feedbackMode: DEFAULT_FEEDBACK_MODE,
+    dateKey: attempt.dateKey,
+    finishedAt: attempt.solvedAt,
+  };
+}
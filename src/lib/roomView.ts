@@ -0,0 +1,29 @@
+import type { GameRoom, GameRoomView, PlayerView } from '@/types/game';
+
+/**
+ * Builds the view of a game room that a single recipient is allowed to see.
+ * Secrets of other players stay hidden until the game is over, and internal
+ * fields (socket, profile and session IDs, and the seed of the server's random
+ * choices) never leave the server. The event log is left out too; it is only
+ * needed for the replay.
+ * @param {GameRoom} room - The full room document as stored in the database.
+ * @param {string} [viewerId] - The playerId of the recipient, if it has been assigned one.
+ * @param {number} [serverTime=Date.now()] - The server's current time, stamped on the view.
+ * @returns {GameRoomView} The sanitized room.
+ */
+export function projectRoomForViewer(room: GameRoom, viewerId?: string, serverTime: number = Date.now()): GameRoomView {
+  const { events, seed, ...roomData } = room;
+  const revealAllSecrets = room.status === 'GAME_OVER';
+  const players: { [playerId: string]: PlayerView } = {};
+
+  Object.entries(room.players || {}).forEach(([playerId, player]) => {
+    const { socketId, profileId, sessionId, secret, ...publicData } = player;
+    const playerView: PlayerView = { ...publicData, isConnected: !!socketId };
+    if (revealAllSecrets || playerId === viewerId) {
+      playerView.secret = secret;
+    }
+    players[playerId] = playerView;
+  });
+
+  return { ...roomData, players, serverTime };
+}
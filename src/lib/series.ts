@@ -0,0 +1,97 @@
+import type { GameRoom, SeriesGameResult } from '@/types/game';
+
+// Series lengths offered when hosting a room (1 = a single game)
+export const SERIES_LENGTH_OPTIONS = [1, 3, 5];
+export const DEFAULT_BEST_OF = 1;
+
+/**
+ * Clamps a requested series length to the offered options.
+ * @param {number | string | null} [bestOf] - The requested length.
+ * @returns {number} A valid series length.
+ */
+export function normalizeBestOf(bestOf?: number | string | null): number {
+  const value = Number(bestOf);
+  return SERIES_LENGTH_OPTIONS.includes(value) ? value : DEFAULT_BEST_OF;
+}
+
+/**
+ * Describes a series length for display, e.g. "Best of 3" or "Single game".
+ * @param {number} bestOf - The series length.
+ * @returns {string} The label.
+ */
+export function describeSeries(bestOf: number): string {
+  return bestOf > 1 ? `Best of ${bestOf}` : 'Single game';
+}
+
+/**
+ * Returns the number of game wins that clinch a series.
+ * @param {number} bestOf - The series length.
+ * @returns {number} The wins needed, e.g. 2 in a best of 3.
+ */
+export function getWinsNeeded(bestOf: number): number {
+  return Math.floor(bestOf / 2) + 1;
+}
+
+/**
+ * Adds a game's winner to the running series score of a room.
+ * @param {{ [playerId: string]: number } | undefined} seriesScore - The score before the game.
+ * @param {string | undefined} winner - The winner's playerId, if the game had one.
+ * @returns {{ [playerId: string]: number }} The new score.
+ */
+export function addSeriesWin(seriesScore: { [playerId: string]: number } | undefined, winner: string | undefined): { [playerId: string]: number } {
+  const score = { ...(seriesScore || {}) };
+  if (winner && winner !== 'none') {
+    score[winner] = (score[winner] || 0) + 1;
+  }
+  return score;
+}
+
+/**
+ * Finds the player who has clinched a series. Single games never form a series.
+ * @param {{ [playerId: string]: number }} seriesScore - Games won by each player.
+ * @param {number} bestOf - The series length.
+ * @returns {string | undefined} The playerId of the series winner, if any.
+ */
+export function getSeriesWinner(seriesScore: { [playerId: string]: number }, bestOf: number): string | undefined {
+  if (bestOf <= 1) return undefined;
+  const winsNeeded = getWinsNeeded(bestOf);
+  return Object.keys(seriesScore).find(playerId => seriesScore[playerId] >= winsNeeded);
+}
+
+/**
+ * Builds the series entry of a game that has just finished.
+ * @param {GameRoom} room - The room, with status GAME_OVER.
+ * @returns {SeriesGameResult} The result of the game.
+ */
+export function buildSeriesGameResult(room: GameRoom): SeriesGameResult {
+  const playerIds = room.turnOrder && room.turnOrder.length > 0 ? room.turnOrder : Object.keys(room.players);
+  const guessCounts: { [playerId: string]: number } = {};
+  playerIds.forEach(playerId => {
+    guessCounts[playerId] = (room.players[playerId]?.guessesMade || []).length;
+  });
+  const finishedAt = room.finishedAt ? new Date(room.finishedAt) : new Date();
+  const result: SeriesGameResult = {
+    gameNumber: (room.seriesGames || []).length + 1,
+    guessCounts,
+    finishedAt,
+  };
+  if (room.startingPlayer) result.startingPlayer = room.startingPlayer;
+  if (room.winner && room.winner !== 'none') result.winner = room.winner;
+  if (room.ranking) result.ranking = room.ranking;
+  if (room.inProgressSince) result.durationMs = Math.max(0, finishedAt.getTime() - new Date(room.inProgressSince).getTime());
+  return result;
+}
+
+/**
+ * Picks who starts the next game of a series: the player seated after the previous game's
+ * starting player, so the first turn alternates between games.
+ * @param {string[]} playerIds - The seated players, in seating order.
+ * @param {SeriesGameResult[]} [seriesGames] - The finished games of the series.
+ * @returns {string | undefined} The starting player, or undefined for the first game.
+ */
+export function getSeriesStartingPlayer(playerIds: string[], seriesGames?: SeriesGameResult[]): string | undefined {
+  const previousStarter = seriesGames && seriesGames.length > 0 ? seriesGames[seriesGames.length - 1].startingPlayer : undefined;
+  if (!previousStarter || playerIds.length === 0) return undefined;
+  const previousIndex = playerIds.indexOf(previousStarter);
+  return playerIds[(previousIndex + 1) % playerIds.length];
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { CodeRules, FeedbackMode, Guess } from '@/types/game';
+import { CODE_ALPHABETS, checkWin, generateComputerGuess, generateComputerSecret, isValidCode, scoreGuess } from '@/lib/gameLogic';
+import { createSeededRandom } from '@/lib/random';
+import { generateSolverGuess, isConsistentCandidate } from '@/lib/solver';
+
+const RULESETS: { name: string; rules: CodeRules; games: number }[] = [
+  { name: '4 digits', rules: { length: 4, alphabet: 'digits' }, games: 20 },
+  { name: '4 hex symbols', rules: { length: 4, alphabet: 'hex' }, games: 5 },
+  { name: '4 letters', rules: { length: 4, alphabet: 'letters' }, games: 3 },
+];
+const FEEDBACK_MODES: FeedbackMode[] = ['exact', 'bulls-cows'];
+
+// Plays the hard solver against a secret until it cracks it, giving up after maxGuesses
+function playSolverGame(secret: string[], rules: CodeRules, feedbackMode: FeedbackMode, seed: string, maxGuesses: number): Guess[] {
+  const random = createSeededRandom(seed);
+  const guesses: Guess[] = [];
+  while (guesses.length < maxGuesses) {
+    const guess = scoreGuess(generateSolverGuess(guesses, rules, random), secret, feedbackMode);
+    guesses.push(guess);
+    if (checkWin(guess.feedback)) break;
+  }
+  return guesses;
+}
+
+describe('generateSolverGuess', () => {
+  RULESETS.forEach(({ name, rules, games }) => {
+    // Every exact-position guess rules out a symbol in each unsolved position, so the alphabet size bounds the game
+    const maxGuesses = CODE_ALPHABETS[rules.alphabet].length;
+
+    FEEDBACK_MODES.forEach(feedbackMode => {
+      it(`cracks ${name} secrets (${feedbackMode}) within ${maxGuesses} guesses`, () => {
+        const secretRandom = createSeededRandom(`secrets-${name}-${feedbackMode}`);
+        for (let game = 0; game < games; game++) {
+          const secret = generateComputerSecret(rules, 'any', secretRandom);
+          const guesses = playSolverGame(secret, rules, feedbackMode, `game-${name}-${feedbackMode}-${game}`, maxGuesses);
+          expect(checkWin(guesses[guesses.length - 1].feedback), `secret ${secret.join('')}`).toBe(true);
+          expect(guesses.length).toBeLessThanOrEqual(maxGuesses);
+          guesses.forEach(guess => expect(isValidCode(guess.value.split(''), rules)).toBe(true));
+        }
+      }, 60000);
+    });
+  });
+
+  it('only guesses codes that agree with all earlier feedback', () => {
+    const rules: CodeRules = { length: 4, alphabet: 'digits' };
+    const secret = ['7', '2', '2', '9'];
+    const random = createSeededRandom('consistency');
+    const guesses: Guess[] = [];
+    for (let turn = 0; turn < 10 && !guesses.some(guess => checkWin(guess.feedback)); turn++) {
+      const next = generateSolverGuess(guesses, rules, random);
+      expect(isConsistentCandidate(next, guesses)).toBe(true);
+      guesses.push(scoreGuess(next, secret, 'bulls-cows'));
+    }
+  });
+
+  it('falls back to a valid code when the feedback contradicts itself', () => {
+    const rules: CodeRules = { length: 4, alphabet: 'digits' };
+    const contradictory: Guess[] = [
+      { value: '1234', feedback: [true, false, false, false] },
+      { value: '5678', feedback: [true, false, false, false] },
+    ];
+    const random = createSeededRandom('contradiction');
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    for (let attempt = 0; attempt < 50; attempt++) {
+      expect(isValidCode(generateSolverGuess(contradictory, rules, random), rules)).toBe(true);
+    }
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
+
+describe('generateComputerGuess', () => {
+  it('never breaks the no-three-in-a-row rule', () => {
+    const rules: CodeRules = { length: 4, alphabet: 'digits' };
+    const random = createSeededRandom('random-guesses');
+    for (let attempt = 0; attempt < 2000; attempt++) {
+      expect(isValidCode(generateComputerGuess([], rules, random), rules)).toBe(true);
+    }
+  });
+});
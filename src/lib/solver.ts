@@ -0,0 +1,255 @@
+import type { AIDifficulty, CodeRules, FeedbackMode, Guess } from '@/types/game';
+import {
+  CODE_ALPHABETS,
+  DEFAULT_CODE_RULES,
+  DEFAULT_FEEDBACK_MODE,
+  calculateMisplacedCount,
+  generateComputerGuess,
+  isValidDigitSequence,
+  scoreGuess,
+} from '@/lib/gameLogic';
+import { randomInt, type RandomSource } from '@/lib/random';
+
+// Above this many per-position combinations the candidate set is sampled instead of listed
+export const MAX_ENUMERATED_CANDIDATES = 50000;
+const MAX_SAMPLING_ATTEMPTS = 20000;
+
+export const DEFAULT_AI_DIFFICULTY: AIDifficulty = 'hard';
+
+export const AI_DIFFICULTY_LABELS: { [difficulty in AIDifficulty]: string } = {
+  'easy': 'Easy',
+  'medium': 'Medium',
+  'hard': 'Hard',
+  'perfect': 'Perfect',
+};
+
+// Chance that a Medium computer throws away its feedback and guesses at random
+const MEDIUM_RANDOM_GUESS_CHANCE = 0.4;
+// Caps on the minimax search so a Perfect turn stays well under a second
+const MAX_MINIMAX_GUESSES = 150;
+const MAX_MINIMAX_SECRETS = 2000;
+
+/**
+ * Checks whether a candidate secret would have produced exactly the feedback a guess received.
+ * The misplaced count is only compared for guesses that carry one (Bulls & Cows games).
+ * @param {string[]} candidate - The possible secret code.
+ * @param {Guess} guess - A scored guess.
+ * @returns {boolean} True if the candidate agrees with the guess's feedback.
+ */
+export function isConsistentWithGuess(candidate: string[], guess: Guess): boolean {
+  const guessSymbols = guess.value.split('');
+  if (guessSymbols.length !== candidate.length) {
+    return false;
+  }
+  const positionsMatch = guessSymbols.every((symbol, index) => (symbol === candidate[index]) === !!guess.feedback[index]);
+  if (!positionsMatch) {
+    return false;
+  }
+  return guess.misplaced === undefined || calculateMisplacedCount(guessSymbols, candidate) === guess.misplaced;
+}
+
+/**
+ * Checks a candidate secret against every guess made so far.
+ * @param {string[]} candidate - The possible secret code.
+ * @param {Guess[]} guesses - All scored guesses against the same secret.
+ * @returns {boolean} True if the candidate could still be the secret.
+ */
+export function isConsistentCandidate(candidate: string[], guesses: Guess[]): boolean {
+  return guesses.every(guess => isConsistentWithGuess(candidate, guess));
+}
+
+/**
+ * Narrows the symbols each position can still hold. A revealed position is fixed to its symbol;
+ * otherwise every symbol already guessed there without a hit is ruled out.
+ * @param {Guess[]} guesses - All scored guesses against the same secret.
+ * @param {CodeRules} [rules=DEFAULT_CODE_RULES] - Length and alphabet of the code.
+ * @returns {string[][]} The remaining symbols for each position (empty if the feedback contradicts itself).
+ */
+export function getPositionOptions(guesses: Guess[], rules: CodeRules = DEFAULT_CODE_RULES): string[][] {
+  const alphabet = CODE_ALPHABETS[rules.alphabet];
+  return Array.from({ length: rules.length }, (_, index) => {
+    const revealed = new Set<string>();
+    const ruledOut = new Set<string>();
+    guesses.forEach(guess => {
+      const symbol = guess.value[index];
+      if (symbol === undefined) return;
+      if (guess.feedback[index]) {
+        revealed.add(symbol);
+      } else {
+        ruledOut.add(symbol);
+      }
+    });
+    if (revealed.size > 0) {
+      const [symbol] = Array.from(revealed);
+      return revealed.size === 1 && !ruledOut.has(symbol) ? [symbol] : [];
+    }
+    return alphabet.filter(symbol => !ruledOut.has(symbol));
+  });
+}
+
+/**
+ * Lists every valid code that is consistent with the guesses so far.
+ * @param {Guess[]} guesses - All scored guesses against the same secret.
+ * @param {CodeRules} [rules=DEFAULT_CODE_RULES] - Length and alphabet of the code.
+ * @param {number} [limit=MAX_ENUMERATED_CANDIDATES] - Largest search space that will be listed.
+ * @returns {string[][] | null} The candidates, or null if the search space is larger than the limit.
+ */
+export function listConsistentCandidates(
+  guesses: Guess[],
+  rules: CodeRules = DEFAULT_CODE_RULES,
+  limit: number = MAX_ENUMERATED_CANDIDATES
+): string[][] | null {
+  const options = getPositionOptions(guesses, rules);
+  const searchSpace = options.reduce((total, symbols) => total * symbols.length, 1);
+  if (searchSpace > limit) {
+    return null;
+  }
+
+  const candidates: string[][] = [];
+  const current: string[] = [];
+  const extend = (index: number) => {
+    if (index === options.length) {
+      if (isConsistentCandidate(current, guesses)) {
+        candidates.push([...current]);
+      }
+      return;
+    }
+    for (const symbol of options[index]) {
+      // Prune runs of three as soon as they appear instead of checking whole codes
+      if (index >= 2 && symbol === current[index - 1] && symbol === current[index - 2]) continue;
+      current[index] = symbol;
+      extend(index + 1);
+    }
+    current.length = index;
+  };
+  extend(0);
+  return candidates;
+}
+
+function sampleConsistentCandidate(options: string[][], guesses: Guess[], random: RandomSource): string[] | null {
+  for (let attempt = 0; attempt < MAX_SAMPLING_ATTEMPTS; attempt++) {
+    const candidate = options.map(symbols => symbols[randomInt(symbols.length, random)]);
+    if (isValidDigitSequence(candidate) && isConsistentCandidate(candidate, guesses)) {
+      return candidate;
+    }
+  }
+  return null;
+}
+
+/**
+ * Picks the computer's next guess from the codes that are still consistent with all feedback
+ * it has received. In exact-position games every guess rules out at least one symbol in each
+ * unsolved position, so the secret is found within as many guesses as the alphabet has symbols.
+ * @param {Guess[]} guesses - The computer's scored guesses so far.
+ * @param {CodeRules} [rules=DEFAULT_CODE_RULES] - Length and alphabet of the code.
+ * @param {RandomSource} [random=Math.random] - The random source.
+ * @returns {string[]} The next guess.
+ */
+export function generateSolverGuess(guesses: Guess[], rules: CodeRules = DEFAULT_CODE_RULES, random: RandomSource = Math.random): string[] {
+  const candidates = listConsistentCandidates(guesses, rules);
+  if (candidates && candidates.length > 0) {
+    return candidates[randomInt(candidates.length, random)];
+  }
+
+  const options = getPositionOptions(guesses, rules);
+  if (!candidates && options.every(symbols => symbols.length > 0)) {
+    const sampled = sampleConsistentCandidate(options, guesses, random)
+      // Too large to find a full match by chance: still honour the per-position feedback
+      || sampleConsistentCandidate(options, [], random);
+    if (sampled) {
+      return sampled;
+    }
+  }
+
+  console.warn("[solver] No code is consistent with the feedback so far. Falling back to a random valid guess.");
+  return generateComputerGuess(guesses.map(g => g.value), rules, random);
+}
+
+function sampleWithoutReplacement<T>(items: T[], count: number, random: RandomSource): T[] {
+  if (items.length <= count) {
+    return items;
+  }
+  const pool = [...items];
+  for (let index = 0; index < count; index++) {
+    const swapIndex = index + randomInt(pool.length - index, random);
+    [pool[index], pool[swapIndex]] = [pool[swapIndex], pool[index]];
+  }
+  return pool.slice(0, count);
+}
+
+/**
+ * Picks the consistent code whose worst possible feedback leaves the fewest candidates
+ * (ties broken by the smaller expected candidate count). Large candidate sets are sampled
+ * to keep the search fast; if the set cannot be listed at all this plays like "hard".
+ * @param {Guess[]} guesses - The computer's scored guesses so far.
+ * @param {CodeRules} [rules=DEFAULT_CODE_RULES] - Length and alphabet of the code.
+ * @param {FeedbackMode} [feedbackMode=DEFAULT_FEEDBACK_MODE] - The ruleset of the game.
+ * @param {RandomSource} [random=Math.random] - The random source.
+ * @returns {string[]} The next guess.
+ */
+export function generateMinimaxGuess(
+  guesses: Guess[],
+  rules: CodeRules = DEFAULT_CODE_RULES,
+  feedbackMode: FeedbackMode = DEFAULT_FEEDBACK_MODE,
+  random: RandomSource = Math.random
+): string[] {
+  const candidates = listConsistentCandidates(guesses, rules);
+  if (!candidates || candidates.length <= 2) {
+    return generateSolverGuess(guesses, rules, random);
+  }
+
+  const possibleGuesses = sampleWithoutReplacement(candidates, MAX_MINIMAX_GUESSES, random);
+  const possibleSecrets = sampleWithoutReplacement(candidates, MAX_MINIMAX_SECRETS, random);
+  let bestGuess = possibleGuesses[0];
+  let bestWorstCase = Infinity;
+  let bestSumOfSquares = Infinity;
+
+  possibleGuesses.forEach(guess => {
+    const partitionSizes: { [feedbackKey: string]: number } = {};
+    possibleSecrets.forEach(secret => {
+      const { feedback, misplaced } = scoreGuess(guess, secret, feedbackMode);
+      const feedbackKey = `${feedback.map(hit => (hit ? 1 : 0)).join('')}:${misplaced ?? ''}`;
+      partitionSizes[feedbackKey] = (partitionSizes[feedbackKey] || 0) + 1;
+    });
+    const sizes = Object.values(partitionSizes);
+    const worstCase = Math.max(...sizes);
+    const sumOfSquares = sizes.reduce((total, size) => total + size * size, 0);
+    if (worstCase < bestWorstCase || (worstCase === bestWorstCase && sumOfSquares < bestSumOfSquares)) {
+      bestGuess = guess;
+      bestWorstCase = worstCase;
+      bestSumOfSquares = sumOfSquares;
+    }
+  });
+  return bestGuess;
+}
+
+/**
+ * Picks the computer's next guess for the chosen difficulty.
+ * @param {Guess[]} guesses - The computer's scored guesses so far.
+ * @param {AIDifficulty} difficulty - How well the computer plays.
+ * @param {CodeRules} [rules=DEFAULT_CODE_RULES] - Length and alphabet of the code.
+ * @param {FeedbackMode} [feedbackMode=DEFAULT_FEEDBACK_MODE] - The ruleset of the game.
+ * @param {RandomSource} [random=Math.random] - The random source.
+ * @returns {string[]} The next guess.
+ */
+export function generateAIGuess(
+  guesses: Guess[],
+  difficulty: AIDifficulty,
+  rules: CodeRules = DEFAULT_CODE_RULES,
+  feedbackMode: FeedbackMode = DEFAULT_FEEDBACK_MODE,
+  random: RandomSource = Math.random
+): string[] {
+  switch (difficulty) {
+    case 'easy':
+      return generateComputerGuess(guesses.map(g => g.value), rules, random);
+    case 'medium':
+      return random() < MEDIUM_RANDOM_GUESS_CHANCE
+        ? generateComputerGuess(guesses.map(g => g.value), rules, random)
+        : generateSolverGuess(guesses, rules, random);
+    case 'perfect':
+      return generateMinimaxGuess(guesses, rules, feedbackMode, random);
+    case 'hard':
+    default:
+      return generateSolverGuess(guesses, rules, random);
+  }
+}
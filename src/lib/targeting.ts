@@ -0,0 +1,173 @@
+import type { CrackRule, GameRoom, TargetMode } from '@/types/game';
+
+export const DEFAULT_TARGET_MODE: TargetMode = 'ring';
+export const DEFAULT_CRACK_RULE: CrackRule = 'eliminate';
+
+/**
+ * The part of a GameRoom that decides who guesses whom and who plays next.
+ */
+export interface TargetingState {
+  turnOrder: string[];
+  remainingPlayerIds: string[];
+  targetMap: { [playerId: string]: string };
+  placements: { [playerId: string]: number };
+}
+
+/**
+ * Result of a player leaving the running game.
+ */
+export interface PlacementResult extends TargetingState {
+  placedPlayerId: string;
+  placement: number;
+  isGameOver: boolean;
+  winner?: string;
+  ranking?: string[];
+}
+
+/**
+ * Builds the seating ring: every player targets the next player in seating order.
+ * In "all" mode this ring only provides each player's default target.
+ * @param {string[]} playerIds - The players in seating order.
+ * @returns {{ [playerId: string]: string }} Map of playerId to the playerId whose secret they guess.
+ */
+export function buildTargetMap(playerIds: string[]): { [playerId: string]: string } {
+  const targetMap: { [playerId: string]: string } = {};
+  playerIds.forEach((playerId, index) => {
+    targetMap[playerId] = playerIds[(index + 1) % playerIds.length];
+  });
+  return targetMap;
+}
+
+/**
+ * Builds the initial targeting state for a game that is about to start.
+ * @param {string[]} playerIds - The players in seating order.
+ * @returns {TargetingState} The initial state.
+ */
+export function createTargetingState(playerIds: string[]): TargetingState {
+  return {
+    turnOrder: [...playerIds],
+    remainingPlayerIds: [...playerIds],
+    targetMap: buildTargetMap(playerIds),
+    placements: {},
+  };
+}
+
+/**
+ * Reads the targeting state from a room, falling back to the targetMap for rooms started before
+ * turnOrder and remainingPlayerIds were stored.
+ * @param {GameRoom} room - The room to read.
+ * @returns {TargetingState} The room's targeting state.
+ */
+export function getTargetingState(room: GameRoom): TargetingState {
+  const turnOrder = room.turnOrder && room.turnOrder.length > 0 ? room.turnOrder : Object.keys(room.targetMap || {}).sort();
+  return {
+    turnOrder,
+    remainingPlayerIds: room.remainingPlayerIds || turnOrder.filter(pid => !(room.placements && pid in room.placements)),
+    targetMap: room.targetMap || buildTargetMap(turnOrder),
+    placements: room.placements || {},
+  };
+}
+
+/**
+ * Finds the next remaining player after the given one in seating order.
+ * @param {TargetingState} state - The current targeting state.
+ * @param {string} currentPlayerId - The player whose turn just ended (may no longer be remaining).
+ * @returns {string | undefined} The next player's id, or undefined if nobody else remains.
+ */
+export function getNextTurnPlayerId(state: TargetingState, currentPlayerId: string): string | undefined {
+  const { turnOrder, remainingPlayerIds } = state;
+  const startIndex = turnOrder.indexOf(currentPlayerId);
+  for (let offset = 1; offset <= turnOrder.length; offset++) {
+    const candidate = turnOrder[(startIndex + offset) % turnOrder.length];
+    if (candidate !== currentPlayerId && remainingPlayerIds.includes(candidate)) {
+      return candidate;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Checks whether a player may guess the given target.
+ * @param {TargetingState} state - The current targeting state.
+ * @param {TargetMode} mode - The room's target mode.
+ * @param {string} guesserId - The guessing player.
+ * @param {string} targetId - The requested target.
+ * @returns {boolean} True if the guess is allowed.
+ */
+export function isValidTarget(state: TargetingState, mode: TargetMode, guesserId: string, targetId: string): boolean {
+  if (guesserId === targetId || !state.remainingPlayerIds.includes(targetId)) {
+    return false;
+  }
+  return mode === 'all' || state.targetMap[guesserId] === targetId;
+}
+
+function nextFreePlacement(state: TargetingState, fromTop: boolean): number {
+  const taken = new Set(Object.values(state.placements));
+  const total = state.turnOrder.length;
+  let placement = fromTop ? 1 : total;
+  while (taken.has(placement)) {
+    placement += fromTop ? 1 : -1;
+  }
+  return placement;
+}
+
+/**
+ * Removes a player from the running game with a final placement. Whoever was targeting
+ * them inherits their target. Once a single player remains, they take the last free place
+ * and the game is over.
+ * @param {TargetingState} state - The current targeting state.
+ * @param {string} playerId - The player leaving the running game.
+ * @param {boolean} fromTop - True to award the best free place, false for the worst.
+ * @returns {PlacementResult} The new state and the outcome.
+ */
+export function placePlayer(state: TargetingState, playerId: string, fromTop: boolean): PlacementResult {
+  const placement = nextFreePlacement(state, fromTop);
+  const placements = { ...state.placements, [playerId]: placement };
+  const remainingPlayerIds = state.remainingPlayerIds.filter(pid => pid !== playerId);
+
+  const inheritedTarget = state.targetMap[playerId];
+  const targetMap: { [playerId: string]: string } = {};
+  remainingPlayerIds.forEach(pid => {
+    const currentTarget = state.targetMap[pid];
+    targetMap[pid] = currentTarget === playerId ? inheritedTarget : currentTarget;
+  });
+
+  const nextState: TargetingState = { turnOrder: state.turnOrder, remainingPlayerIds, targetMap, placements };
+
+  if (remainingPlayerIds.length > 1) {
+    return { ...nextState, placedPlayerId: playerId, placement, isGameOver: false };
+  }
+
+  if (remainingPlayerIds.length === 1) {
+    const lastPlayerId = remainingPlayerIds[0];
+    nextState.placements = { ...placements, [lastPlayerId]: nextFreePlacement({ ...nextState, placements }, true) };
+    nextState.remainingPlayerIds = [];
+    nextState.targetMap = {};
+  }
+  const ranking = [...state.turnOrder]
+    .filter(pid => pid in nextState.placements)
+    .sort((a, b) => nextState.placements[a] - nextState.placements[b]);
+
+  return {
+    ...nextState,
+    placedPlayerId: playerId,
+    placement,
+    isGameOver: true,
+    winner: ranking[0],
+    ranking,
+  };
+}
+
+/**
+ * Applies a successful crack according to the room's crack rule.
+ * @param {TargetingState} state - The current targeting state.
+ * @param {CrackRule} rule - The room's crack rule.
+ * @param {string} crackerId - The player who guessed the secret.
+ * @param {string} targetId - The player whose secret was guessed.
+ * @returns {PlacementResult} The new state and the outcome.
+ */
+export function resolveCrack(state: TargetingState, rule: CrackRule, crackerId: string, targetId: string): PlacementResult {
+  return rule === 'finish'
+    ? placePlayer(state, crackerId, true)
+    : placePlayer(state, targetId, false);
+}
@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+import { getRemainingTimeBankMs, normalizeTurnTimerSettings, resumePausedTurn } from '@/lib/turnClock';
+
+describe('resumePausedTurn', () => {
+  it('gives back the time that was left instead of a fresh turn', () => {
+    // A 30s turn started at 0 and paused at 20s runs on for 10s after the rejoin at 50s
+    const resumed = resumePausedTurn(10000, 0, 20000, 50000);
+    expect(resumed).toEqual({ turnDeadline: 60000, turnStartedAt: 30000 });
+  });
+
+  it('does not charge the pause to a time bank', () => {
+    const settings = normalizeTurnTimerSettings({ clockMode: 'turn', turnSeconds: 30, timeoutPolicy: 'bank', bankSeconds: 60 });
+    // Paused 40s into the turn (10s of overtime) and resumed after a 25s pause; the guess comes 5s later
+    const resumed = resumePausedTurn(50000, 0, 40000, 65000);
+    expect(getRemainingTimeBankMs(settings, 60000, resumed.turnStartedAt, 70000)).toBe(45000);
+  });
+});
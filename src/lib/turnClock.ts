@@ -0,0 +1,174 @@
+import type { ClockMode, TimeoutPolicy, TurnTimerSettings } from '@/types/game';
+
+// Turn lengths offered when setting up a game, in seconds (0 = untimed)
+export const TURN_TIME_OPTIONS = [0, 10, 20, 30, 60, 120];
+export const DEFAULT_SINGLE_PLAYER_TURN_SECONDS = 20;
+export const MAX_TIMEOUTS_OPTIONS = [2, 3, 5];
+export const TIME_BANK_OPTIONS = [60, 120, 300];
+export const CHESS_BUDGET_OPTIONS = [60, 180, 300, 600];
+export const CHESS_INCREMENT_OPTIONS = [0, 2, 5, 10];
+// How long a player who lost their connection keeps their seat (and their paused turn) before forfeiting
+export const RECONNECT_GRACE_MS = 30000;
+
+// The server owns the multiplayer clock; clients only display it.
+export const DEFAULT_TURN_TIMER: TurnTimerSettings = {
+  clockMode: 'turn',
+  turnSeconds: 30,
+  timeoutPolicy: 'skip',
+  maxTimeouts: 3,
+  bankSeconds: 120,
+  budgetSeconds: 180,
+  incrementSeconds: 0,
+};
+
+export const CLOCK_MODE_LABELS: { [mode in ClockMode]: string } = {
+  'turn': 'Per-Turn Timer',
+  'chess': 'Chess Clock',
+};
+
+export const TIMEOUT_POLICY_LABELS: { [policy in TimeoutPolicy]: string } = {
+  'skip': 'Skip the turn',
+  'forfeit': 'Forfeit after repeated timeouts',
+  'bank': 'Draw from a time bank',
+};
+
+/**
+ * Formats a turn length for display, e.g. "30s", "2 min" or "Untimed".
+ * @param {number} seconds - The turn length, 0 for untimed.
+ * @returns {string} The label.
+ */
+export function formatTurnTime(seconds: number): string {
+  if (seconds <= 0) return 'Untimed';
+  return seconds >= 60 && seconds % 60 === 0 ? `${seconds / 60} min` : `${seconds}s`;
+}
+
+/**
+ * Describes a game's timing for display, e.g. "30s turns" or "3 min chess clock + 2s".
+ * @param {TurnTimerSettings} settings - The turn timer settings.
+ * @returns {string} The description.
+ */
+export function describeTurnTimer(settings: TurnTimerSettings): string {
+  if (settings.clockMode === 'chess') {
+    return `${formatTurnTime(settings.budgetSeconds)} chess clock${settings.incrementSeconds > 0 ? ` + ${settings.incrementSeconds}s` : ''}`;
+  }
+  return settings.turnSeconds > 0 ? `${formatTurnTime(settings.turnSeconds)} turns` : 'Untimed';
+}
+
+/**
+ * Clamps requested turn timer settings to the offered options, falling back to the defaults.
+ * @param {Partial<TurnTimerSettings> | null} [settings] - The requested settings.
+ * @returns {TurnTimerSettings} Valid settings.
+ */
+export function normalizeTurnTimerSettings(settings?: Partial<TurnTimerSettings> | null): TurnTimerSettings {
+  const turnSeconds = Number(settings?.turnSeconds);
+  const maxTimeouts = Number(settings?.maxTimeouts);
+  const bankSeconds = Number(settings?.bankSeconds);
+  const budgetSeconds = Number(settings?.budgetSeconds);
+  const incrementSeconds = Number(settings?.incrementSeconds);
+  return {
+    clockMode: settings?.clockMode && settings.clockMode in CLOCK_MODE_LABELS ? settings.clockMode : DEFAULT_TURN_TIMER.clockMode,
+    turnSeconds: TURN_TIME_OPTIONS.includes(turnSeconds) ? turnSeconds : DEFAULT_TURN_TIMER.turnSeconds,
+    timeoutPolicy: settings?.timeoutPolicy && settings.timeoutPolicy in TIMEOUT_POLICY_LABELS ? settings.timeoutPolicy : DEFAULT_TURN_TIMER.timeoutPolicy,
+    maxTimeouts: MAX_TIMEOUTS_OPTIONS.includes(maxTimeouts) ? maxTimeouts : DEFAULT_TURN_TIMER.maxTimeouts,
+    bankSeconds: TIME_BANK_OPTIONS.includes(bankSeconds) ? bankSeconds : DEFAULT_TURN_TIMER.bankSeconds,
+    budgetSeconds: CHESS_BUDGET_OPTIONS.includes(budgetSeconds) ? budgetSeconds : DEFAULT_TURN_TIMER.budgetSeconds,
+    incrementSeconds: CHESS_INCREMENT_OPTIONS.includes(incrementSeconds) ? incrementSeconds : DEFAULT_TURN_TIMER.incrementSeconds,
+  };
+}
+
+/**
+ * Checks whether players carry a personal clock from turn to turn: a time bank or a chess clock.
+ * @param {TurnTimerSettings} settings - The room's turn timer settings.
+ * @returns {boolean} True if each player's timeBankMs is in use.
+ */
+export function usesTimeBank(settings: TurnTimerSettings): boolean {
+  return settings.clockMode === 'chess' || (settings.turnSeconds > 0 && settings.timeoutPolicy === 'bank');
+}
+
+/**
+ * Gives the personal clock every player starts the game with.
+ * @param {TurnTimerSettings} settings - The room's turn timer settings.
+ * @returns {number} The chess budget or time bank in milliseconds.
+ */
+export function getInitialTimeBankMs(settings: TurnTimerSettings): number {
+  return (settings.clockMode === 'chess' ? settings.budgetSeconds : settings.bankSeconds) * 1000;
+}
+
+/**
+ * Computes when a turn that starts now times out. With the "bank" policy the player's
+ * remaining bank is added on top of the turn length; on a chess clock it is all they have.
+ * @param {TurnTimerSettings} settings - The room's turn timer settings.
+ * @param {number} [timeBankMs=0] - The remaining time bank or chess clock of the player whose turn it is.
+ * @param {number} [now=Date.now()] - The server's current time in epoch milliseconds.
+ * @returns {number | undefined} The deadline in epoch milliseconds, or undefined in untimed games.
+ */
+export function createTurnDeadline(settings: TurnTimerSettings, timeBankMs: number = 0, now: number = Date.now()): number | undefined {
+  if (settings.clockMode === 'chess') return now + Math.max(0, timeBankMs);
+  if (settings.turnSeconds <= 0) return undefined;
+  const bankMs = settings.timeoutPolicy === 'bank' ? Math.max(0, timeBankMs) : 0;
+  return now + settings.turnSeconds * 1000 + bankMs;
+}
+
+/**
+ * Restarts a per-turn clock that was paused while its player was disconnected. The deadline keeps the
+ * time that was left, and the turn start moves by the length of the pause, so a time bank is not
+ * charged for it.
+ * @param {number} remainingMs - Time left on the turn when it was paused.
+ * @param {number} turnStartedAt - When the turn started, in epoch milliseconds.
+ * @param {number} pausedAt - When the turn was paused.
+ * @param {number} [now=Date.now()] - When the turn resumes.
+ * @returns {{ turnDeadline: number; turnStartedAt: number }} The resumed clock.
+ */
+export function resumePausedTurn(remainingMs: number, turnStartedAt: number, pausedAt: number, now: number = Date.now()): { turnDeadline: number; turnStartedAt: number } {
+  return {
+    turnDeadline: now + Math.max(0, remainingMs),
+    turnStartedAt: turnStartedAt + Math.max(0, now - pausedAt),
+  };
+}
+
+/**
+ * Measures how far a finished turn ran over its regular length.
+ * @param {TurnTimerSettings} settings - The room's turn timer settings.
+ * @param {number} turnStartedAt - When the turn started, in epoch milliseconds.
+ * @param {number} [now=Date.now()] - When the turn ended.
+ * @returns {number} The overtime in milliseconds (0 in untimed games).
+ */
+export function getOvertimeMs(settings: TurnTimerSettings, turnStartedAt: number, now: number = Date.now()): number {
+  if (settings.turnSeconds <= 0) return 0;
+  return Math.max(0, now - turnStartedAt - settings.turnSeconds * 1000);
+}
+
+/**
+ * Charges the time spent on a turn to the player's personal clock: all of it on a chess clock,
+ * only the overtime for a time bank. The chess increment is not included.
+ * @param {TurnTimerSettings} settings - The room's turn timer settings.
+ * @param {number} timeBankMs - The player's clock when the turn started.
+ * @param {number} turnStartedAt - When the turn started, in epoch milliseconds.
+ * @param {number} [now=Date.now()] - When the turn ended.
+ * @returns {number} The remaining time in milliseconds, never below zero.
+ */
+export function getRemainingTimeBankMs(settings: TurnTimerSettings, timeBankMs: number, turnStartedAt: number, now: number = Date.now()): number {
+  const spentMs = settings.clockMode === 'chess' ? now - turnStartedAt : getOvertimeMs(settings, turnStartedAt, now);
+  return Math.max(0, timeBankMs - spentMs);
+}
+
+/**
+ * Estimates how far the server clock is ahead of the local one from a timestamp the server sent.
+ * @param {number} serverTime - The server's time when it sent the message, in epoch milliseconds.
+ * @param {number} [receivedAt=Date.now()] - The local time the message arrived.
+ * @returns {number} The offset to add to local timestamps to get server time.
+ */
+export function getClockOffset(serverTime: number, receivedAt: number = Date.now()): number {
+  return serverTime - receivedAt;
+}
+
+/**
+ * Counts the whole seconds left until a server deadline, as seen from this client.
+ * @param {number} deadline - The server deadline in epoch milliseconds.
+ * @param {number} [clockOffsetMs=0] - The offset returned by getClockOffset.
+ * @param {number} [now=Date.now()] - The local time.
+ * @returns {number} The seconds left, rounded up and never below zero.
+ */
+export function getSecondsLeft(deadline: number, clockOffsetMs: number = 0, now: number = Date.now()): number {
+  return Math.max(0, Math.ceil((deadline - (now + clockOffsetMs)) / 1000));
+}
@@ -0,0 +1,126 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import type { Db } from 'mongodb';
+import { randomBytes } from 'crypto';
+import { getDb } from '@/lib/mongodb';
+import { checkWin, isValidCode, scoreGuess } from '@/lib/gameLogic';
+import { DAILY_CODE_RULES, generateDailySecret, getDailyKey } from '@/lib/daily';
+import { PROFILE_KEY_HEADER } from '@/lib/profile';
+import { verifyProfileOwner } from '@/lib/profileKey';
+import { buildDailyResultRecord } from '@/lib/results';
+import type { DailyAttempt, DailyGuessResponse, GameResultRecord } from '@/types/game';
+
+const ATTEMPTS_COLLECTION_NAME = "dailyAttempts";
+const RESULTS_COLLECTION_NAME = "results";
+
+// Set DAILY_CHALLENGE_SECRET so the daily code stays the same across server restarts and instances
+const DAILY_CHALLENGE_SECRET = process.env.DAILY_CHALLENGE_SECRET || randomBytes(32).toString('hex');
+if (!process.env.DAILY_CHALLENGE_SECRET) {
+  console.warn("[Daily] DAILY_CHALLENGE_SECRET not set. Using a per-process secret; the daily code changes when the server restarts.");
+}
+
+// The player an attempt is tracked for, or null if the request does not name one or lacks the profile's key
+async function readPlayer(db: Db, req: NextApiRequest, body: { [key: string]: unknown }): Promise<{ profileId: string; playerName: string } | null> {
+  const { profileId, playerName } = body;
+  if (typeof playerName !== 'string' || playerName.trim().length === 0 || playerName.length > 64) return null;
+  const verifiedProfileId = await verifyProfileOwner(db, profileId, req.headers[PROFILE_KEY_HEADER]);
+  return verifiedProfileId ? { profileId: verifiedProfileId, playerName: playerName.trim() } : null;
+}
+
+// Counts a scored guess on the player's started attempt and, once it is solved, records the result from the server's own count and times
+async function trackGuess(db: Db, attempt: DailyAttempt, solved: boolean, now: Date): Promise<void> {
+  const { attemptId } = attempt;
+  if (attempt.solvedAt) return; // Guesses after the solve (e.g. from another tab) do not count
+  const attempts = db.collection<DailyAttempt>(ATTEMPTS_COLLECTION_NAME);
+  try {
+    await attempts.updateOne({ attemptId, solvedAt: { $exists: false } }, { $inc: { guessCount: 1 } });
+    if (!solved) return;
+    const solvedAttempt = await attempts.findOneAndUpdate(
+      { attemptId, solvedAt: { $exists: false } },
+      { $set: { solvedAt: now } },
+      { returnDocument: 'after', projection: { _id: 0 } },
+    );
+    const record = solvedAttempt ? buildDailyResultRecord(solvedAttempt) : null;
+    if (record) {
+      await db.collection<GameResultRecord>(RESULTS_COLLECTION_NAME).updateOne({ resultId: record.resultId }, { $setOnInsert: record }, { upsert: true });
+      console.log(`[Daily-DB] Recorded the daily result of ${attempt.profileId} for ${attempt.dateKey}.`);
+    }
+  } catch (error) {
+    console.error(`[Daily-DB] Error tracking attempt ${attemptId}:`, error);
+  }
+}
+
+// Scores daily challenge guesses. The day's code never leaves the server until it is guessed.
+// A body without a guess starts the player's attempt, so the solve time is measured by the server.
+// Only players who prove they own their profile can start an attempt, and guesses are only scored for a started attempt.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    res.status(405).end(`Method ${req.method} Not Allowed`);
+    return;
+  }
+  const body = (req.body || {}) as { [key: string]: unknown };
+  const today = getDailyKey();
+  if (body.dateKey !== today) {
+    res.status(409).json({ message: `The daily challenge has moved on to ${today}.`, dateKey: today });
+    return;
+  }
+  const db = await getDb();
+  if (!db) {
+    res.status(503).json({ message: 'The daily challenge is not available.' });
+    return;
+  }
+  const attempts = db.collection<DailyAttempt>(ATTEMPTS_COLLECTION_NAME);
+  const now = new Date();
+
+  let player: { profileId: string; playerName: string } | null;
+  let attempt: DailyAttempt | null = null;
+  try {
+    player = await readPlayer(db, req, body);
+    if (player && body.guess !== undefined) {
+      attempt = await attempts.findOne({ attemptId: `${today}:${player.profileId}` }, { projection: { _id: 0 } });
+    }
+  } catch (error) {
+    console.error(`[Daily-DB] Error loading the attempt of ${String(body.profileId)}:`, error);
+    res.status(500).json({ message: 'Could not load your daily attempt.' });
+    return;
+  }
+  if (!player) {
+    res.status(401).json({ message: 'Your profile could not be verified. Open "Your Stats" on the mode select screen to check that it is saved online.' });
+    return;
+  }
+  const attemptId = `${today}:${player.profileId}`;
+
+  if (body.guess === undefined) {
+    try {
+      await attempts.updateOne(
+        { attemptId },
+        { $setOnInsert: { attemptId, dateKey: today, ...player, guessCount: 0, startedAt: now } },
+        { upsert: true },
+      );
+    } catch (error) {
+      console.error(`[Daily-DB] Error starting attempt ${attemptId}:`, error);
+      res.status(500).json({ message: 'Could not start the daily challenge.' });
+      return;
+    }
+    res.status(200).json({ dateKey: today });
+    return;
+  }
+
+  if (!attempt) {
+    res.status(409).json({ message: 'Your daily attempt has not started yet. Reload the page and try again.' });
+    return;
+  }
+  const symbols = typeof body.guess === 'string' ? body.guess.split('') : [];
+  if (!isValidCode(symbols, DAILY_CODE_RULES)) {
+    res.status(400).json({ message: 'Invalid guess.' });
+    return;
+  }
+  const secret = generateDailySecret(today, DAILY_CHALLENGE_SECRET);
+  const scoredGuess = scoreGuess(symbols, secret);
+  const solved = checkWin(scoredGuess.feedback);
+  await trackGuess(db, attempt, solved, now);
+
+  const response: DailyGuessResponse = { dateKey: today, guess: scoredGuess };
+  if (solved) response.secret = secret;
+  res.status(200).json(response);
+}
@@ -0,0 +1,85 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getDb } from '@/lib/mongodb';
+import { DEFAULT_CODE_RULES, DEFAULT_FEEDBACK_MODE } from '@/lib/gameLogic';
+import { LEADERBOARD_SIZE, MIN_GAMES_FOR_WIN_RATE, parseLeaderboardFilters } from '@/lib/results';
+import type { GameResultRecord, Leaderboard, LeaderboardGameEntry, LeaderboardWinRateEntry } from '@/types/game';
+
+const COLLECTION_NAME = "results";
+
+// Only results the server worked out itself. Daily results without a dateKey were reported by older clients
+const VERIFIED_RESULTS = { $or: [{ mode: 'multiplayer' }, { mode: 'daily', dateKey: { $exists: true } }] };
+
+// Games won because the last opponent timed out or left say nothing about guessing, so only cracks are ranked.
+// Results from before winReason existed are left out of these boards
+const CRACKED_WINS = { won: true, winReason: 'cracked' as const, guessCount: { $gt: 0 } };
+
+// Results stored without rules come from games before rules could be chosen, which used the defaults
+const matchRule = <T,>(value: T, defaultValue: T) => (value === defaultValue ? { $in: [value, null] } : value);
+
+const GAME_ENTRY_PROJECTION = { _id: 0, playerName: 1, mode: 1, playerCount: 1, guessCount: 1, durationMs: 1, hintsUsed: 1, finishedAt: 1 };
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    res.status(405).end(`Method ${req.method} Not Allowed`);
+    return;
+  }
+  const db = await getDb();
+  if (!db) {
+    res.status(503).json({ message: 'Leaderboard is not available.' });
+    return;
+  }
+
+  const { mode, playerCount, assisted, codeRules, feedbackMode } = parseLeaderboardFilters(req.query);
+  const match: { [key: string]: unknown } = {
+    ...VERIFIED_RESULTS,
+    'codeRules.length': matchRule(codeRules.length, DEFAULT_CODE_RULES.length),
+    'codeRules.alphabet': matchRule(codeRules.alphabet, DEFAULT_CODE_RULES.alphabet),
+    feedbackMode: matchRule(feedbackMode, DEFAULT_FEEDBACK_MODE),
+  };
+  if (mode) match.mode = mode;
+  if (playerCount) match.playerCount = playerCount;
+  // Results from before hints existed have no hintsUsed and count as unassisted
+  if (assisted !== undefined) match.hintsUsed = assisted ? { $gt: 0 } : { $not: { $gt: 0 } };
+  const results = db.collection<GameResultRecord>(COLLECTION_NAME);
+
+  try {
+    const [fewestGuesses, fastestWins, winRate] = await Promise.all([
+      results.find({ ...match, ...CRACKED_WINS }, { projection: GAME_ENTRY_PROJECTION })
+        .sort({ guessCount: 1, durationMs: 1 })
+        .limit(LEADERBOARD_SIZE)
+        .toArray(),
+      results.find({ ...match, ...CRACKED_WINS, durationMs: { $gt: 0 } }, { projection: GAME_ENTRY_PROJECTION })
+        .sort({ durationMs: 1 })
+        .limit(LEADERBOARD_SIZE)
+        .toArray(),
+      results.aggregate<LeaderboardWinRateEntry>([
+        { $match: match },
+        { $sort: { finishedAt: 1 } },
+        {
+          // Players without a profile (older clients) are grouped by name
+          $group: {
+            _id: { $ifNull: ['$profileId', '$playerName'] },
+            playerName: { $last: '$playerName' },
+            played: { $sum: 1 },
+            wins: { $sum: { $cond: ['$won', 1, 0] } },
+          },
+        },
+        { $match: { played: { $gte: MIN_GAMES_FOR_WIN_RATE } } },
+        { $project: { _id: 0, playerName: 1, played: 1, wins: 1, winRate: { $divide: ['$wins', '$played'] } } },
+        { $sort: { winRate: -1, played: -1 } },
+        { $limit: LEADERBOARD_SIZE },
+      ]).toArray(),
+    ]);
+
+    const leaderboard: Leaderboard = {
+      fewestGuesses: fewestGuesses as LeaderboardGameEntry[],
+      fastestWins: fastestWins as LeaderboardGameEntry[],
+      winRate,
+    };
+    res.status(200).json(leaderboard);
+  } catch (error) {
+    console.error("[Leaderboard-DB] Error building leaderboard:", error);
+    res.status(500).json({ message: 'Could not load the leaderboard.' });
+  }
+}
@@ -0,0 +1,82 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getDb } from '@/lib/mongodb';
+import { PROFILE_KEY_HEADER, isPlayerProfile } from '@/lib/profile';
+import { PROFILES_COLLECTION_NAME, createProfileKey, hashProfileKey, isProfileKeyValid } from '@/lib/profileKey';
+import type { PlayerProfile, ProfileSaveResponse } from '@/types/game';
+
+
+// Profiles are stored with the hash of their key, which is never sent back
+interface StoredPlayerProfile extends PlayerProfile {
+  keyHash?: string; // Absent on profiles stored before keys existed; the next save claims them
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const db = await getDb();
+  if (!db) {
+    res.status(503).json({ message: 'Profile storage is not available.' });
+    return;
+  }
+  const profiles = db.collection<StoredPlayerProfile>(PROFILES_COLLECTION_NAME);
+
+  if (req.method === 'GET') {
+    const profileId = typeof req.query.profileId === 'string' ? req.query.profileId : null;
+    if (!profileId) {
+      res.status(400).json({ message: 'Missing profileId.' });
+      return;
+    }
+    try {
+      const profile = await profiles.findOne({ profileId }, { projection: { _id: 0, keyHash: 0 } });
+      if (!profile) {
+        res.status(404).json({ message: 'Profile not found.' });
+        return;
+      }
+      res.status(200).json(profile);
+    } catch (error) {
+      console.error(`[Profile-DB] Error fetching profile ${profileId}:`, error);
+      res.status(500).json({ message: 'Could not load the profile.' });
+    }
+  } else if (req.method === 'PUT') {
+    const profile = req.body;
+    if (!isPlayerProfile(profile)) {
+      res.status(400).json({ message: 'Invalid profile.' });
+      return;
+    }
+    try {
+      const stored = await profiles.findOne({ profileId: profile.profileId }, { projection: { updatedAt: 1, keyHash: 1 } });
+      // Only the holder of the profile's key may change it; knowing the profile ID is not enough
+      if (stored?.keyHash && !isProfileKeyValid(req.headers[PROFILE_KEY_HEADER], stored.keyHash)) {
+        res.status(403).json({ message: 'This profile belongs to another player.' });
+        return;
+      }
+      // Only replace an older copy, so a stale tab cannot overwrite newer stats
+      if (stored && Date.parse(stored.updatedAt) > Date.parse(profile.updatedAt)) {
+        res.status(409).json({ message: 'A newer copy of this profile is already stored.' });
+        return;
+      }
+      const response: ProfileSaveResponse = { profile };
+      if (stored?.keyHash) {
+        await profiles.replaceOne({ profileId: profile.profileId }, { ...profile, keyHash: stored.keyHash });
+      } else {
+        // First save: issue the key. The filter makes sure a concurrent save cannot claim the profile as well
+        const profileKey = createProfileKey();
+        const result = await profiles.updateOne(
+          { profileId: profile.profileId, keyHash: { $exists: false } },
+          { $set: { ...profile, keyHash: hashProfileKey(profileKey) } },
+          { upsert: !stored },
+        );
+        if (result.matchedCount === 0 && result.upsertedCount === 0) {
+          res.status(409).json({ message: 'This profile was just claimed by another save.' });
+          return;
+        }
+        response.profileKey = profileKey;
+      }
+      res.status(200).json(response);
+    } catch (error) {
+      console.error(`[Profile-DB] Error saving profile ${profile.profileId}:`, error);
+      res.status(500).json({ message: 'Could not save the profile.' });
+    }
+  } else {
+    res.setHeader('Allow', ['GET', 'PUT']);
+    res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
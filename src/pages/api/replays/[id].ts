@@ -0,0 +1,43 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getDb } from '@/lib/mongodb';
+import { formatGameNotation, getGameNotationFileName } from '@/lib/gameNotation';
+import type { GameReplay } from '@/types/game';
+
+const COLLECTION_NAME = "replays";
+
+// Multiplayer replays are archived by the socket server at game over; single player and daily replays stay in the browser.
+// With ?format=notation the game is sent as a game notation file instead of JSON.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    res.status(405).end(`Method ${req.method} Not Allowed`);
+    return;
+  }
+  const replayId = typeof req.query.id === 'string' ? req.query.id : null;
+  if (!replayId) {
+    res.status(400).json({ message: 'Missing replay ID.' });
+    return;
+  }
+  const db = await getDb();
+  if (!db) {
+    res.status(503).json({ message: 'Replay storage is not available.' });
+    return;
+  }
+  try {
+    const replay = await db.collection<GameReplay>(COLLECTION_NAME).findOne({ replayId }, { projection: { _id: 0 } });
+    if (!replay) {
+      res.status(404).json({ message: 'Replay not found.' });
+      return;
+    }
+    if (req.query.format === 'notation') {
+      res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${getGameNotationFileName(replay)}"`);
+      res.status(200).send(formatGameNotation(replay));
+      return;
+    }
+    res.status(200).json(replay);
+  } catch (error) {
+    console.error(`[Replays-DB] Error fetching replay ${replayId}:`, error);
+    res.status(500).json({ message: 'Could not load the replay.' });
+  }
+}
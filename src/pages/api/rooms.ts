@@ -0,0 +1,38 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getDb } from '@/lib/mongodb';
+import { MAX_LISTED_ROOMS, buildRoomListing, isRoomJoinable, parseRoomListFilters } from '@/lib/lobby';
+import type { GameRoom, RoomListing } from '@/types/game';
+
+const COLLECTION_NAME = "gameRooms";
+
+// Lists the public rooms that are still waiting for players, oldest first.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    res.status(405).end(`Method ${req.method} Not Allowed`);
+    return;
+  }
+  const db = await getDb();
+  if (!db) {
+    res.status(503).json({ message: 'The lobby is not available.' });
+    return;
+  }
+
+  const { playerCount } = parseRoomListFilters(req.query);
+  const query: { [key: string]: unknown } = { status: 'WAITING_FOR_PLAYERS', isPublic: true };
+  if (playerCount) query.playerCount = playerCount;
+
+  try {
+    const rooms = await db.collection<GameRoom>(COLLECTION_NAME)
+      .find(query, { projection: { _id: 0 } })
+      .sort({ createdAt: 1 })
+      .limit(MAX_LISTED_ROOMS)
+      .toArray();
+    const now = Date.now();
+    const listings: RoomListing[] = rooms.map(room => buildRoomListing(room, now)).filter(isRoomJoinable);
+    res.status(200).json(listings);
+  } catch (error) {
+    console.error("[Rooms-DB] Error listing rooms:", error);
+    res.status(500).json({ message: 'Could not load the rooms.' });
+  }
+}
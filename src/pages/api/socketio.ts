@@ -3,9 +3,31 @@ import type { Server as HTTPServer } from 'http';
 import type { Socket as NetSocket } from 'net';
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { Server as SocketIOServer, Socket } from 'socket.io';
-import type { GameRoom, PlayerData, Guess, MultiplayerGameStatus, TurnUpdateData } from '@/types/game';
-import { calculateFeedback, checkWin, CODE_LENGTH } from '@/lib/gameLogic';
-import { MongoClient, Db as MongoDb, FindOneAndUpdateOptions, MongoError } from 'mongodb';
+import { randomBytes } from 'crypto';
+import type { GameRoom, GameResultRecord, GameEvent, GameReplay, PlayerData, Guess, MultiplayerGameStatus, TurnUpdateData, PlayerPlacedData, TargetMode, CrackRule, FeedbackMode, CodeRules, TurnTimerSettings, JoinGameAck, UseHintAck, WinReason } from '@/types/game';
+import { checkWin, scoreGuess, isValidCode, normalizeCodeRules, describeCodeRules, describeGuessContradiction, findGuessContradictions, generateRoomCode, normalizeRoomCode, DEFAULT_FEEDBACK_MODE } from '@/lib/gameLogic';
+import { projectRoomForViewer } from '@/lib/roomView';
+import { buildRoomResultRecords } from '@/lib/results';
+import { buildRoomReplay } from '@/lib/replay';
+import { canRematch, getRematchPlayerIds, isAwaitingRematch, isRematchAgreed } from '@/lib/rematch';
+import { addSeriesWin, buildSeriesGameResult, getSeriesStartingPlayer, getSeriesWinner, normalizeBestOf } from '@/lib/series';
+import { RECONNECT_GRACE_MS, createTurnDeadline, getInitialTimeBankMs, getRemainingTimeBankMs, normalizeTurnTimerSettings, resumePausedTurn, usesTimeBank } from '@/lib/turnClock';
+import { createReconnectToken, createSessionId, verifyReconnectToken } from '@/lib/reconnectToken';
+import { verifyProfileOwner } from '@/lib/profileKey';
+import { createRandomSeed, createSeededRandom, deriveRandom, randomInt, type RandomSource } from '@/lib/random';
+import {
+  DEFAULT_CRACK_RULE,
+  DEFAULT_TARGET_MODE,
+  createTargetingState,
+  getNextTurnPlayerId,
+  getTargetingState,
+  isValidTarget,
+  placePlayer,
+  resolveCrack,
+  type PlacementResult,
+} from '@/lib/targeting';
+import { Db as MongoDb, FindOneAndUpdateOptions, MongoError } from 'mongodb';
+import { getDb } from '@/lib/mongodb';
 
 interface NextApiResponseWithSocket extends NextApiResponse {
   socket: NetSocket & {
@@ -18,30 +40,35 @@ interface NextApiResponseWithSocket extends NextApiResponse {
 interface CustomSocket extends Socket {
   gameId?: string;
   playerId?: string;
+  isSpectator?: boolean; // Watches the room read-only and never gets a player slot
 }
 
-const MONGODB_URI = process.env.MONGODB_URI;
-const DATABASE_NAME = "4SureDB";
 const COLLECTION_NAME = "gameRooms";
+const RESULTS_COLLECTION_NAME = "results";
+const REPLAYS_COLLECTION_NAME = "replays";
+const ROOM_CODE_ATTEMPTS = 20;
 
-let dbConnectionPromise: Promise<MongoDb | null> = (async () => {
-  console.log("[SocketIO] Attempting to connect to MongoDB...");
-  if (!MONGODB_URI) {
-    console.warn('[SocketIO] MONGODB_URI not found. Database operations will be unavailable.');
-    return null;
-  }
-  try {
-    const client = new MongoClient(MONGODB_URI);
-    await client.connect();
-    const connectedDb = client.db(DATABASE_NAME);
-    console.log(`[SocketIO] Successfully connected to MongoDB. Database: ${DATABASE_NAME}`);
-    console.log(`[SocketIO] Targeting collection: '${COLLECTION_NAME}'. Ensure unique index on 'gameId' and TTL index on 'createdAt'.`);
-    return connectedDb;
-  } catch (error) {
-    console.error("[SocketIO] Error connecting to MongoDB:", error);
-    return null;
+// Set GAME_RANDOM_SEED to make room seeds (and with them every server-side random choice) reproducible
+const serverRandom: RandomSource = process.env.GAME_RANDOM_SEED ? createSeededRandom(process.env.GAME_RANDOM_SEED) : Math.random;
+
+// Set RECONNECT_TOKEN_SECRET so reconnect tokens stay valid across server restarts and instances
+const RECONNECT_TOKEN_SECRET = process.env.RECONNECT_TOKEN_SECRET || randomBytes(32).toString('hex');
+if (!process.env.RECONNECT_TOKEN_SECRET) {
+  console.warn("[SocketIO] RECONNECT_TOKEN_SECRET not set. Using a per-process secret; players cannot rejoin running games after a restart.");
+}
+
+const dbConnectionPromise: Promise<MongoDb | null> = getDb().then(async connectedDb => {
+  if (connectedDb) {
+    console.log(`[SocketIO] Targeting collection: '${COLLECTION_NAME}'. Ensure TTL index on 'createdAt'.`);
+    try {
+      // Room codes are allocated by checking for a free code first; the index closes the race between two hosts
+      await connectedDb.collection(COLLECTION_NAME).createIndex({ gameId: 1 }, { unique: true });
+    } catch (error) {
+      console.error(`[SocketIO-DB] Could not ensure the unique index on 'gameId':`, error);
+    }
   }
-})();
+  return connectedDb;
+});
 
 
 async function getGameRoom(db: MongoDb, gameId: string): Promise<GameRoom | null> {
@@ -54,9 +81,24 @@ async function getGameRoom(db: MongoDb, gameId: string): Promise<GameRoom | null
   }
 }
 
-async function createGameRoom(db: MongoDb, gameId: string, playerCount: number, hostSocketId: string, hostUsername?: string): Promise<GameRoom | null> {
+interface RoomOptions {
+  targetMode?: TargetMode;
+  crackRule?: CrackRule;
+  feedbackMode?: FeedbackMode;
+  codeRules?: Partial<CodeRules>;
+  turnTimer?: Partial<TurnTimerSettings>;
+  isPublic?: boolean;
+  bestOf?: number;
+  hintsAllowed?: boolean;
+  hardcore?: boolean;
+}
+
+// Creates a room under a newly allocated code. A code is only used if no stored room (running or
+// finished but not yet cleaned up) has it, so a new host can never land in someone else's game.
+async function createGameRoom(db: MongoDb, playerCount: number, hostSocketId: string, hostUsername?: string, options: RoomOptions = {}): Promise<GameRoom | null> {
     const initialPlayerData: PlayerData = {
         socketId: hostSocketId,
+        sessionId: createSessionId(),
         displayName: hostUsername || "player1",
         secret: [],
         guessesMade: [],
@@ -65,30 +107,49 @@ async function createGameRoom(db: MongoDb, gameId: string, playerCount: number,
         isReady: false,
     };
 
-    const roomToInsert: GameRoom = {
-        gameId,
+    const roomToInsert: Omit<GameRoom, 'gameId'> = {
         playerCount,
         players: { "player1": initialPlayerData },
         status: 'WAITING_FOR_PLAYERS',
         targetMap: {},
+        targetMode: options.targetMode === 'all' ? 'all' : DEFAULT_TARGET_MODE,
+        crackRule: options.crackRule === 'finish' ? 'finish' : DEFAULT_CRACK_RULE,
+        feedbackMode: options.feedbackMode === 'bulls-cows' ? 'bulls-cows' : DEFAULT_FEEDBACK_MODE,
+        codeRules: normalizeCodeRules(options.codeRules),
+        turnTimer: normalizeTurnTimerSettings(options.turnTimer),
+        isPublic: options.isPublic === true,
+        bestOf: normalizeBestOf(options.bestOf),
+        hintsAllowed: options.hintsAllowed === true,
+        hardcore: options.hardcore === true,
+        seed: createRandomSeed(serverRandom),
         createdAt: new Date(),
     };
 
-    try {
-      const result = await db.collection<Omit<GameRoom, '_id'>>(COLLECTION_NAME).insertOne(roomToInsert);
-      if (result.insertedId) {
-        console.log(`[SocketIO-DB] Game room ${gameId} created successfully by host ${hostSocketId} (Name: ${hostUsername || "player1"}).`);
-        return roomToInsert;
-      }
-      return null;
-    } catch (error: any) {
-      if (error instanceof MongoError && error.code === 11000) { 
-        console.warn(`[SocketIO-DB] createGameRoom: ${gameId} already exists. Attempting to fetch.`);
-        return getGameRoom(db, gameId);
+    for (let attempt = 1; attempt <= ROOM_CODE_ATTEMPTS; attempt++) {
+      const gameId = generateRoomCode(serverRandom);
+      try {
+        if (await db.collection(COLLECTION_NAME).findOne({ gameId }, { projection: { _id: 1 } })) {
+          console.warn(`[SocketIO-DB] createGameRoom: Code ${gameId} is taken (attempt ${attempt}).`);
+          continue;
+        }
+        const room: GameRoom = { gameId, ...roomToInsert };
+        const result = await db.collection<Omit<GameRoom, '_id'>>(COLLECTION_NAME).insertOne(room);
+        if (result.insertedId) {
+          console.log(`[SocketIO-DB] Game room ${gameId} created successfully by host ${hostSocketId} (Name: ${hostUsername || "player1"}).`);
+          return room;
+        }
+        return null;
+      } catch (error: any) {
+        if (error instanceof MongoError && error.code === 11000) { 
+          console.warn(`[SocketIO-DB] createGameRoom: Code ${gameId} was taken by another host meanwhile (attempt ${attempt}).`);
+          continue;
+        }
+        console.error(`[SocketIO-DB] createGameRoom: Error creating game room ${gameId}:`, error);
+        return null;
       }
-      console.error(`[SocketIO-DB] createGameRoom: Error creating game room ${gameId}:`, error);
-      return null;
     }
+    console.error(`[SocketIO-DB] createGameRoom: No free room code found after ${ROOM_CODE_ATTEMPTS} attempts.`);
+    return null;
 }
 
 async function updateGameRoom(db: MongoDb, gameId: string, updateOperators: any): Promise<GameRoom | null> {
@@ -104,13 +165,69 @@ async function updateGameRoom(db: MongoDb, gameId: string, updateOperators: any)
   }
 }
 
+// Upserts by resultId, so a game archived at game over and again during cleanup is stored once.
+async function archiveGameResults(db: MongoDb, room: GameRoom): Promise<void> {
+  const records = buildRoomResultRecords(room);
+  if (records.length === 0) return;
+  try {
+    await db.collection<GameResultRecord>(RESULTS_COLLECTION_NAME).bulkWrite(records.map(record => ({
+      updateOne: { filter: { resultId: record.resultId }, update: { $setOnInsert: record }, upsert: true },
+    })));
+    console.log(`[SocketIO-DB] Archived ${records.length} results for game ${room.gameId}.`);
+  } catch (error) {
+    console.error(`[SocketIO-DB] archiveGameResults: Error archiving results for ${room.gameId}:`, error);
+  }
+}
+
+// Like the results, a replay is upserted by its ID so archiving a game twice stores it once
+async function archiveGameReplay(db: MongoDb, room: GameRoom): Promise<void> {
+  const replay = buildRoomReplay(room);
+  if (!replay) return;
+  try {
+    await db.collection<GameReplay>(REPLAYS_COLLECTION_NAME).updateOne({ replayId: replay.replayId }, { $setOnInsert: replay }, { upsert: true });
+    console.log(`[SocketIO-DB] Archived replay ${replay.replayId} (${replay.events.length} events).`);
+  } catch (error) {
+    console.error(`[SocketIO-DB] archiveGameReplay: Error archiving the replay of ${room.gameId}:`, error);
+  }
+}
+
+// Wraps up a game that has just ended: closes its event log, adds it to the room's series and
+// archives the results and the replay. Rooms closed before the game started have nothing to record.
+async function finishGame(db: MongoDb, room: GameRoom): Promise<GameRoom> {
+  let finishedRoom = room;
+  if (room.inProgressSince) {
+    const seriesGame = buildSeriesGameResult(room);
+    const seriesScore = addSeriesWin(room.seriesScore, seriesGame.winner);
+    const setOps: { [key: string]: any } = { seriesScore };
+    const seriesWinner = getSeriesWinner(seriesScore, normalizeBestOf(room.bestOf));
+    if (seriesWinner) {
+      setOps.seriesWinner = seriesWinner;
+      console.log(`[SocketIO] Game ${room.gameId}: ${room.players[seriesWinner]?.displayName || seriesWinner} clinched the series after ${seriesGame.gameNumber} games.`);
+    }
+    const gameOverEvent: GameEvent = { type: 'game-over', at: Date.now() };
+    if (room.winner) gameOverEvent.winner = room.winner;
+    finishedRoom = await updateGameRoom(db, room.gameId, { $set: setOps, $push: { seriesGames: seriesGame, events: gameOverEvent } }) || room;
+    await archiveGameReplay(db, finishedRoom);
+  }
+  await archiveGameResults(db, finishedRoom);
+  return finishedRoom;
+}
+
 async function deleteGameOverRooms(db: MongoDb): Promise<void> {
   if (!db) {
     console.warn("[SocketIO-DB Cleanup] No DB connection. Skipping cleanup of GAME_OVER rooms.");
     return;
   }
   try {
-    const result = await db.collection(COLLECTION_NAME).deleteMany({ status: 'GAME_OVER' });
+    const finishedRooms = await db.collection<GameRoom>(COLLECTION_NAME).find({ status: 'GAME_OVER' }, { projection: { _id: 0 } }).toArray();
+    // Rooms whose players are still on the game-over screen stay for a while, so they can agree on a rematch
+    const roomsToDelete = finishedRooms.filter(room => !isAwaitingRematch(room));
+    if (roomsToDelete.length === 0) return;
+    for (const room of roomsToDelete) {
+      await archiveGameResults(db, room);
+      await archiveGameReplay(db, room);
+    }
+    const result = await db.collection(COLLECTION_NAME).deleteMany({ status: 'GAME_OVER', gameId: { $in: roomsToDelete.map(room => room.gameId) } });
     if (result.deletedCount > 0) {
       console.log(`[SocketIO-DB Cleanup] Successfully deleted ${result.deletedCount} rooms with status GAME_OVER.`);
     }
@@ -120,6 +237,20 @@ async function deleteGameOverRooms(db: MongoDb): Promise<void> {
 }
 
 
+// Sends each socket in the room its own sanitized view, so no client ever receives another player's secret.
+// Spectators have no playerId, so they see every secret hidden until the game is over.
+function emitGameStateUpdate(io: SocketIOServer, gameId: string, room: GameRoom) {
+    const socketIdsInRoom = io.sockets.adapter.rooms.get(gameId);
+    if (!socketIdsInRoom) return;
+    const recipients = Array.from(socketIdsInRoom)
+        .map(socketId => io.sockets.sockets.get(socketId) as CustomSocket | undefined)
+        .filter((recipient): recipient is CustomSocket => !!recipient);
+    const spectatorCount = recipients.filter(recipient => recipient.isSpectator).length;
+    recipients.forEach(recipient => {
+        recipient.emit('game-state-update', { ...projectRoomForViewer(room, recipient.playerId), spectatorCount });
+    });
+}
+
 const getPlayerCountNumber = (playerCountString: string | null): number => {
   if (playerCountString === 'duo') return 2;
   if (playerCountString === 'trio') return 3;
@@ -128,9 +259,10 @@ const getPlayerCountNumber = (playerCountString: string | null): number => {
 };
 
 const turnTimers = new Map<string, { timerId: NodeJS.Timeout, turnPlayerId: string }>();
-const INITIAL_TIME_LIMIT_MULTIPLAYER = 30; // seconds
 
-async function startTurnTimer(gameId: string, currentPlayerTurnId: string, io: SocketIOServer) {
+// Schedules the timeout of a turn at its stored deadline. The deadline lives on the room document,
+// so the timer can be rebuilt after a restart and clients can count down to the same moment.
+async function startTurnTimer(gameId: string, currentPlayerTurnId: string, turnDeadline: number, io: SocketIOServer) {
     console.log(`[SocketIO Timer] Attempting to start timer for game ${gameId}, player ${currentPlayerTurnId}`);
     if (turnTimers.has(gameId)) {
         const existingTimer = turnTimers.get(gameId)!;
@@ -154,7 +286,7 @@ async function startTurnTimer(gameId: string, currentPlayerTurnId: string, io: S
              console.error(`[SocketIO Timer] Game ${gameId}: Room, players, or targetMap not found for timeout processing of player ${currentPlayerTurnId}.`);
              return;
         }
-        if (room.status === 'IN_PROGRESS' && room.turn === currentPlayerTurnId) {
+        if (room.status === 'IN_PROGRESS' && room.turn === currentPlayerTurnId && room.turnDeadline === turnDeadline) {
             console.log(`[SocketIO Timer] Game ${gameId}: Processing timeout for player ${currentPlayerTurnId}.`);
             
             const activePlayerIdsWithSockets = Object.keys(room.players).filter(pid => room.players[pid]?.socketId);
@@ -163,34 +295,56 @@ async function startTurnTimer(gameId: string, currentPlayerTurnId: string, io: S
                 return;
             }
             
-            let nextPlayerId: string | undefined = room.targetMap[currentPlayerTurnId];
-            
-            if (!nextPlayerId) {
-                 console.error(`[SocketIO Timer] Game ${gameId}: Could not determine next player after timeout for ${currentPlayerTurnId} from targetMap. Current turn: ${room.turn}, TargetMap: ${JSON.stringify(room.targetMap)}`);
-                 const currentIndex = activePlayerIdsWithSockets.indexOf(currentPlayerTurnId);
-                 if (currentIndex !== -1 && activePlayerIdsWithSockets.length > 0) { 
-                    nextPlayerId = activePlayerIdsWithSockets[(currentIndex + 1) % activePlayerIdsWithSockets.length];
-                    console.warn(`[SocketIO Timer] Game ${gameId}: Fallback to sequential next player: ${nextPlayerId}`);
-                 } else {
-                    console.error(`[SocketIO Timer] Game ${gameId}: Fallback failed. Aborting turn change.`);
-                    return;
-                 }
+            const turnTimer = normalizeTurnTimerSettings(room.turnTimer);
+            const timeouts = (room.players[currentPlayerTurnId]?.consecutiveTimeouts || 0) + 1;
+            const setOps: { [key: string]: any } = {
+                [`players.${currentPlayerTurnId}.consecutiveTimeouts`]: timeouts,
+            };
+            if (usesTimeBank(turnTimer)) {
+                setOps[`players.${currentPlayerTurnId}.timeBankMs`] = 0; // The deadline included the whole bank or clock
             }
-            
-            if (!nextPlayerId) {
+
+            const now = Date.now();
+            let timeoutResult: PlacementResult | undefined = undefined;
+            let nextPlayerId: string | undefined;
+            const isChessClock = turnTimer.clockMode === 'chess';
+            if (isChessClock || (turnTimer.timeoutPolicy === 'forfeit' && timeouts >= turnTimer.maxTimeouts)) {
+                console.log(`[SocketIO Timer] Game ${gameId}: Player ${currentPlayerTurnId} ${isChessClock ? 'ran out of time on the chess clock' : `timed out ${timeouts} times in a row`} and forfeits.`);
+                timeoutResult = placePlayer(getTargetingState(room), currentPlayerTurnId, false);
+                Object.assign(setOps, placementUpdate(room, timeoutResult, 'forfeit'));
+                if (!timeoutResult.isGameOver) nextPlayerId = getNextTurnPlayerId(timeoutResult, currentPlayerTurnId);
+            } else {
+                nextPlayerId = getNextTurnPlayerId(getTargetingState(room), currentPlayerTurnId);
+            }
+
+            if (!nextPlayerId && !timeoutResult?.isGameOver) {
                  console.error(`[SocketIO Timer] Game ${gameId}: Still could not determine next player. Aborting turn change.`);
                  return;
             }
+            const timeoutEvent: GameEvent = { type: 'timeout', at: now, playerId: currentPlayerTurnId };
+            if (timeoutResult) timeoutEvent.placement = timeoutResult.placement;
+            const events = [timeoutEvent];
+            if (nextPlayerId) {
+                console.log(`[SocketIO Timer] Game ${gameId}: Timeout. Switching turn from ${currentPlayerTurnId} to ${nextPlayerId}.`);
+                Object.assign(setOps, nextTurnFields(room, nextPlayerId, now));
+                events.push(turnEvent(nextPlayerId, 'timeout', now));
+            }
 
-
-            console.log(`[SocketIO Timer] Game ${gameId}: Timeout. Switching turn from ${currentPlayerTurnId} to ${nextPlayerId}.`);
-            const updatedRoom = await updateGameRoom(currentDb, gameId, { $set: { turn: nextPlayerId } });
+            let updatedRoom = await updateGameRoom(currentDb, gameId, { $set: setOps, $push: eventsPush(...events) });
             if (updatedRoom) {
-                const turnUpdateData: TurnUpdateData = { gameId, nextPlayerId, reason: 'timeout' };
-                io.to(gameId).emit('turn-update', turnUpdateData);
-                io.to(gameId).emit('game-state-update', updatedRoom);
-                if (updatedRoom.status === 'IN_PROGRESS' && updatedRoom.turn) {
-                    startTurnTimer(gameId, updatedRoom.turn, io);
+                if (timeoutResult) {
+                    const placedData: PlayerPlacedData = { gameId, playerId: currentPlayerTurnId, placement: timeoutResult.placement, reason: 'timeout' };
+                    io.to(gameId).emit('player-placed', placedData);
+                }
+                if (timeoutResult?.isGameOver) {
+                    updatedRoom = await finishGame(currentDb, updatedRoom);
+                    io.to(gameId).emit('game-over', { gameId, winner: updatedRoom.winner, ranking: updatedRoom.ranking });
+                } else {
+                    emitTurnUpdate(io, gameId, updatedRoom, 'timeout');
+                }
+                emitGameStateUpdate(io, gameId, updatedRoom);
+                if (updatedRoom.status === 'IN_PROGRESS' && updatedRoom.turn && updatedRoom.turnDeadline) {
+                    startTurnTimer(gameId, updatedRoom.turn, updatedRoom.turnDeadline, io);
                 }
             } else {
                  console.error(`[SocketIO Timer] Game ${gameId}: Failed to update room after timeout for player ${currentPlayerTurnId}.`);
@@ -198,10 +352,129 @@ async function startTurnTimer(gameId: string, currentPlayerTurnId: string, io: S
         } else {
             console.log(`[SocketIO Timer] Game ${gameId}: Timer expired for ${currentPlayerTurnId}, but game state changed (Status: ${room?.status}, CurrentTurn: ${room?.turn}). No action taken by this timer.`);
         }
-    }, INITIAL_TIME_LIMIT_MULTIPLAYER * 1000);
+    }, Math.max(0, turnDeadline - Date.now()));
 
     turnTimers.set(gameId, { timerId, turnPlayerId: currentPlayerTurnId });
-    console.log(`[SocketIO Timer] Game ${gameId}: Timer SET for player ${currentPlayerTurnId} (${INITIAL_TIME_LIMIT_MULTIPLAYER}s).`);
+    console.log(`[SocketIO Timer] Game ${gameId}: Timer SET for player ${currentPlayerTurnId} (${Math.max(0, Math.round((turnDeadline - Date.now()) / 1000))}s left).`);
+}
+
+// Builds the $set fields that hand the turn to a player and start their clock (none in untimed games).
+// A player who is disconnected gets a paused turn, which starts once they rejoin.
+function nextTurnFields(room: GameRoom, nextPlayerId: string, now: number = Date.now()): { [key: string]: any } {
+    const turnTimer = normalizeTurnTimerSettings(room.turnTimer);
+    const isConnected = !!room.players[nextPlayerId]?.socketId;
+    return {
+        turn: nextPlayerId,
+        turnStartedAt: now,
+        turnDeadline: isConnected ? createTurnDeadline(turnTimer, room.players[nextPlayerId]?.timeBankMs, now) : undefined,
+        pausedTurnRemainingMs: undefined,
+    };
+}
+
+// Announces a new turn together with its deadline and the server time, so clients can correct for clock skew
+function emitTurnUpdate(io: SocketIOServer, gameId: string, room: GameRoom, reason: TurnUpdateData['reason']) {
+    if (!room.turn) return;
+    const turnUpdateData: TurnUpdateData = { gameId, nextPlayerId: room.turn, reason, turnDeadline: room.turnDeadline, serverTime: Date.now() };
+    io.to(gameId).emit('turn-update', turnUpdateData);
+}
+
+// The in-memory timers are lost when the server restarts; rebuild them from the deadlines stored on running games.
+async function resumeTurnTimers(db: MongoDb, io: SocketIOServer): Promise<void> {
+    if (!db) return;
+    try {
+        const runningRooms = await db.collection<GameRoom>(COLLECTION_NAME)
+            .find({ status: 'IN_PROGRESS', turnDeadline: { $gt: 0 } }, { projection: { _id: 0 } })
+            .toArray();
+        runningRooms.forEach(room => {
+            if (room.turn && room.turnDeadline && !turnTimers.has(room.gameId)) {
+                startTurnTimer(room.gameId, room.turn, room.turnDeadline, io);
+            }
+        });
+        if (runningRooms.length > 0) {
+            console.log(`[SocketIO Timer] Resumed turn timers for ${runningRooms.length} running games.`);
+        }
+        const roomsWithDisconnects = await db.collection<GameRoom>(COLLECTION_NAME)
+            .find({ status: 'IN_PROGRESS' }, { projection: { _id: 0 } })
+            .toArray();
+        roomsWithDisconnects.forEach(room => {
+            Object.entries(room.players || {}).forEach(([playerId, player]) => {
+                if (player.disconnectedAt && !player.socketId) startReconnectGraceTimer(room.gameId, playerId, player.disconnectedAt, io);
+            });
+        });
+    } catch (error) {
+        console.error("[SocketIO Timer] Error resuming turn timers:", error);
+    }
+}
+
+// Builds the $set operations that store a placement result (and end the game if it is decided).
+// endReason is how the placement came about; a winner who had already finished (crack rule "finish") won by cracking.
+function placementUpdate(room: GameRoom, result: PlacementResult, endReason: WinReason): { [key: string]: any } {
+    const setOps: { [key: string]: any } = {
+        remainingPlayerIds: result.remainingPlayerIds,
+        targetMap: result.targetMap,
+        placements: result.placements,
+    };
+    if (result.isGameOver) {
+        setOps.status = 'GAME_OVER';
+        setOps.winner = result.winner;
+        setOps.winReason = result.winner ? (room.placements?.[result.winner] ? 'cracked' : endReason) : undefined;
+        setOps.ranking = result.ranking;
+        setOps.turn = undefined;
+        setOps.turnDeadline = undefined;
+        setOps.finishedAt = new Date();
+    }
+    return setOps;
+}
+
+// Builds the $push that appends events to the room's event log, for the replay
+function eventsPush(...events: GameEvent[]): { [key: string]: any } {
+    return { events: { $each: events } };
+}
+
+// The event recorded when the turn passes to a player
+function turnEvent(playerId: string, reason: TurnUpdateData['reason'], now: number = Date.now()): GameEvent {
+    return { type: 'turn', at: now, playerId, reason };
+}
+
+// Resets a finished room for the next game with the same players, names and rules. The status
+// filter makes sure two votes arriving at once only reset the room once.
+async function resetRoomForRematch(db: MongoDb, room: GameRoom): Promise<GameRoom | null> {
+    const playerIds = getRematchPlayerIds(room);
+    const setOps: { [key: string]: any } = {
+        status: (playerIds.every(pid => room.players[pid]?.socketId) ? 'WAITING_FOR_READY' : 'WAITING_FOR_PLAYERS') as MultiplayerGameStatus,
+        seed: createRandomSeed(serverRandom),
+    };
+    playerIds.forEach(pid => {
+        setOps[`players.${pid}.secret`] = [];
+        setOps[`players.${pid}.guessesMade`] = [];
+        setOps[`players.${pid}.guessesAgainst`] = [];
+        setOps[`players.${pid}.hasSetSecret`] = false;
+        setOps[`players.${pid}.isReady`] = false;
+        setOps[`players.${pid}.consecutiveTimeouts`] = 0;
+    });
+    const unsetOps: { [key: string]: '' } = {};
+    const unsetFields = ['turn', 'turnDeadline', 'turnStartedAt', 'pausedTurnRemainingMs', 'targetMap', 'turnOrder', 'remainingPlayerIds', 'placements', 'ranking', 'winner', 'winReason', 'startingPlayer', 'inProgressSince', 'finishedAt', 'rematchVotes', 'events'];
+    if (room.seriesWinner) {
+        // The series is decided, so the rematch starts a new one
+        unsetFields.push('seriesGames', 'seriesScore', 'seriesWinner');
+    }
+    unsetFields.forEach(field => { unsetOps[field] = ''; });
+    playerIds.forEach(pid => {
+        unsetOps[`players.${pid}.timeBankMs`] = '';
+        unsetOps[`players.${pid}.hintsUsed`] = '';
+    });
+
+    try {
+        const result = await db.collection<GameRoom>(COLLECTION_NAME).findOneAndUpdate(
+            { gameId: room.gameId, status: 'GAME_OVER' },
+            { $set: setOps, $unset: unsetOps },
+            { returnDocument: 'after', projection: { _id: 0 } },
+        );
+        return result as GameRoom | null;
+    } catch (error) {
+        console.error(`[SocketIO-DB] resetRoomForRematch: Error for ${room.gameId}:`, error);
+        return null;
+    }
 }
 
 function clearTurnTimer(gameId: string) {
@@ -213,6 +486,84 @@ function clearTurnTimer(gameId: string) {
     }
 }
 
+const reconnectGraceTimers = new Map<string, NodeJS.Timeout>();
+const graceTimerKey = (gameId: string, playerId: string) => `${gameId}:${playerId}`;
+
+function clearReconnectGraceTimer(gameId: string, playerId: string) {
+    const key = graceTimerKey(gameId, playerId);
+    const timerId = reconnectGraceTimers.get(key);
+    if (timerId) {
+        clearTimeout(timerId);
+        reconnectGraceTimers.delete(key);
+        console.log(`[SocketIO Timer] Game ${gameId}: Reconnect grace CLEARED for player ${playerId}.`);
+    }
+}
+
+// Holds a disconnected player's seat for the grace window. If they have not rejoined by then, they forfeit.
+// The window is measured from the stored disconnectedAt, so it can be rebuilt after a restart.
+function startReconnectGraceTimer(gameId: string, playerId: string, disconnectedAt: number, io: SocketIOServer) {
+    clearReconnectGraceTimer(gameId, playerId);
+    const timerId = setTimeout(async () => {
+        reconnectGraceTimers.delete(graceTimerKey(gameId, playerId));
+        const currentDb = await dbConnectionPromise;
+        if (!currentDb) return;
+        const room = await getGameRoom(currentDb, gameId);
+        const player = room?.players?.[playerId];
+        if (!room || !player || room.status !== 'IN_PROGRESS' || player.socketId || player.disconnectedAt !== disconnectedAt) {
+            console.log(`[SocketIO Timer] Game ${gameId}: Reconnect grace of ${playerId} expired, but the player is back or the game changed. No action taken.`);
+            return;
+        }
+        if (!getTargetingState(room).remainingPlayerIds.includes(playerId)) return;
+        if (!Object.values(room.players).some(p => p.socketId)) {
+            console.log(`[SocketIO Timer] Game ${gameId}: Reconnect grace of ${playerId} expired with nobody connected. Game left paused.`);
+            return;
+        }
+        console.log(`[SocketIO Timer] Game ${gameId}: Player ${player.displayName || playerId} did not reconnect within ${RECONNECT_GRACE_MS / 1000}s and forfeits.`);
+        await forfeitDisconnectedPlayer(currentDb, io, room, playerId);
+    }, Math.max(0, disconnectedAt + RECONNECT_GRACE_MS - Date.now()));
+    reconnectGraceTimers.set(graceTimerKey(gameId, playerId), timerId);
+    console.log(`[SocketIO Timer] Game ${gameId}: Reconnect grace SET for player ${playerId}.`);
+}
+
+async function forfeitDisconnectedPlayer(db: MongoDb, io: SocketIOServer, room: GameRoom, playerId: string): Promise<void> {
+    const gameId = room.gameId;
+    const forfeitResult = placePlayer(getTargetingState(room), playerId, false);
+    const forfeitOps = placementUpdate(room, forfeitResult, 'exit');
+    const turnMovesOn = !forfeitResult.isGameOver && room.turn === playerId;
+    const nextPlayerId = turnMovesOn ? getNextTurnPlayerId(forfeitResult, playerId) : undefined;
+    const now = Date.now();
+    const events: GameEvent[] = [{ type: 'exit', at: now, playerId, placement: forfeitResult.placement }];
+    if (nextPlayerId) {
+        Object.assign(forfeitOps, nextTurnFields(room, nextPlayerId, now));
+        events.push(turnEvent(nextPlayerId, 'forfeit', now));
+    }
+    if (forfeitResult.isGameOver || nextPlayerId) clearTurnTimer(gameId);
+    let finalRoomState = await updateGameRoom(db, gameId, { $set: forfeitOps, $push: eventsPush(...events) });
+    if (!finalRoomState) {
+        console.error(`[SocketIO-DB] Failed to record the forfeit of ${playerId} in game ${gameId}.`);
+        return;
+    }
+    const placedData: PlayerPlacedData = { gameId, playerId, placement: forfeitResult.placement, reason: 'forfeit' };
+    io.to(gameId).emit('player-placed', placedData);
+    if (forfeitResult.isGameOver) {
+        finalRoomState = await finishGame(db, finalRoomState);
+        io.to(gameId).emit('game-over', { gameId, winner: finalRoomState.winner, ranking: finalRoomState.ranking });
+    } else if (nextPlayerId && finalRoomState.turn) {
+        emitTurnUpdate(io, gameId, finalRoomState, 'forfeit');
+        if (finalRoomState.turnDeadline) startTurnTimer(gameId, finalRoomState.turn, finalRoomState.turnDeadline, io);
+    }
+    emitGameStateUpdate(io, gameId, finalRoomState);
+}
+
+// A seat can go to a newcomer only if nobody holds it: it was never taken, or its player left the
+// waiting room and the grace window is over. Seats of a game that has started are only reclaimed with a token.
+function isSeatFree(room: GameRoom, playerId: string, now: number = Date.now()): boolean {
+    const player = room.players[playerId];
+    if (!player) return true;
+    if (player.socketId || room.status === 'IN_PROGRESS' || room.status === 'GAME_OVER') return false;
+    return !player.disconnectedAt || now - player.disconnectedAt >= RECONNECT_GRACE_MS;
+}
+
 
 export default async function handler(req: NextApiRequest, res: NextApiResponseWithSocket) {
   if (req.method === 'POST') { 
@@ -235,6 +586,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponseW
       const db = currentDb; // Use the already awaited db connection
       if (!db) {
         console.error("[SocketIO] MongoDB connection failed, Socket.IO server will not handle DB operations.");
+      } else {
+        await resumeTurnTimers(db, io);
       }
 
       io.on('connection', (socket: CustomSocket) => {
@@ -251,6 +604,13 @@ export default async function handler(req: NextApiRequest, res: NextApiResponseW
             const playerId = socket.playerId;
             console.log(`[SocketIO] Socket disconnected: ${socket.id}, Player: ${playerId}, Game: ${gameId}`);
 
+            if (gameId && socket.isSpectator) {
+              // Let the room know it has one spectator fewer
+              const room = await getGameRoom(db, gameId);
+              if (room) emitGameStateUpdate(io, gameId, room);
+              return;
+            }
+
             if (gameId && playerId) {
               let room = await getGameRoom(db, gameId);
               if (!room || !room.players || !room.players[playerId]) {
@@ -263,7 +623,12 @@ export default async function handler(req: NextApiRequest, res: NextApiResponseW
                   return;
               }
               
+              const disconnectedAt = Date.now();
               let updateOps: any = { $set: { [`players.${playerId}.socketId`]: undefined }};
+              if (room.status !== 'GAME_OVER') {
+                  // The seat stays reserved for the player during the reconnect grace window
+                  updateOps.$set[`players.${playerId}.disconnectedAt`] = disconnectedAt;
+              }
               
               if (room.status !== 'IN_PROGRESS' && room.status !== 'GAME_OVER') {
                   updateOps.$set[`players.${playerId}.isReady`] = false;
@@ -296,103 +661,127 @@ export default async function handler(req: NextApiRequest, res: NextApiResponseW
                     const refetchedRoom = await getGameRoom(db, gameId);
                     if (refetchedRoom) room = refetchedRoom; else return;
                   }
-              } else if (room.status === 'IN_PROGRESS' && room.playerCount === 2 && activePlayersWithSocketId.length < room.playerCount) {
-                  const winnerId = activePlayersWithSocketId[0] ? Object.keys(room.players).find(pId => room.players[pId!]?.socketId === activePlayersWithSocketId[0].socketId) : undefined;
-                  const anyGuessesMadeInGame = room.players ? Object.values(room.players).some(p => p.guessesMade && p.guessesMade.length > 0) : false;
-                  const durationSinceGameStart = room.inProgressSince ? (new Date().getTime() - new Date(room.inProgressSince).getTime()) / 1000 : 0;
-
-                  if (winnerId && room.targetMap && Object.keys(room.targetMap).length > 0) {
-                      if ((durationSinceGameStart > 7 && anyGuessesMadeInGame) || durationSinceGameStart > 15) {
-                          console.log(`[SocketIO] Game ${gameId}: Player ${playerId} disconnected during active game (${durationSinceGameStart.toFixed(1)}s in, guesses: ${anyGuessesMadeInGame}). ${room.players[winnerId]?.displayName || winnerId} wins by default.`);
-                          clearTurnTimer(gameId);
-                          const finalRoomState = await updateGameRoom(db, gameId, {$set: {status: 'GAME_OVER', winner: winnerId, turn: undefined}});
-                          if (finalRoomState) {
-                              io.to(gameId).emit('game-over', {gameId, winner: winnerId});
-                              room = finalRoomState;
-                          } else {
-                              const refetchedRoom = await getGameRoom(db, gameId);
-                              if (refetchedRoom) room = refetchedRoom; else return;
-                          }
-                      } else {
-                          console.log(`[SocketIO] Game ${gameId}: Player ${playerId} disconnected early in active game (${durationSinceGameStart.toFixed(1)}s in, guesses: ${anyGuessesMadeInGame}). Game not ended automatically. Allowing rejoin.`);
-                          if(room.turn === playerId) {
-                             clearTurnTimer(gameId); 
-                          }
+              } else if (room.status === 'IN_PROGRESS' && getTargetingState(room).remainingPlayerIds.includes(playerId)) {
+                  // The player keeps their seat for the grace window and forfeits only if they do not come back in time
+                  console.log(`[SocketIO] Game ${gameId}: Player ${playerId} disconnected during the game. Holding the seat for ${RECONNECT_GRACE_MS / 1000}s.`);
+                  if (room.turn === playerId) {
+                      // Pause the turn clock until the player rejoins. A chess clock is charged what they already spent;
+                      // a per-turn clock keeps the time left on the turn, which they get back on rejoin
+                      clearTurnTimer(gameId); 
+                      const pauseOps: { [key: string]: any } = { turnDeadline: undefined };
+                      const turnTimer = normalizeTurnTimerSettings(room.turnTimer);
+                      if (turnTimer.clockMode === 'chess' && room.turnStartedAt && room.turnDeadline) {
+                          const timeBankMs = room.players[playerId].timeBankMs ?? getInitialTimeBankMs(turnTimer);
+                          pauseOps[`players.${playerId}.timeBankMs`] = getRemainingTimeBankMs(turnTimer, timeBankMs, room.turnStartedAt, disconnectedAt);
+                      } else if (room.turnDeadline) {
+                          pauseOps.pausedTurnRemainingMs = Math.max(0, room.turnDeadline - disconnectedAt);
                       }
-                  } else if (winnerId && (!room.targetMap || Object.keys(room.targetMap).length === 0)) {
-                     console.log(`[SocketIO] Game ${gameId}: Player ${playerId} disconnected before targetMap fully established or game properly started. Game not ended. Status: ${room.status}.`);
+                      const pausedRoom = await updateGameRoom(db, gameId, { $set: pauseOps });
+                      if (pausedRoom) room = pausedRoom;
                   }
+                  startReconnectGraceTimer(gameId, playerId, disconnectedAt, io);
               }
               
-              if(room) io.to(gameId).emit('game-state-update', room); 
+              if(room) emitGameStateUpdate(io, gameId, room); 
             }
           });
 
-          socket.on('join-game', async (data: { gameId: string; playerCount: string; isHost?: boolean; rejoiningPlayerId?: string; username?: string }) => {
-              const { gameId, playerCount: playerCountString, isHost, rejoiningPlayerId, username } = data;
-              console.log(`[SocketIO] Socket ${socket.id} joining game: ${gameId}. isHost: ${isHost}, rejoiningAs: ${rejoiningPlayerId}, username: ${username}`);
+          socket.on('join-game', async (data: { gameId?: string; playerCount?: string; isHost?: boolean; reconnectToken?: string; username?: string; profileId?: string; profileKey?: string; targetMode?: TargetMode; crackRule?: CrackRule; feedbackMode?: FeedbackMode; codeRules?: Partial<CodeRules>; turnTimer?: Partial<TurnTimerSettings>; isPublic?: boolean; bestOf?: number; hintsAllowed?: boolean; hardcore?: boolean; spectate?: boolean }, ack?: (response: JoinGameAck) => void) => {
+              const { playerCount: playerCountString, isHost, reconnectToken, username, profileId, profileKey, targetMode, crackRule, feedbackMode, codeRules, turnTimer, isPublic, bestOf, hintsAllowed, hardcore, spectate } = data;
+              let gameId = typeof data.gameId === 'string' ? normalizeRoomCode(data.gameId) : '';
+              console.log(`[SocketIO] Socket ${socket.id} joining game: ${gameId || '(new room)'}. isHost: ${isHost}, withToken: ${!!reconnectToken}, username: ${username}, spectate: ${!!spectate}`);
 
-              const numPlayerCount = getPlayerCountNumber(playerCountString);
-              if (!numPlayerCount) {
-                socket.emit('error-event', { message: 'Invalid player count.' }); return;
+              if (spectate) {
+                  if (socket.playerId) {
+                      socket.emit('error-event', { message: 'Players cannot also join as spectators.' }); return;
+                  }
+                  const watchedRoom = await getGameRoom(db, gameId);
+                  if (!watchedRoom) {
+                      socket.emit('error-event', { message: 'Room not found.' }); return;
+                  }
+                  console.log(`[SocketIO] Game ${gameId}: Spectator ${socket.id} (${username || 'anonymous'}) joined.`);
+                  socket.isSpectator = true;
+                  socket.gameId = gameId;
+                  await socket.join(gameId);
+                  socket.emit('spectator-assigned', { gameId });
+                  emitGameStateUpdate(io, gameId, watchedRoom);
+                  return;
+              }
+              if (socket.isSpectator) {
+                  socket.emit('error-event', { message: 'Spectators cannot take a player slot.' }); return;
               }
 
-              let room = await getGameRoom(db, gameId);
+              let room: GameRoom | null = null;
               let assignedPlayerId: string | undefined = undefined;
+              let pausedAt: number | undefined; // When the rejoining player lost their connection
 
-              if (!room) {
-                  if (isHost) {
-                      console.log(`[SocketIO] Game ${gameId}: Creating room as host ${socket.id}.`);
-                      room = await createGameRoom(db, gameId, numPlayerCount, socket.id, username);
-                      if (!room) { socket.emit('error-event', { message: 'Failed to create room.' }); return; }
-                      assignedPlayerId = "player1";
-                  } else {
+              if (isHost && !gameId) {
+                  // New rooms always get a code from the server; the host learns it from the acknowledgement
+                  const numPlayerCount = getPlayerCountNumber(playerCountString || null);
+                  if (!numPlayerCount) {
+                    socket.emit('error-event', { message: 'Invalid player count.' }); return;
+                  }
+                  console.log(`[SocketIO] Creating room as host ${socket.id}.`);
+                  room = await createGameRoom(db, numPlayerCount, socket.id, username, { targetMode, crackRule, feedbackMode, codeRules, turnTimer, isPublic, bestOf, hintsAllowed, hardcore });
+                  if (!room) { socket.emit('error-event', { message: 'Failed to create room.' }); return; }
+                  gameId = room.gameId;
+                  assignedPlayerId = "player1";
+              } else {
+                  room = gameId ? await getGameRoom(db, gameId) : null;
+                  if (!room) {
                       socket.emit('error-event', { message: 'Room not found.' }); return;
                   }
-              } else { 
-                  if (rejoiningPlayerId && room.players && room.players[rejoiningPlayerId]) {
-                      const playerSlot = room.players[rejoiningPlayerId];
-                      if (playerSlot.socketId && playerSlot.socketId !== socket.id) {
-                           socket.emit('error-event', { message: `Slot ${rejoiningPlayerId} is currently active with another session.` }); return;
-                      }
-                      console.log(`[SocketIO] Game ${gameId}: Player ${rejoiningPlayerId} (${socket.id}) rejoining.`);
-                      assignedPlayerId = rejoiningPlayerId;
-                      if(!room.players[assignedPlayerId]) { 
-                        room.players[assignedPlayerId] = { 
-                            socketId: socket.id, 
-                            displayName: username || assignedPlayerId,
-                            hasSetSecret: false, 
-                            isReady: false, 
-                            guessesMade: [], 
-                            guessesAgainst: [], 
-                            secret: [] 
-                        };
+
+                  // Only a token signed for this seat (and its current holder) gets a taken seat back
+                  const claims = verifyReconnectToken(reconnectToken, RECONNECT_TOKEN_SECRET);
+                  const claimedSlot = claims && claims.gameId === gameId ? room.players[claims.playerId] : undefined;
+                  if (claims && claimedSlot && claimedSlot.sessionId === claims.sessionId) {
+                      assignedPlayerId = claims.playerId;
+                      const previousSocketId = claimedSlot.socketId;
+                      if (previousSocketId && previousSocketId !== socket.id) {
+                          // The old connection is stale, e.g. the network dropped before the server noticed. Detach it
+                          // first so its disconnect does not release the seat again.
+                          const previousSocket = io.sockets.sockets.get(previousSocketId) as CustomSocket | undefined;
+                          if (previousSocket) {
+                              previousSocket.gameId = undefined;
+                              previousSocket.playerId = undefined;
+                              previousSocket.disconnect(true);
+                          }
+                          console.log(`[SocketIO] Game ${gameId}: Player ${assignedPlayerId} reconnected on ${socket.id}, replacing ${previousSocketId}.`);
                       } else {
-                        room.players[assignedPlayerId]!.socketId = socket.id; 
-                        room.players[assignedPlayerId]!.displayName = username || room.players[assignedPlayerId]!.displayName || assignedPlayerId;
+                          console.log(`[SocketIO] Game ${gameId}: Player ${assignedPlayerId} (${socket.id}) rejoining.`);
+                      }
+                      claimedSlot.socketId = socket.id;
+                      claimedSlot.displayName = username || claimedSlot.displayName || assignedPlayerId;
+                      if (claimedSlot.disconnectedAt) {
+                          pausedAt = claimedSlot.disconnectedAt;
+                          delete claimedSlot.disconnectedAt;
+                          clearReconnectGraceTimer(gameId, assignedPlayerId);
                       }
-                      
                   } else {
-                      let foundSlot = false;
+                      if (reconnectToken) {
+                          console.warn(`[SocketIO] Game ${gameId}: Socket ${socket.id} sent an invalid or outdated reconnect token. Joining as a new player.`);
+                      }
+                      const now = Date.now();
                       for (let i = 1; i <= room.playerCount; i++) {
                           const potentialPlayerId = `player${i}`;
-                          if (!room.players[potentialPlayerId] || !room.players[potentialPlayerId].socketId) {
+                          if (isSeatFree(room, potentialPlayerId, now)) {
                               assignedPlayerId = potentialPlayerId;
                               room.players[assignedPlayerId] = { 
                                   socketId: socket.id, 
+                                  sessionId: createSessionId(),
                                   displayName: username || assignedPlayerId,
-                                  secret: room.players[assignedPlayerId]?.secret || [], 
-                                  guessesMade: room.players[assignedPlayerId]?.guessesMade || [], 
-                                  guessesAgainst: room.players[assignedPlayerId]?.guessesAgainst || [], 
-                                  hasSetSecret: room.players[assignedPlayerId]?.hasSetSecret || false, 
-                                  isReady: room.players[assignedPlayerId]?.isReady || false
+                                  secret: [], 
+                                  guessesMade: [], 
+                                  guessesAgainst: [], 
+                                  hasSetSecret: false, 
+                                  isReady: false
                               };
                               console.log(`[SocketIO] Game ${gameId}: New player ${assignedPlayerId} (${socket.id}, Name: ${username || assignedPlayerId}) assigned.`);
-                              foundSlot = true;
                               break;
                           }
                       }
-                      if (!foundSlot) {
+                      if (!assignedPlayerId) {
                           const activePlayerIds = Object.entries(room.players)
                               .filter(([pid, pdata]) => pdata.socketId)
                               .map(([pid, pdata]) => pdata.displayName || pid);
@@ -405,11 +794,23 @@ export default async function handler(req: NextApiRequest, res: NextApiResponseW
               if (!assignedPlayerId || !room) {
                   socket.emit('error-event', { message: 'Failed to assign player to room.' }); return;
               }
+              // Results are only attributed to a profile the player proved to own with its key
+              const verifiedProfileId = profileId ? await verifyProfileOwner(db, profileId, profileKey) : null;
+              if (verifiedProfileId) {
+                  room.players[assignedPlayerId].profileId = verifiedProfileId;
+              } else {
+                  if (profileId) console.warn(`[SocketIO] Game ${gameId}: ${assignedPlayerId} sent profile ${profileId} without its key. Their results will not be attributed to it.`);
+                  delete room.players[assignedPlayerId].profileId;
+              }
               
               socket.playerId = assignedPlayerId;
               socket.gameId = gameId;
               await socket.join(gameId); 
-              socket.emit('player-assigned', { playerId: assignedPlayerId, gameId });
+              const sessionId = room.players[assignedPlayerId].sessionId || createSessionId();
+              room.players[assignedPlayerId].sessionId = sessionId;
+              const assignedReconnectToken = createReconnectToken({ gameId, playerId: assignedPlayerId, sessionId }, RECONNECT_TOKEN_SECRET);
+              if (typeof ack === 'function') ack({ gameId, playerId: assignedPlayerId, reconnectToken: assignedReconnectToken });
+              socket.emit('player-assigned', { playerId: assignedPlayerId, gameId, reconnectToken: assignedReconnectToken });
 
               const activePlayersWithSocketId = Object.values(room.players).filter(p => p.socketId);
              
@@ -422,24 +823,37 @@ export default async function handler(req: NextApiRequest, res: NextApiResponseW
                 }
               }
               
-              const finalRoomState = await updateGameRoom(db, gameId, { $set: { players: room.players, status: room.status } });
+              const joinUpdates: { [key: string]: any } = { players: room.players, status: room.status };
+              if (room.status === 'IN_PROGRESS' && room.turn === assignedPlayerId && !room.turnDeadline && !room.winner) {
+                  if (typeof room.pausedTurnRemainingMs === 'number' && room.turnStartedAt && pausedAt) {
+                      // The clock was paused when this player dropped out on their turn; it runs on with the time they had left
+                      Object.assign(joinUpdates, resumePausedTurn(room.pausedTurnRemainingMs, room.turnStartedAt, pausedAt), { pausedTurnRemainingMs: undefined });
+                  } else {
+                      // The turn reached this player while they were away (or on a chess clock, which was charged at the pause)
+                      Object.assign(joinUpdates, nextTurnFields(room, assignedPlayerId));
+                  }
+              }
+              const finalRoomState = await updateGameRoom(db, gameId, { $set: joinUpdates });
               if (!finalRoomState) { 
                   console.error(`[SocketIO-DB] Critical: Failed to save final room state for ${gameId} after join. Player: ${assignedPlayerId}`);
                   socket.emit('error-event', { message: 'Server error saving game state.' });
                   const fetchedRoom = await getGameRoom(db, gameId); 
-                  if (fetchedRoom) io.to(gameId).emit('game-state-update', fetchedRoom);
+                  if (fetchedRoom) emitGameStateUpdate(io, gameId, fetchedRoom);
                   return;
               }
               
-              io.to(gameId).emit('game-state-update', finalRoomState);
-              if(finalRoomState.status === 'IN_PROGRESS' && finalRoomState.turn === assignedPlayerId && !finalRoomState.winner) {
+              emitGameStateUpdate(io, gameId, finalRoomState);
+              if(finalRoomState.status === 'IN_PROGRESS' && finalRoomState.turn === assignedPlayerId && finalRoomState.turnDeadline && !finalRoomState.winner) {
                 console.log(`[SocketIO] Game ${gameId}: Player ${finalRoomState.players[assignedPlayerId]?.displayName || assignedPlayerId} rejoining, it's their turn. Starting timer.`);
-                startTurnTimer(gameId, assignedPlayerId, io);
+                startTurnTimer(gameId, assignedPlayerId, finalRoomState.turnDeadline, io);
               }
           });
         
           socket.on('send-secret', async (data: { gameId: string; playerId: string; secret: string[] }) => {
             const { gameId, playerId: clientPlayerId, secret } = data;
+            if (socket.isSpectator) {
+                socket.emit('error-event', { message: 'Spectators cannot set a secret.' }); return;
+            }
         
             if (socket.playerId !== clientPlayerId) {
                 console.warn(`[SocketIO] Security Alert: Socket ${socket.id} (server-assigned: ${socket.playerId}) ` +
@@ -453,7 +867,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponseW
             let room = await getGameRoom(db, gameId);
             if (!room) { socket.emit('error-event', { message: 'Game room not found.' }); return; }
             if (!room.players || !room.players[socket.playerId!] ) { socket.emit('error-event', { message: 'Player not found in room.' }); return; }
-            if (secret.length !== CODE_LENGTH) { socket.emit('error-event', {message: `Secret must be ${CODE_LENGTH} digits.`}); return; }
+            const secretRules = normalizeCodeRules(room.codeRules);
+            if (!isValidCode(secret, secretRules)) { socket.emit('error-event', {message: `Secret must be a valid ${describeCodeRules(secretRules)} code with no 3 identical symbols in a row.`}); return; }
 
             const playerUpdatePath = `players.${socket.playerId}`;
             const updateOps = {
@@ -461,7 +876,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponseW
                     [`${playerUpdatePath}.secret`]: secret,
                     [`${playerUpdatePath}.hasSetSecret`]: true,
                     [`${playerUpdatePath}.isReady`]: true,
-                }
+                },
+                $push: eventsPush({ type: 'secret-set', at: Date.now(), playerId: socket.playerId }),
             };
         
             let updatedRoom = await updateGameRoom(db, gameId, updateOps);
@@ -469,11 +885,11 @@ export default async function handler(req: NextApiRequest, res: NextApiResponseW
                 socket.emit('error-event', { message: 'Failed to save secret.' });
                 console.error(`[SocketIO-DB] Failed to update room ${gameId} after secret submission for ${socket.playerId}.`);
                 const fetchedRoom = await getGameRoom(db, gameId);
-                if(fetchedRoom) io.to(gameId).emit('game-state-update', fetchedRoom);
+                if(fetchedRoom) emitGameStateUpdate(io, gameId, fetchedRoom);
                 return;
             }
             
-            io.to(gameId).emit('game-state-update', updatedRoom); 
+            emitGameStateUpdate(io, gameId, updatedRoom); 
         
             const activePlayers = Object.values(updatedRoom.players).filter(p => p.socketId);
             const allActivePlayersReady = activePlayers.length === updatedRoom.playerCount && activePlayers.every(p => p.isReady && p.hasSetSecret);
@@ -482,17 +898,20 @@ export default async function handler(req: NextApiRequest, res: NextApiResponseW
                 console.log(`[SocketIO] Game ${gameId}: All ${updatedRoom.playerCount} players are ready. Status changing to READY_TO_START.`);
                 const finalRoomState = await updateGameRoom(db, gameId, { $set: { status: 'READY_TO_START' } });
                 if (finalRoomState) {
-                    io.to(gameId).emit('game-state-update', finalRoomState);
+                    emitGameStateUpdate(io, gameId, finalRoomState);
                 } else {
                      console.error(`[SocketIO-DB] Failed to update room ${gameId} to READY_TO_START.`);
                      const currentRoomState = await getGameRoom(db, gameId);
-                     if(currentRoomState) io.to(gameId).emit('game-state-update', currentRoomState);
+                     if(currentRoomState) emitGameStateUpdate(io, gameId, currentRoomState);
                 }
             }
         });
 
         socket.on('request-start-game', async (data: { gameId: string }) => {
             const { gameId } = data;
+            if (socket.isSpectator) {
+                socket.emit('error-event', { message: 'Spectators cannot start the game.' }); return;
+            }
             if (socket.playerId !== 'player1') {
                 socket.emit('error-event', { message: 'Only player1 (host) can start the game.' });
                 return;
@@ -510,48 +929,63 @@ export default async function handler(req: NextApiRequest, res: NextApiResponseW
             if (activePlayers.length !== room.playerCount) {
                  socket.emit('error-event', { message: 'Not all players are ready or connected.' });
                  const revertedRoom = await updateGameRoom(db, gameId, {$set: { status: 'WAITING_FOR_READY'}});
-                 if(revertedRoom) io.to(gameId).emit('game-state-update', revertedRoom);
+                 if(revertedRoom) emitGameStateUpdate(io, gameId, revertedRoom);
                  return;
             }
             
-            const playerIds = Object.keys(room.players).filter(pid => room.players[pid]?.socketId); 
-            if (playerIds.length !== 2) { 
-                socket.emit('error-event', {message: 'Target mapping only supported for 2 players currently.'});
-                return;
-            }
+            const playerIds = Object.keys(room.players)
+                .filter(pid => room.players[pid]?.socketId)
+                .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
             
-            const startingPlayer = playerIds[Math.floor(Math.random() * playerIds.length)];
-            const targetMap: { [playerId: string]: string } = {};
-            targetMap[playerIds[0]] = playerIds[1];
-            targetMap[playerIds[1]] = playerIds[0];
+            // The first game of a series starts with a random player, later games alternate
+            const startRandom = room.seed ? deriveRandom(room.seed, 'start') : serverRandom;
+            const startingPlayer = getSeriesStartingPlayer(playerIds, room.seriesGames) || playerIds[randomInt(playerIds.length, startRandom)];
+            const { turnOrder, remainingPlayerIds, targetMap, placements } = createTargetingState(playerIds);
 
+            const turnTimer = normalizeTurnTimerSettings(room.turnTimer);
+            const clockUpdates: { [key: string]: any } = {};
+            playerIds.forEach(pid => {
+                clockUpdates[`players.${pid}.consecutiveTimeouts`] = 0;
+                clockUpdates[`players.${pid}.timeBankMs`] = getInitialTimeBankMs(turnTimer);
+                room.players[pid].timeBankMs = getInitialTimeBankMs(turnTimer);
+            });
+            const startedAt = new Date();
             const startGameUpdates = {
                 $set: {
                     status: 'IN_PROGRESS' as MultiplayerGameStatus,
-                    turn: startingPlayer,
-                    targetMap: targetMap,
-                    inProgressSince: new Date(),
-                }
+                    ...nextTurnFields(room, startingPlayer, startedAt.getTime()),
+                    ...clockUpdates,
+                    targetMap,
+                    turnOrder,
+                    remainingPlayerIds,
+                    placements,
+                    startingPlayer,
+                    inProgressSince: startedAt,
+                },
+                $push: eventsPush({ type: 'game-start', at: startedAt.getTime(), playerId: startingPlayer }),
             };
             const startedRoom = await updateGameRoom(db, gameId, startGameUpdates);
 
             if (startedRoom) {
                 console.log(`[SocketIO] Game ${gameId} starting by host ${startedRoom.players['player1']?.displayName || 'player1'}. Turn: ${startedRoom.players[startingPlayer]?.displayName || startingPlayer}, TargetMap: ${JSON.stringify(targetMap)}`);
                 io.to(gameId).emit('game-start', { gameId, startingPlayer, targetMap });
-                io.to(gameId).emit('game-state-update', startedRoom); 
-                if (startedRoom.status === 'IN_PROGRESS' && startedRoom.turn) {
-                    startTurnTimer(gameId, startedRoom.turn, io);
+                emitGameStateUpdate(io, gameId, startedRoom); 
+                if (startedRoom.status === 'IN_PROGRESS' && startedRoom.turn && startedRoom.turnDeadline) {
+                    startTurnTimer(gameId, startedRoom.turn, startedRoom.turnDeadline, io);
                 }
             } else {
                 socket.emit('error-event', { message: 'Failed to start game server-side.' });
                 console.error(`[SocketIO-DB] Failed to update room ${gameId} to IN_PROGRESS.`);
                  const currentRoomState = await getGameRoom(db, gameId);
-                 if(currentRoomState) io.to(gameId).emit('game-state-update', currentRoomState);
+                 if(currentRoomState) emitGameStateUpdate(io, gameId, currentRoomState);
             }
         });
 
-        socket.on('make-guess', async (data: { gameId: string; playerId: string; guess: string[] }) => {
-            const { gameId, playerId: clientPlayerId, guess: guessArray } = data;
+        socket.on('make-guess', async (data: { gameId: string; playerId: string; guess: string[]; targetPlayerId?: string }) => {
+            const { gameId, playerId: clientPlayerId, guess: guessArray, targetPlayerId: requestedTargetId } = data;
+            if (socket.isSpectator) {
+                socket.emit('error-event', { message: 'Spectators cannot make guesses.' }); return;
+            }
         
             if (socket.playerId !== clientPlayerId) {
                 socket.emit('error-event', { message: 'Player ID mismatch for guess.' }); return;
@@ -562,20 +996,32 @@ export default async function handler(req: NextApiRequest, res: NextApiResponseW
             if (room.status !== 'IN_PROGRESS') { socket.emit('error-event', { message: 'Game is not in progress.' }); return; }
             if (room.turn !== socket.playerId) { socket.emit('error-event', { message: 'Not your turn.' }); return; }
         
-            const targetPlayerId = room.targetMap[socket.playerId!];
+            const targetingState = getTargetingState(room);
+            const targetPlayerId = requestedTargetId || room.targetMap[socket.playerId!];
             if(!targetPlayerId) { socket.emit('error-event', { message: 'Target player not found.'}); return; }
+            if (!isValidTarget(targetingState, room.targetMode || DEFAULT_TARGET_MODE, socket.playerId!, targetPlayerId)) {
+                socket.emit('error-event', { message: 'You cannot guess that player\'s secret.' }); return;
+            }
 
             const targetPlayer = room.players[targetPlayerId];
             if (!targetPlayer || !targetPlayer.secret || targetPlayer.secret.length === 0) {
                 socket.emit('error-event', { message: 'Opponent secret not set.' }); return;
             }
-            if (guessArray.length !== CODE_LENGTH) { socket.emit('error-event', {message: `Guess must be ${CODE_LENGTH} digits.`}); return; }
+            const guessRules = normalizeCodeRules(room.codeRules);
+            if (!isValidCode(guessArray, guessRules)) { socket.emit('error-event', {message: `Guess must be a valid ${describeCodeRules(guessRules)} code with no 3 identical symbols in a row.`}); return; }
+            if (room.hardcore) {
+                const contradictions = findGuessContradictions(guessArray, targetPlayer.guessesAgainst || []);
+                if (contradictions.length > 0) {
+                    socket.emit('error-event', { message: `Hardcore room: ${contradictions.map(describeGuessContradiction).join('; ')}.` }); return;
+                }
+            }
         
             clearTurnTimer(gameId); 
 
-            const feedback = calculateFeedback(guessArray, targetPlayer.secret);
-            const guessString = guessArray.join('');
-            const newGuess: Guess = { value: guessString, feedback };
+            const newGuess: Guess = scoreGuess(guessArray, targetPlayer.secret, room.feedbackMode || DEFAULT_FEEDBACK_MODE);
+            const feedback = newGuess.feedback;
+            const now = Date.now();
+            const events: GameEvent[] = [{ type: 'guess', at: now, playerId: socket.playerId, targetPlayerId, guess: newGuess }];
         
             const playerGuessesPath = `players.${socket.playerId}.guessesMade`;
             const opponentGuessesAgainstPath = `players.${targetPlayerId}.guessesAgainst`;
@@ -587,20 +1033,42 @@ export default async function handler(req: NextApiRequest, res: NextApiResponseW
                 }
             };
         
-            let winner: string | undefined = undefined;
+            let crackResult: PlacementResult | undefined = undefined;
+            const crackRule = room.crackRule || DEFAULT_CRACK_RULE;
             if (checkWin(feedback)) {
-                winner = socket.playerId;
-                updateOps.$set = { status: 'GAME_OVER' as MultiplayerGameStatus, winner: winner, turn: undefined };
-                console.log(`[SocketIO] Game ${gameId}: Player ${room.players[winner]?.displayName || winner} has won!`);
+                crackResult = resolveCrack(targetingState, crackRule, socket.playerId!, targetPlayerId);
+                updateOps.$set = placementUpdate(room, crackResult, 'cracked');
+                if (crackResult.isGameOver) {
+                    console.log(`[SocketIO] Game ${gameId}: Player ${room.players[crackResult.winner!]?.displayName || crackResult.winner} has won! Ranking: ${crackResult.ranking?.join(', ')}`);
+                } else {
+                    const nextPlayerId = getNextTurnPlayerId(crackResult, socket.playerId!);
+                    if (nextPlayerId) {
+                        Object.assign(updateOps.$set, nextTurnFields(room, nextPlayerId, now));
+                        events.push(turnEvent(nextPlayerId, 'guess', now));
+                    }
+                    console.log(`[SocketIO] Game ${gameId}: ${socket.playerId} cracked ${targetPlayerId}. ${crackResult.placedPlayerId} placed #${crackResult.placement}.`);
+                }
             } else {
-                updateOps.$set = { turn: targetPlayerId };
+                const nextPlayerId = getNextTurnPlayerId(targetingState, socket.playerId!);
+                updateOps.$set = nextPlayerId ? nextTurnFields(room, nextPlayerId, now) : {};
+                if (nextPlayerId) events.push(turnEvent(nextPlayerId, 'guess', now));
+            }
+            Object.assign(updateOps.$push, eventsPush(...events));
+
+            // A guess ends the player's run of timeouts and charges the turn to their time bank or chess clock
+            updateOps.$set[`players.${socket.playerId}.consecutiveTimeouts`] = 0;
+            const turnTimer = normalizeTurnTimerSettings(room.turnTimer);
+            if (usesTimeBank(turnTimer) && room.turnStartedAt) {
+                const timeBankMs = room.players[socket.playerId!].timeBankMs ?? getInitialTimeBankMs(turnTimer);
+                const incrementMs = turnTimer.clockMode === 'chess' ? turnTimer.incrementSeconds * 1000 : 0;
+                updateOps.$set[`players.${socket.playerId}.timeBankMs`] = getRemainingTimeBankMs(turnTimer, timeBankMs, room.turnStartedAt) + incrementMs;
             }
         
-            const updatedRoom = await updateGameRoom(db, gameId, updateOps);
+            let updatedRoom = await updateGameRoom(db, gameId, updateOps);
             if (!updatedRoom) { 
                 socket.emit('error-event', { message: 'Failed to record guess.' }); 
                 const currentRoomState = await getGameRoom(db, gameId);
-                if(currentRoomState) io.to(gameId).emit('game-state-update', currentRoomState);
+                if(currentRoomState) emitGameStateUpdate(io, gameId, currentRoomState);
                 return;
             }
         
@@ -611,16 +1079,95 @@ export default async function handler(req: NextApiRequest, res: NextApiResponseW
                 guess: newGuess 
             });
             
-            if (winner) {
-                io.to(gameId).emit('game-over', { gameId, winner });
+            if (crackResult) {
+                const placedData: PlayerPlacedData = {
+                    gameId,
+                    playerId: crackResult.placedPlayerId,
+                    placement: crackResult.placement,
+                    reason: crackRule === 'finish' ? 'finished' : 'cracked',
+                    byPlayerId: socket.playerId!,
+                };
+                io.to(gameId).emit('player-placed', placedData);
+            }
+
+            if (crackResult?.isGameOver) {
+                updatedRoom = await finishGame(db, updatedRoom);
+                io.to(gameId).emit('game-over', { gameId, winner: updatedRoom.winner, ranking: updatedRoom.ranking });
             } else if (updatedRoom.turn) { 
-                const turnUpdateData: TurnUpdateData = { gameId, nextPlayerId: updatedRoom.turn, reason: 'guess' };
-                io.to(gameId).emit('turn-update', turnUpdateData);
-                if (updatedRoom.status === 'IN_PROGRESS') { 
-                     startTurnTimer(gameId, updatedRoom.turn, io);
+                emitTurnUpdate(io, gameId, updatedRoom, 'guess');
+                if (updatedRoom.status === 'IN_PROGRESS' && updatedRoom.turnDeadline) { 
+                     startTurnTimer(gameId, updatedRoom.turn, updatedRoom.turnDeadline, io);
                 }
             }
-            io.to(gameId).emit('game-state-update', updatedRoom); 
+            emitGameStateUpdate(io, gameId, updatedRoom); 
+        });
+
+        socket.on('request-rematch', async (data: { gameId: string }) => {
+            const { gameId } = data;
+            if (socket.isSpectator) {
+                socket.emit('error-event', { message: 'Spectators cannot ask for a rematch.' }); return;
+            }
+            const playerId = socket.playerId;
+            if (!playerId || socket.gameId !== gameId) {
+                socket.emit('error-event', { message: 'You are not a player in this game.' }); return;
+            }
+
+            const room = await getGameRoom(db, gameId);
+            if (!room) { socket.emit('error-event', { message: 'Game room not found.' }); return; }
+            if (!getRematchPlayerIds(room).includes(playerId)) {
+                socket.emit('error-event', { message: 'Only the players of the last game can ask for a rematch.' }); return;
+            }
+            if (!canRematch(room)) {
+                socket.emit('error-event', { message: 'A rematch is no longer possible in this room.' }); return;
+            }
+
+            const votedRoom = await updateGameRoom(db, gameId, { $addToSet: { rematchVotes: playerId } });
+            if (!votedRoom) { socket.emit('error-event', { message: 'Failed to record the rematch vote.' }); return; }
+            console.log(`[SocketIO] Game ${gameId}: ${votedRoom.players[playerId]?.displayName || playerId} accepted a rematch (${(votedRoom.rematchVotes || []).length}/${getRematchPlayerIds(votedRoom).length}).`);
+
+            if (!isRematchAgreed(votedRoom)) {
+                emitGameStateUpdate(io, gameId, votedRoom);
+                return;
+            }
+            const resetRoom = await resetRoomForRematch(db, votedRoom);
+            if (!resetRoom) {
+                // Another vote arriving at the same time already reset the room
+                console.log(`[SocketIO] Game ${gameId}: Rematch reset skipped, the room is no longer over.`);
+                return;
+            }
+            console.log(`[SocketIO] Game ${gameId}: All players accepted. Room reset for a rematch. Series score: ${JSON.stringify(resetRoom.seriesScore || {})}`);
+            io.to(gameId).emit('rematch-start', { gameId });
+            emitGameStateUpdate(io, gameId, resetRoom);
+        });
+
+        socket.on('use-hint', async (data: { gameId: string }, ack?: (response: UseHintAck) => void) => {
+            const { gameId } = data;
+            if (socket.isSpectator) {
+                socket.emit('error-event', { message: 'Spectators cannot use hints.' }); return;
+            }
+            const playerId = socket.playerId;
+            if (!playerId || socket.gameId !== gameId) {
+                socket.emit('error-event', { message: 'You are not a player in this game.' }); return;
+            }
+
+            const room = await getGameRoom(db, gameId);
+            if (!room) { socket.emit('error-event', { message: 'Game room not found.' }); return; }
+            if (!room.hintsAllowed) {
+                socket.emit('error-event', { message: 'Hints are turned off in this room.' }); return;
+            }
+            if (room.status !== 'IN_PROGRESS' || !getTargetingState(room).remainingPlayerIds.includes(playerId)) {
+                socket.emit('error-event', { message: 'Hints are only available while you are playing.' }); return;
+            }
+            if (room.turn !== playerId) {
+                socket.emit('error-event', { message: 'Hints can only be used on your turn.' }); return;
+            }
+
+            // Hints are counted on the player so the archived result marks the game as assisted
+            const updatedRoom = await updateGameRoom(db, gameId, { $inc: { [`players.${playerId}.hintsUsed`]: 1 } });
+            if (!updatedRoom) { socket.emit('error-event', { message: 'Failed to record the hint.' }); return; }
+            console.log(`[SocketIO] Game ${gameId}: ${updatedRoom.players[playerId]?.displayName || playerId} used a hint (${updatedRoom.players[playerId]?.hintsUsed}).`);
+            if (typeof ack === 'function') ack({ hintsUsed: updatedRoom.players[playerId]?.hintsUsed || 0 });
+            emitGameStateUpdate(io, gameId, updatedRoom);
         });
 
         socket.on('player-exit', async (data: {gameId: string, playerId: string}) => {
@@ -641,59 +1188,69 @@ export default async function handler(req: NextApiRequest, res: NextApiResponseW
             clearTurnTimer(gameId); 
             
             const updateOps: any = { $set: { [`players.${playerId}.socketId`]: undefined }};
+            const now = Date.now();
             let gameEndedByExit = false;
             let gameStatusChangedToGameOver = false;
+            let forfeitResult: PlacementResult | undefined = undefined;
 
-            if (room.status === 'IN_PROGRESS' && room.playerCount === 2) {
-                const otherPlayerId = Object.keys(room.players).find(pId => pId !== playerId && room.players[pId!]?.socketId);
-                if(otherPlayerId) {
-                    console.log(`[SocketIO] Game ${gameId}: Player ${room.players[playerId]?.displayName || playerId} exited an active 2-player game. ${room.players[otherPlayerId]?.displayName || otherPlayerId} wins by default.`);
-                    updateOps.$set.status = 'GAME_OVER';
-                    updateOps.$set.winner = otherPlayerId;
-                    updateOps.$set.turn = undefined;
-                    gameEndedByExit = true;
-                    gameStatusChangedToGameOver = true;
+            if (room.status === 'IN_PROGRESS') {
+                const targetingState = getTargetingState(room);
+                if (targetingState.remainingPlayerIds.includes(playerId)) {
+                    forfeitResult = placePlayer(targetingState, playerId, false);
+                    Object.assign(updateOps.$set, placementUpdate(room, forfeitResult, 'exit'));
+                    const events: GameEvent[] = [{ type: 'exit', at: now, playerId, placement: forfeitResult.placement }];
+                    updateOps.$push = eventsPush(...events);
+                    if (forfeitResult.isGameOver) {
+                        console.log(`[SocketIO] Game ${gameId}: Player ${room.players[playerId]?.displayName || playerId} exited an active game. ${room.players[forfeitResult.winner!]?.displayName || forfeitResult.winner} wins by default.`);
+                        gameEndedByExit = true;
+                        gameStatusChangedToGameOver = true;
+                    } else {
+                        console.log(`[SocketIO] Game ${gameId}: Player ${room.players[playerId]?.displayName || playerId} exited an active game and forfeits place #${forfeitResult.placement}. Game continues.`);
+                        const nextPlayerId = room.turn === playerId ? getNextTurnPlayerId(forfeitResult, playerId) : undefined;
+                        if (nextPlayerId) {
+                            Object.assign(updateOps.$set, nextTurnFields(room, nextPlayerId, now));
+                            events.push(turnEvent(nextPlayerId, 'forfeit', now));
+                        }
+                    }
                 } else {
-                     console.log(`[SocketIO] Game ${gameId}: Player ${room.players[playerId]?.displayName || playerId} exited, but no other active player found. Game ending.`);
-                     updateOps.$set.status = 'GAME_OVER';
-                     updateOps.$set.winner = undefined; 
-                     updateOps.$set.turn = undefined;
-                     gameEndedByExit = true;
-                     gameStatusChangedToGameOver = true;
+                    console.log(`[SocketIO] Game ${gameId}: Player ${room.players[playerId]?.displayName || playerId} exited after already leaving the running game.`);
                 }
-            } else if (room.status !== 'GAME_OVER' && room.status !== 'IN_PROGRESS') { 
+            } else if (room.status !== 'GAME_OVER') { 
                  // Player exiting from lobby (WAITING_FOR_PLAYERS, WAITING_FOR_READY, READY_TO_START)
                  console.log(`[SocketIO] Game ${gameId}: Player ${room.players[playerId]?.displayName || playerId} exiting from lobby. Setting room to GAME_OVER.`);
                  updateOps.$set.status = 'GAME_OVER';
                  updateOps.$set.winner = undefined; // No winner if exited from lobby
                  updateOps.$set.turn = undefined;
+                 updateOps.$set.turnDeadline = undefined;
                  gameEndedByExit = true; // Exited, though not during active play
                  gameStatusChangedToGameOver = true;
-            } else if (room.status === 'GAME_OVER') {
+            } else {
                 // Player exiting after game is already over, just mark disconnected
                 console.log(`[SocketIO] Game ${gameId}: Player ${room.players[playerId]?.displayName || playerId} exiting after game already over.`);
-            } else {
-                 // Player exiting a >2 player game or some other state
-                 updateOps.$set[`players.${playerId}.isReady`] = false;
-                 updateOps.$set[`players.${playerId}.hasSetSecret`] = false;
-                 const activePlayersAfterExit = Object.values(room.players).filter(p => p.socketId && p.socketId !== socket.id);
-                 if (activePlayersAfterExit.length < room.playerCount && room.status !== 'GAME_OVER') { // Don't change status if already game over
-                    updateOps.$set.status = 'WAITING_FOR_PLAYERS';
-                 } else if (room.status !== 'GAME_OVER') {
-                    const allRemainingReady = activePlayersAfterExit.every(p => p.isReady);
-                    updateOps.$set.status = allRemainingReady ? 'READY_TO_START' : 'WAITING_FOR_READY';
-                 }
             }
             
-            const updatedRoom = await updateGameRoom(db, gameId, updateOps);
+            let updatedRoom = await updateGameRoom(db, gameId, updateOps);
+            if (updatedRoom && gameStatusChangedToGameOver && updatedRoom.status === 'GAME_OVER') {
+                updatedRoom = await finishGame(db, updatedRoom);
+            }
             if (updatedRoom) {
-                io.to(gameId).emit('game-state-update', updatedRoom);
+                emitGameStateUpdate(io, gameId, updatedRoom);
+                if (forfeitResult) {
+                    const placedData: PlayerPlacedData = { gameId, playerId, placement: forfeitResult.placement, reason: 'forfeit' };
+                    io.to(gameId).emit('player-placed', placedData);
+                }
                 if(gameStatusChangedToGameOver && updatedRoom.status === 'GAME_OVER') { // Only emit game-over if status actually changed to GAME_OVER
-                    io.to(gameId).emit('game-over', {gameId, winner: updatedRoom.winner || 'none'}); // Ensure 'none' if no winner
+                    io.to(gameId).emit('game-over', {gameId, winner: updatedRoom.winner || 'none', ranking: updatedRoom.ranking}); // Ensure 'none' if no winner
+                } else if (updatedRoom.status === 'IN_PROGRESS' && updatedRoom.turn) {
+                    // The game goes on without the exiting player; the timer was cleared above and resumes at the stored deadline
+                    if (updatedRoom.turn !== room.turn) {
+                        emitTurnUpdate(io, gameId, updatedRoom, 'forfeit');
+                    }
+                    if (updatedRoom.turnDeadline) startTurnTimer(gameId, updatedRoom.turn, updatedRoom.turnDeadline, io);
                 }
             } else {
                 const currentRoomState = await getGameRoom(db, gameId);
-                if(currentRoomState) io.to(gameId).emit('game-state-update', currentRoomState);
+                if(currentRoomState) emitGameStateUpdate(io, gameId, currentRoomState);
             }
             socket.disconnect(true); 
         });
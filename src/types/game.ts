@@ -1,9 +1,29 @@
 
 export interface Guess {
-  value: string; // The 4-digit guessed number as a string e.g. "1234"
-  feedback: boolean[]; // Array of 4 booleans, true if digit is in correct position
+  value: string; // The guessed code as a string e.g. "1234"
+  feedback: boolean[]; // One boolean per position, true if the symbol is in the correct position
+  misplaced?: number; // Only in "bulls-cows" mode: count of right digits in the wrong position
 }
 
+// A position where a new guess goes against earlier feedback on the same secret
+export interface GuessContradiction {
+  position: number; // From 0
+  kind: 'locked' | 'ruled-out'; // The position is known to hold symbol / known not to hold symbol
+  symbol: string;
+}
+
+// Which feedback a guess receives
+export type FeedbackMode =
+  | "exact"                    // Only digits in the correct position are revealed
+  | "bulls-cows";              // Also reports how many other digits are right but misplaced
+
+// How well the computer opponent plays in single player
+export type AIDifficulty =
+  | "easy"                     // Random guesses, only avoids exact repeats
+  | "medium"                   // Sometimes ignores the feedback it received
+  | "hard"                     // Always guesses a code consistent with all feedback
+  | "perfect";                 // Picks the consistent code that leaves the fewest candidates in the worst case
+
 // Single Player Game Status
 export type SinglePlayerGameStatus =
   | "SETUP_PLAYER"
@@ -20,14 +40,91 @@ export type MultiplayerGameStatus =
   | "IN_PROGRESS"              // Game is actively being played
   | "GAME_OVER";               // Game has concluded
 
+// Which symbols a code may be built from
+export type CodeAlphabet =
+  | "digits"                   // 0-9
+  | "hex"                      // 0-9 and A-F
+  | "letters";                 // A-Z
+
+// Shape of every secret code and guess in a game
+export interface CodeRules {
+  length: number;              // Between MIN_CODE_LENGTH and MAX_CODE_LENGTH
+  alphabet: CodeAlphabet;
+}
+
+// Extra constraint on the computer's secret in single player (every secret also follows the pattern rule)
+export type SecretProfile =
+  | "any"                      // Any valid code
+  | "distinct"                 // Every symbol appears at most once
+  | "repeats"                  // At least one symbol appears more than once
+  | "no-palindromes";          // The code does not read the same backwards
+
+// How targets are assigned in games with more than two players
+export type TargetMode =
+  | "ring"                     // Each player guesses the next player's secret in seating order
+  | "all";                     // Each player may pick any remaining opponent to guess on their turn
+
+// What happens when a player cracks a target's secret
+export type CrackRule =
+  | "eliminate"                // The cracked player is out; the cracker inherits their target. Last one standing wins.
+  | "finish";                  // The cracker finishes in the next best place and leaves; the rest play on.
+
+// Why a player left the running game and received a placement
+export type PlacementReason = 'cracked' | 'finished' | 'forfeit' | 'timeout';
+
+// How the winner of a game won
+export type WinReason =
+  | "cracked"                  // By cracking a code
+  | "forfeit"                  // The last opponent ran out of time
+  | "exit";                    // The last opponent left or did not reconnect in time
+
+// What happens when a multiplayer turn runs out of time
+export type TimeoutPolicy =
+  | "skip"                     // The turn passes to the next player
+  | "forfeit"                  // The turn passes; after maxTimeouts timeouts in a row the player forfeits the game
+  | "bank";                    // Overtime is drawn from the player's time bank; the turn is skipped once the bank is empty
+
+// How the game is timed
+export type ClockMode =
+  | "turn"                     // Every turn has its own time limit
+  | "chess";                   // Each player has a total time budget that only runs during their own turns; running out loses
+
+// Turn timing of a multiplayer room, chosen by the host at creation
+export interface TurnTimerSettings {
+  clockMode: ClockMode;
+  turnSeconds: number;         // "turn" only: length of a turn, 0 for untimed games
+  timeoutPolicy: TimeoutPolicy; // "turn" only
+  maxTimeouts: number;         // "forfeit" only: consecutive timeouts that forfeit the game
+  bankSeconds: number;         // "bank" only: extra time each player can spend over the whole game
+  budgetSeconds: number;       // "chess" only: each player's total time
+  incrementSeconds: number;    // "chess" only: time added to a player's clock after each of their guesses
+}
+
+// One finished game of a best-of-N series, stored on the room
+export interface SeriesGameResult {
+  gameNumber: number;          // 1 for the first game of the series
+  startingPlayer?: string;     // playerId who took the first turn
+  winner?: string;             // playerId of the game's winner, absent if nobody won
+  ranking?: string[];          // playerIds from first to last place
+  guessCounts: { [playerId: string]: number }; // Guesses each player made in the game
+  durationMs?: number;
+  finishedAt: Date;
+}
+
 export interface PlayerData {
   socketId?: string;        // Optional: can be undefined if player disconnected
   displayName?: string;     // User's chosen name
+  profileId?: string;       // Stable profile ID of the player, used to attribute results. Never sent to clients.
+  sessionId?: string;       // Identifies who holds the seat; reconnect tokens must carry it. Never sent to clients.
+  disconnectedAt?: number;  // Epoch ms the player lost their connection; the seat is held for the grace window, cleared on rejoin
   secret?: string[];
   guessesMade?: Guess[];
   guessesAgainst?: Guess[];
   hasSetSecret: boolean;   // True if this player has submitted their secret data
   isReady: boolean;          // True if player has confirmed their secret and is ready for game to start
+  consecutiveTimeouts?: number; // Turns in a row this player let run out, reset by a guess
+  timeBankMs?: number;       // Remaining time bank ("bank" timeout policy) or chess clock of this player
+  hintsUsed?: number;        // Hints this player asked for in the current game
 }
 
 export interface GameRoom {
@@ -36,10 +133,48 @@ export interface GameRoom {
   players: { [playerId: string]: PlayerData }; // e.g., { "player1": PlayerData, "player2": PlayerData }
   status: MultiplayerGameStatus;
   turn?: string; // playerId of whose turn it is
-  targetMap?: { [playerId: string]: string }; // Who is guessing whose secret
+  turnDeadline?: number; // Epoch ms at which the current turn times out; absent while the turn clock is paused or in untimed games
+  turnStartedAt?: number; // Epoch ms when the current turn started, used to charge overtime to time banks
+  pausedTurnRemainingMs?: number; // "turn" clock only: time left on the current turn while it is paused for its disconnected player
+  targetMap?: { [playerId: string]: string }; // Who is guessing whose secret (the default target in "all" mode)
+  targetMode?: TargetMode; // Chosen by the host at creation, defaults to "ring"
+  crackRule?: CrackRule; // Chosen by the host at creation, defaults to "eliminate"
+  feedbackMode?: FeedbackMode; // Chosen by the host at creation, defaults to "exact"
+  codeRules?: CodeRules; // Chosen by the host at creation, defaults to 4 digits
+  turnTimer?: TurnTimerSettings; // Chosen by the host at creation, defaults to 30 seconds with skipped turns
+  isPublic?: boolean; // Listed in the public lobby while waiting for players, chosen by the host at creation
+  hintsAllowed?: boolean; // Players may open the assist panel and ask for hints, chosen by the host at creation
+  hardcore?: boolean; // Guesses that contradict earlier feedback are rejected, chosen by the host at creation
+  seed?: string; // Seed for the room's random choices (e.g. the starting player), set at creation. Never sent to clients.
+  turnOrder?: string[]; // Seating order, fixed when the game starts
+  remainingPlayerIds?: string[]; // Players still in the running game, in seating order
+  placements?: { [playerId: string]: number }; // Final place (1 = best) of every player that has left the running game
+  ranking?: string[]; // playerIds from first to last place, set when the game is over
   winner?: string; // playerId of the winner
+  winReason?: WinReason; // How the winner won, set with the winner
+  rematchVotes?: string[]; // Players who accepted a rematch after the game was over
+  seriesScore?: { [playerId: string]: number }; // Games won by each player across rematches in this room
+  bestOf?: number; // Length of the series chosen by the host at creation, 1 for single games
+  seriesGames?: SeriesGameResult[]; // Results of the finished games of the current series, in order
+  seriesWinner?: string; // playerId who clinched the series; the next rematch starts a new series
+  startingPlayer?: string; // playerId who took the first turn of the current game
   createdAt: Date; // For TTL index and tracking
   inProgressSince?: Date; // Timestamp for when the game moved to IN_PROGRESS
+  finishedAt?: Date; // Timestamp for when the game moved to GAME_OVER after being played
+  events?: GameEvent[]; // Everything that happened in the current game, in order; kept off the client views
+}
+
+// What a single client is allowed to see of a player: internal fields such as socketId are dropped,
+// and the secret is only present for the viewer's own slot (or for everyone once the game is over).
+export interface PlayerView extends Omit<PlayerData, 'socketId' | 'profileId' | 'sessionId'> {
+  isConnected: boolean;
+}
+
+// Per-recipient projection of a GameRoom, sent in 'game-state-update'
+export interface GameRoomView extends Omit<GameRoom, 'players' | 'events' | 'seed'> {
+  players: { [playerId: string]: PlayerView };
+  serverTime: number; // Epoch ms when the view was built, so clients can correct for clock skew
+  spectatorCount?: number; // Sockets watching the room read-only
 }
 
 // Structure for the in-memory store on the server (if not using DB for everything)
@@ -52,6 +187,187 @@ export interface GameRoomsStore {
 export interface TurnUpdateData {
     gameId: string;
     nextPlayerId: string;
-    reason?: 'guess' | 'timeout';
+    reason?: 'guess' | 'timeout' | 'forfeit';
+    turnDeadline?: number; // Epoch ms at which the new turn times out
+    serverTime: number; // Epoch ms when the update was sent
 }
 
+// What happened at one step of a game, as recorded for its replay
+export type GameEventType =
+  | 'secret-set'  // A player locked in their secret (the secret itself is only in the replay)
+  | 'game-start'  // playerId takes the first turn
+  | 'guess'       // playerId guessed targetPlayerId's secret
+  | 'turn'        // The turn passed to playerId
+  | 'timeout'     // playerId let their turn run out
+  | 'exit'        // playerId left the running game or lost their seat
+  | 'game-over';  // The game ended, with winner if there is one
+
+export interface GameEvent {
+    type: GameEventType;
+    at: number; // Epoch ms
+    playerId?: string;
+    targetPlayerId?: string; // guess only
+    guess?: Guess; // guess only, with its feedback
+    reason?: TurnUpdateData['reason']; // turn only: why the previous turn ended
+    placement?: number; // timeout and exit: the place the player finished on, if it ended their game
+    winner?: string; // game-over only
+}
+
+// A finished game with both secrets revealed, stepped through on the replay page
+export interface GameReplay {
+    replayId: string;
+    mode: GameModeKey;
+    players: { id: string; name: string }[]; // In seating order
+    secrets: { [playerId: string]: string[] };
+    codeRules?: CodeRules;
+    feedbackMode?: FeedbackMode;
+    events: GameEvent[];
+    startedAt: number; // Epoch ms
+    finishedAt: number;
+    winner?: string;
+}
+
+// The server's answer to a daily challenge guess; the day's code is only sent once it was guessed
+export interface DailyGuessResponse {
+    dateKey: string;
+    guess: Guess;
+    secret?: string[];
+}
+
+// Acknowledgement of a successful 'join-game', carrying the room code the server allocated for new rooms
+export interface JoinGameAck {
+    gameId: string;
+    playerId: string;
+    reconnectToken: string; // Must be sent with 'join-game' to get this seat back after a reconnect
+}
+
+// Acknowledgement of a 'use-hint' the server counted; failures are reported through 'error-event' instead
+export interface UseHintAck {
+    hintsUsed: number;
+}
+
+// For player-placed event data (a player left the running game with a final place)
+export interface PlayerPlacedData {
+    gameId: string;
+    playerId: string;
+    placement: number;
+    reason: PlacementReason;
+    byPlayerId?: string; // The player whose crack caused this placement
+}
+
+// Which kind of game a profile statistic belongs to
+export type GameModeKey = 'single' | 'multiplayer' | 'daily';
+
+export interface ModeStats {
+  played: number;
+  wins: number;
+  losses: number;
+  solves: number;             // Wins with a known guess count, used for the average
+  totalSolveGuesses: number;  // Sum of guesses over all solves
+  fastestSolveMs?: number;    // Shortest time from game start to a win
+}
+
+// A player's persistent profile, stored locally and (when available) in MongoDB
+export interface PlayerProfile {
+  profileId: string;          // Stable ID generated once per device, independent of the username
+  username: string;
+  stats: { [mode in GameModeKey]?: ModeStats };
+  currentStreak: number;      // Consecutive wins across all modes
+  longestStreak: number;
+  createdAt: string;          // ISO timestamps, so profiles survive JSON round trips unchanged
+  updatedAt: string;
+}
+
+// The server's answer to saving a profile; profileKey is only sent when the server first stores the profile
+export interface ProfileSaveResponse {
+  profile: PlayerProfile;
+  profileKey?: string;        // Must be sent in the PROFILE_KEY_HEADER of every later save
+}
+
+// The outcome of one finished game, as fed into a profile
+export interface GameResultSummary {
+  mode: GameModeKey;
+  won: boolean;
+  guessCount?: number;        // Guesses the player made
+  durationMs?: number;        // Time from game start to game over
+  hintsUsed?: number;         // Hints the player asked for; games with hints count as assisted
+}
+
+// One player's outcome of one finished game, as stored in the "results" collection
+export interface GameResultRecord {
+  resultId: string;           // Unique per player and game, so archiving the same game twice is harmless
+  mode: GameModeKey;
+  gameId?: string;            // Multiplayer only
+  playerCount: number;        // Humans and computer opponents taking part (1 for the daily challenge)
+  playerName: string;
+  profileId?: string;
+  won: boolean;
+  winReason?: WinReason;      // Wins only
+  placement?: number;         // Multiplayer only: final place, 1 = best
+  guessCount: number;
+  durationMs?: number;        // Time from game start to game over
+  feedbackMode?: FeedbackMode;
+  codeRules?: CodeRules;
+  hintsUsed?: number;         // Only set for assisted games
+  dateKey?: string;           // Daily only: the day of the challenge
+  finishedAt: Date;
+}
+
+// One player's daily challenge as tracked by the server, in the "dailyAttempts" collection
+export interface DailyAttempt {
+  attemptId: string;          // "<dateKey>:<profileId>", one attempt per player and day
+  dateKey: string;
+  profileId: string;
+  playerName: string;
+  guessCount: number;         // Guesses scored by the server
+  startedAt: Date;            // Server times, so the solve time cannot be reported by the client
+  solvedAt?: Date;
+}
+
+// Optional filters of the leaderboard
+export interface LeaderboardFilters {
+  mode?: GameModeKey;
+  playerCount?: number;
+  assisted?: boolean;         // Only games with (true) or without (false) hints
+  codeRules: CodeRules;       // Games are only ranked against games with the same rules; defaults to 4 digits
+  feedbackMode: FeedbackMode; // Defaults to "exact"
+}
+
+// A single winning game on the fewest guesses or fastest wins board
+export type LeaderboardGameEntry = Pick<GameResultRecord, 'playerName' | 'mode' | 'playerCount' | 'guessCount' | 'durationMs' | 'hintsUsed' | 'finishedAt'>;
+
+// A player on the win rate board
+export interface LeaderboardWinRateEntry {
+  playerName: string;
+  played: number;
+  wins: number;
+  winRate: number;            // Between 0 and 1
+}
+
+export interface Leaderboard {
+  fewestGuesses: LeaderboardGameEntry[];
+  fastestWins: LeaderboardGameEntry[];
+  winRate: LeaderboardWinRateEntry[];
+}
+
+// An open public room as listed in the lobby
+export interface RoomListing {
+  gameId: string;
+  playerCount: number;        // Seats in the room
+  joinedCount: number;        // Seats taken by connected players
+  hostName: string;
+  targetMode: TargetMode;
+  crackRule: CrackRule;
+  feedbackMode: FeedbackMode;
+  codeRules: CodeRules;
+  turnTimer: TurnTimerSettings;
+  bestOf: number;
+  hintsAllowed: boolean;
+  hardcore: boolean;
+  ageMs: number;              // Time since the room was created
+}
+
+// Optional filters of the room listing
+export interface RoomListFilters {
+  playerCount?: number;
+}